@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Entity } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface EntityResolutionProps {
+  projectId: string;
+}
+
+interface EntityAlias {
+  name: string;
+  type: string;
+  frequency: number;
+  documentIds: string[];
+}
+
+interface ResolutionCandidate {
+  id: string;
+  entities: Array<{ id: string; name: string; type: string; frequency: number }>;
+  name: string;
+  type: string;
+  score: number;
+  reasons: string[];
+}
+
+const SHOWN_ENTITIES = 50;
+
+const aliasesOf = (entity: Entity) => (entity.aliases as EntityAlias[] | null) || [];
+
+export default function EntityResolution({ projectId }: EntityResolutionProps) {
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergedName, setMergedName] = useState("");
+  const { toast } = useToast();
+
+  const { data: entities = [] } = useQuery<Entity[]>({
+    queryKey: ["/api/projects", projectId, "entities"],
+  });
+
+  const { data: clusters = [] } = useQuery<ResolutionCandidate[]>({
+    queryKey: ["/api/projects", projectId, "entities", "clusters"],
+  });
+
+  // Entities, clusters and the graph all change with every decision
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Entities Not Changed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/entities/resolve`);
+      return response.json();
+    },
+    onSuccess: ({ merged }: { merged: number }) => {
+      refresh();
+      toast({
+        title: "Entities Resolved",
+        description: merged > 0 ? `${merged} duplicate entities merged` : "Nothing left to merge automatically",
+      });
+    },
+    onError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ entityIds, name }: { entityIds: string[]; name?: string }) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/entities/merge`, { entityIds, name });
+      return response.json();
+    },
+    onSuccess: (entity: Entity) => {
+      setSelected([]);
+      setMergedName("");
+      refresh();
+      toast({
+        title: "Entities Merged",
+        description: `Merged into ${entity.name}`,
+      });
+    },
+    onError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (entityIds: string[]) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/entities/reject`, { entityIds });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async ({ entityId, alias }: { entityId: string; alias: EntityAlias }) => {
+      const response = await apiRequest("POST", `/api/entities/${entityId}/split`, {
+        aliases: [{ name: alias.name, type: alias.type }],
+      });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const merged = entities.filter(entity => aliasesOf(entity).length > 1);
+  const matching = entities
+    .filter(entity => !search || [entity.name, ...aliasesOf(entity).map(alias => alias.name)]
+      .some(name => name.toLowerCase().includes(search.toLowerCase())))
+    .slice(0, SHOWN_ENTITIES);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-secondary">Entity Resolution</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Names that differ only in punctuation or legal form are merged automatically. Review the rest below.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => resolveMutation.mutate()} disabled={resolveMutation.isPending}>
+          <i className="fas fa-magic mr-2"></i>
+          Resolve Now
+        </Button>
+      </div>
+
+      {/* Suggested clusters */}
+      <div>
+        <h4 className="font-medium text-secondary mb-3">Suggested Merges ({clusters.length})</h4>
+        {clusters.length === 0 ? (
+          <p className="text-sm text-gray-500">No likely duplicates found</p>
+        ) : (
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+            {clusters.map(cluster => (
+              <div key={cluster.id} className="p-4 flex items-start justify-between space-x-4">
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-1">
+                    {cluster.entities.map(entity => (
+                      <Badge key={entity.id} variant="outline">
+                        {entity.name}
+                        <span className="ml-1 text-gray-400">{entity.type} · {entity.frequency}</span>
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    As <span className="font-medium text-secondary">{cluster.name}</span> ({cluster.type}),
+                    score {cluster.score}: {cluster.reasons.join("; ")}
+                  </p>
+                </div>
+                <div className="flex space-x-2 shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => mergeMutation.mutate({ entityIds: cluster.entities.map(entity => entity.id) })}
+                    disabled={mergeMutation.isPending}
+                    className="bg-primary text-white hover:bg-blue-700"
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => rejectMutation.mutate(cluster.entities.map(entity => entity.id))}
+                    disabled={rejectMutation.isPending}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Merged entities and their aliases */}
+      {merged.length > 0 && (
+        <div>
+          <h4 className="font-medium text-secondary mb-3">Merged Entities ({merged.length})</h4>
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-72 overflow-y-auto">
+            {merged.map(entity => (
+              <div key={entity.id} className="p-4 space-y-2">
+                <p className="text-sm">
+                  <span className="font-medium text-secondary">{entity.name}</span>
+                  <span className="text-gray-500 ml-2">{entity.type} · {entity.frequency} mentions</span>
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {aliasesOf(entity).map(alias => (
+                    <Badge key={`${alias.type}-${alias.name}`} variant="secondary" className="space-x-1">
+                      <span>{alias.name}</span>
+                      <span className="text-gray-400">{alias.type} · {alias.frequency}</span>
+                      <button
+                        title="Split off"
+                        onClick={() => splitMutation.mutate({ entityId: entity.id, alias })}
+                        disabled={splitMutation.isPending}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <i className="fas fa-times"></i>
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Manual merge */}
+      <div>
+        <h4 className="font-medium text-secondary mb-3">Merge Manually</h4>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Find entities by name or alias"
+          className="mb-3"
+        />
+        <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto divide-y divide-gray-100">
+          {matching.map(entity => (
+            <label key={entity.id} className="flex items-center space-x-3 px-4 py-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={selected.includes(entity.id)}
+                onCheckedChange={(checked) => setSelected(prev =>
+                  checked ? [...prev, entity.id] : prev.filter(id => id !== entity.id)
+                )}
+              />
+              <span className="text-secondary">{entity.name}</span>
+              <span className="text-gray-400">{entity.type} · {entity.frequency}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex space-x-2 mt-3">
+          <Input
+            value={mergedName}
+            onChange={(e) => setMergedName(e.target.value)}
+            placeholder="Name of the merged entity (optional)"
+          />
+          <Button
+            onClick={() => mergeMutation.mutate({ entityIds: selected, name: mergedName.trim() || undefined })}
+            disabled={selected.length < 2 || mergeMutation.isPending}
+            className="bg-primary text-white hover:bg-blue-700 shrink-0"
+          >
+            <i className="fas fa-compress-alt mr-2"></i>
+            Merge {selected.length > 1 ? selected.length : ""} Selected
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
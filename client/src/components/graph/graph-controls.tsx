@@ -4,6 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { languageName } from "@/lib/utils";
 
 interface GraphControlsProps {
   projectId: string;
@@ -12,6 +13,7 @@ interface GraphControlsProps {
     relationshipTypes: string[];
     minFrequency: number;
     searchQuery: string;
+    languages: string[];
   };
   onFiltersChange: (filters: any) => void;
 }
@@ -39,6 +41,7 @@ export default function GraphControls({ projectId, filters, onFiltersChange }: G
 
   const entityTypes = stats?.entityTypes || {};
   const relationshipTypes = stats?.relationshipTypes || {};
+  const languages: Record<string, number> = (stats as any)?.languages || {};
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -104,6 +107,32 @@ export default function GraphControls({ projectId, filters, onFiltersChange }: G
           </div>
         </div>
 
+        {/* Document Languages */}
+        {Object.keys(languages).length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Document Languages</label>
+            <div className="space-y-2 max-h-32 overflow-y-auto">
+              {Object.entries(languages).map(([language, count]) => (
+                <div key={language} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      checked={localFilters.languages.includes(language)}
+                      onCheckedChange={(checked) => {
+                        const newLanguages = checked
+                          ? [...localFilters.languages, language]
+                          : localFilters.languages.filter(l => l !== language);
+                        handleFilterUpdate('languages', newLanguages);
+                      }}
+                    />
+                    <span className="text-sm text-gray-700">{languageName(language)}</span>
+                  </div>
+                  <span className="text-xs text-gray-500">{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Minimum Frequency */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -148,6 +177,7 @@ export default function GraphControls({ projectId, filters, onFiltersChange }: G
               relationshipTypes: [],
               minFrequency: 1,
               searchQuery: "",
+              languages: [],
             };
             setLocalFilters(resetFilters);
             onFiltersChange(resetFilters);
@@ -5,6 +5,7 @@ interface GraphVisualizationProps {
   projectId: string;
   graphData: any;
   isLoading: boolean;
+  title?: string;
 }
 
 interface SelectedNode {
@@ -14,7 +15,7 @@ interface SelectedNode {
   properties: any;
 }
 
-export default function GraphVisualization({ projectId, graphData, isLoading }: GraphVisualizationProps) {
+export default function GraphVisualization({ projectId, graphData, isLoading, title = "Knowledge Graph Visualization" }: GraphVisualizationProps) {
   const graphContainerRef = useRef<HTMLDivElement>(null);
   const [selectedNode, setSelectedNode] = useState<SelectedNode | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -91,7 +92,7 @@ export default function GraphVisualization({ projectId, graphData, isLoading }:
   return (
     <div className={`bg-white rounded-xl shadow-sm border border-gray-200 p-6 ${isFullscreen ? 'fixed inset-0 z-50' : 'h-full'}`}>
       <div className="flex items-center justify-between mb-6">
-        <h3 className="text-lg font-semibold text-secondary">Knowledge Graph Visualization</h3>
+        <h3 className="text-lg font-semibold text-secondary">{title}</h3>
         <div className="flex items-center space-x-3">
           <Button variant="ghost" size="sm" onClick={handleZoomIn} title="Zoom In">
             <i className="fas fa-search-plus"></i>
@@ -126,6 +127,7 @@ export default function GraphVisualization({ projectId, graphData, isLoading }:
           </p>
           
           {/* Mock legend */}
+          {graphData.statistics?.entityTypes && (
           <div className="mt-4 space-x-2">
             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800">
               <div className="w-2 h-2 bg-blue-500 rounded-full mr-1"></div>
@@ -140,6 +142,7 @@ export default function GraphVisualization({ projectId, graphData, isLoading }:
               Location ({graphData.statistics?.entityTypes?.GPE || 0})
             </span>
           </div>
+          )}
         </div>
 
         {/* Graph statistics overlay */}
@@ -0,0 +1,99 @@
+import { Badge } from "@/components/ui/badge";
+
+interface SiteStructureReportProps {
+  siteGraph: any;
+}
+
+export default function SiteStructureReport({ siteGraph }: SiteStructureReportProps) {
+  if (!siteGraph || !siteGraph.nodes || siteGraph.nodes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Top Pages by PageRank */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-secondary mb-4">Top Pages</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-left py-2 font-medium text-gray-500">Page</th>
+              <th className="text-right py-2 font-medium text-gray-500">Inbound</th>
+              <th className="text-right py-2 font-medium text-gray-500">PageRank</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {siteGraph.topPages.map((page: any) => (
+              <tr key={page.url}>
+                <td className="py-2 pr-3">
+                  <p className="font-medium text-secondary truncate max-w-xs">{page.title}</p>
+                  <p className="text-xs text-gray-500 font-mono truncate max-w-xs">{page.url}</p>
+                </td>
+                <td className="py-2 text-right text-gray-600">{page.inbound}</td>
+                <td className="py-2 text-right text-gray-600">{page.pageRank.toFixed(4)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Broken Links */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-secondary">Broken Links</h3>
+          <Badge variant={siteGraph.brokenLinks.length > 0 ? "destructive" : "secondary"}>
+            {siteGraph.brokenLinks.length}
+          </Badge>
+        </div>
+        {siteGraph.brokenLinks.length === 0 ? (
+          <p className="text-sm text-gray-500">No broken links found</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {siteGraph.brokenLinks.map((link: any) => (
+              <div key={link.url} className="border-b border-gray-100 pb-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-mono text-secondary truncate">{link.url}</p>
+                  <Badge variant="outline" className="ml-3 shrink-0">
+                    {link.statusCode ? `HTTP ${link.statusCode}` : link.kind}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {link.sources.length > 0
+                    ? `Linked from ${link.sources.length} page${link.sources.length > 1 ? 's' : ''}: ${link.sources.slice(0, 3).join(', ')}${link.sources.length > 3 ? ', ...' : ''}`
+                    : link.message || 'Not linked from any stored page'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Orphans and Dead Ends */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-secondary">Orphan Pages</h3>
+          <Badge variant="secondary">{siteGraph.orphans.length}</Badge>
+        </div>
+        <p className="text-sm text-gray-500 mb-3">Pages no other crawled page links to</p>
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {siteGraph.orphans.map((url: string) => (
+            <li key={url} className="text-xs font-mono text-gray-600 truncate">{url}</li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-secondary">Dead Ends</h3>
+          <Badge variant="secondary">{siteGraph.deadEnds.length}</Badge>
+        </div>
+        <p className="text-sm text-gray-500 mb-3">Pages without any links to the rest of the site</p>
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {siteGraph.deadEnds.map((url: string) => (
+            <li key={url} className="text-xs font-mono text-gray-600 truncate">{url}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,15 @@ interface ActivityItem {
   url?: string;
 }
 
+const failureLabels: Record<string, string> = {
+  dns: 'DNS failure',
+  timeout: 'Timeout',
+  network: 'Network error',
+  http_4xx: 'Client error',
+  http_5xx: 'Server error',
+  parse: 'Parse error',
+};
+
 export default function ActivityFeed({ projectId }: ActivityFeedProps) {
   const [activities, setActivities] = useState<ActivityItem[]>([]);
 
@@ -21,13 +30,24 @@ export default function ActivityFeed({ projectId }: ActivityFeedProps) {
   useWebSocketEvent('scraping_progress', (data) => {
     if (!projectId || data.projectId !== projectId) return;
 
+    const failure = data.failure
+      ? `${failureLabels[data.failure.kind] || data.failure.kind}${data.failure.statusCode ? ` (HTTP ${data.failure.statusCode})` : ''}`
+      : null;
+
     const activity: ActivityItem = {
       id: `${Date.now()}-${Math.random()}`,
-      type: data.status === 'success' ? 'success' : 'error',
+      type: data.status === 'success' ? 'success' : 
+            data.status === 'blocked' || data.status === 'retrying' ? 'warning' : 'error',
       message: data.status === 'success' 
         ? `Successfully scraped: ${data.url}` 
+        : data.status === 'blocked'
+        ? `Skipped (robots.txt): ${data.url}`
+        : data.status === 'retrying'
+        ? `Retrying: ${data.url}`
         : `Error scraping: ${data.url}`,
-      details: data.message,
+      details: data.status === 'error' && failure
+        ? `${failure} after ${data.failure.attempts} attempt${data.failure.attempts > 1 ? 's' : ''}: ${data.message}`
+        : data.message,
       timestamp: new Date(),
       url: data.url,
     };
@@ -53,11 +73,105 @@ export default function ActivityFeed({ projectId }: ActivityFeedProps) {
   useWebSocketEvent('scraping_completed', (data) => {
     if (!projectId || data.projectId !== projectId) return;
 
+    const changes = data.changes;
+    const stoppedEarly = data.stopReason && data.stopReason !== 'completed';
+    const activity: ActivityItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      type: stoppedEarly ? 'warning' : 'success',
+      message: stoppedEarly
+        ? `${changes ? 'Recrawl' : 'Scraping'} stopped: ${data.stopMessage}`
+        : changes ? 'Recrawl completed successfully' : 'Scraping completed successfully',
+      details: changes
+        ? `${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed, ${changes.unchangedCount} unchanged`
+        : stoppedEarly ? 'Pages crawled so far have been kept' : 'All URLs have been processed',
+      timestamp: new Date(),
+    };
+
+    setActivities(prev => [activity, ...prev.slice(0, 49)]);
+  }, [projectId]);
+
+  useWebSocketEvent('rendering_suggested', (data) => {
+    if (!projectId || data.projectId !== projectId) return;
+
+    const activity: ActivityItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      type: 'warning',
+      message: 'Page looks rendered with JavaScript',
+      details: `Only ${data.wordCount} words found next to scripts. Crawl with the headless browser to see the rendered content.`,
+      timestamp: new Date(),
+      url: data.url,
+    };
+
+    setActivities(prev => [activity, ...prev.slice(0, 49)]);
+  }, [projectId]);
+
+  useWebSocketEvent('feed_polled', (data) => {
+    if (!projectId || data.projectId !== projectId || data.newItems === 0) return;
+
     const activity: ActivityItem = {
       id: `${Date.now()}-${Math.random()}`,
       type: 'success',
-      message: 'Scraping completed successfully',
-      details: 'All URLs have been processed',
+      message: `Feed updated: ${data.feedUrl}`,
+      details: `${data.newItems} new item${data.newItems > 1 ? 's' : ''}`,
+      timestamp: new Date(),
+      url: data.feedUrl,
+    };
+
+    setActivities(prev => [activity, ...prev.slice(0, 49)]);
+  }, [projectId]);
+
+  useWebSocketEvent('feed_error', (data) => {
+    if (!projectId || data.projectId !== projectId) return;
+
+    const activity: ActivityItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      type: 'error',
+      message: `Error polling feed: ${data.feedUrl}`,
+      details: data.error || 'Unknown error occurred',
+      timestamp: new Date(),
+      url: data.feedUrl,
+    };
+
+    setActivities(prev => [activity, ...prev.slice(0, 49)]);
+  }, [projectId]);
+
+  useWebSocketEvent('schedule_triggered', (data) => {
+    if (!projectId || data.projectId !== projectId) return;
+
+    const activity: ActivityItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      type: data.started ? 'info' : 'warning',
+      message: data.started ? 'Scheduled recrawl started' : 'Scheduled recrawl skipped',
+      details: data.started ? undefined : data.message,
+      timestamp: new Date(),
+    };
+
+    setActivities(prev => [activity, ...prev.slice(0, 49)]);
+  }, [projectId]);
+
+  useWebSocketEvent('reprocess_completed', (data) => {
+    if (!projectId || data.projectId !== projectId) return;
+
+    const { summary } = data;
+    const activity: ActivityItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      type: 'success',
+      message: `Reprocessed ${summary.documents} documents`,
+      details: `Entities ${summary.entities.before} → ${summary.entities.after}, relationships ${summary.relationships.before} → ${summary.relationships.after}`,
+      timestamp: new Date(),
+    };
+
+    setActivities(prev => [activity, ...prev.slice(0, 49)]);
+  }, [projectId]);
+
+  useWebSocketEvent('reprocess_error', (data) => {
+    if (!projectId || data.projectId !== projectId) return;
+
+    const activity: ActivityItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      type: 'error',
+      message: 'Reprocessing failed',
+      details: data.error || 'Unknown error occurred',
       timestamp: new Date(),
     };
 
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface FeedFormProps {
+  onProjectStart: (projectId: string) => void;
+}
+
+export default function FeedForm({ onProjectStart }: FeedFormProps) {
+  const [config, setConfig] = useState({
+    name: "",
+    feedUrls: [] as string[],
+    pollInterval: 30,
+    followLinks: true,
+    extractEntities: true,
+    buildRelationships: true,
+  });
+
+  const { toast } = useToast();
+
+  const startMonitoringMutation = useMutation({
+    mutationFn: async (feedConfig: typeof config) => {
+      const response = await apiRequest("POST", "/api/feeds/start", feedConfig);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Monitoring Started",
+        description: "New feed items will be added to the project as they are published.",
+      });
+      onProjectStart(data.projectId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Monitoring Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const feedUrls = config.feedUrls.map(url => url.trim()).filter(Boolean);
+    if (feedUrls.length === 0) {
+      toast({
+        title: "Feed Required",
+        description: "Please enter at least one RSS, Atom or JSON Feed URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalid = feedUrls.find(url => {
+      try {
+        new URL(url);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalid) {
+      toast({
+        title: "Invalid URL",
+        description: `${invalid} is not a valid URL`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    startMonitoringMutation.mutate({ ...config, name: config.name.trim(), feedUrls });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-secondary mb-6">Feed Monitoring</h3>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Feed URLs */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Feed URLs</label>
+          <Textarea
+            rows={4}
+            placeholder={"https://example.com/feed.xml\nhttps://example.com/atom.xml"}
+            value={config.feedUrls.join('\n')}
+            onChange={(e) => setConfig(prev => ({ ...prev, feedUrls: e.target.value.split('\n') }))}
+            className="font-mono text-sm"
+          />
+          <p className="text-sm text-gray-500 mt-2">RSS, Atom or JSON Feed URLs, one per line</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Project Name</label>
+            <Input
+              placeholder="Optional"
+              value={config.name}
+              onChange={(e) => setConfig(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Check Every</label>
+            <Select
+              value={config.pollInterval.toString()}
+              onValueChange={(value) => setConfig(prev => ({ ...prev, pollInterval: parseInt(value) }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="5">5 minutes</SelectItem>
+                <SelectItem value="15">15 minutes</SelectItem>
+                <SelectItem value="30">30 minutes</SelectItem>
+                <SelectItem value="60">1 hour</SelectItem>
+                <SelectItem value="360">6 hours</SelectItem>
+                <SelectItem value="1440">1 day</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              checked={config.followLinks}
+              onCheckedChange={(checked) => setConfig(prev => ({ ...prev, followLinks: !!checked }))}
+            />
+            <span className="text-sm text-gray-700">Fetch the full article when a feed only carries a summary</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              checked={config.extractEntities}
+              onCheckedChange={(checked) => setConfig(prev => ({ ...prev, extractEntities: !!checked }))}
+            />
+            <span className="text-sm text-gray-700">Extract entities (Person, Organization, Location)</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              checked={config.buildRelationships}
+              onCheckedChange={(checked) => setConfig(prev => ({ ...prev, buildRelationships: !!checked }))}
+            />
+            <span className="text-sm text-gray-700">Build relationship graph</span>
+          </div>
+        </div>
+
+        <Button
+          type="submit"
+          disabled={startMonitoringMutation.isPending}
+          className="bg-primary text-white hover:bg-blue-700"
+        >
+          {startMonitoringMutation.isPending ? (
+            <>
+              <i className="fas fa-spinner fa-spin mr-2"></i>
+              Starting...
+            </>
+          ) : (
+            <>
+              <i className="fas fa-rss mr-2"></i>
+              Start Monitoring
+            </>
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface GazetteerManagerProps {
+  projectId: string;
+}
+
+interface GazetteerSummary {
+  id: string;
+  name: string;
+  entryCount: number;
+  types: string[];
+  createdAt: string;
+}
+
+export default function GazetteerManager({ projectId }: GazetteerManagerProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const { data: gazetteers = [] } = useQuery<GazetteerSummary[]>({
+    queryKey: ["/api/projects", projectId, "gazetteers"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "gazetteers"] });
+  };
+
+  // Multipart upload, so this bypasses the JSON-only apiRequest helper
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      if (name.trim()) formData.append("name", name.trim());
+
+      const response = await fetch(`/api/projects/${projectId}/gazetteers`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const text = (await response.text()) || response.statusText;
+        throw new Error(`${response.status}: ${text}`);
+      }
+      return response.json();
+    },
+    onSuccess: (data: { gazetteer: { name: string; entries: unknown[] }; errors: { line: number; message: string }[] }) => {
+      toast({
+        title: "Gazetteer Added",
+        description: `${data.gazetteer.entries.length} terms in ${data.gazetteer.name}` +
+          (data.errors.length > 0 ? `; skipped lines ${data.errors.map(e => e.line).join(', ')}` : ''),
+      });
+      setFile(null);
+      setName("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Gazetteer Not Added",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/gazetteers/${id}`);
+    },
+    onSuccess: refresh,
+  });
+
+  return (
+    <div className="border-t border-gray-200 pt-6 space-y-4">
+      <div>
+        <h4 className="font-medium text-secondary">Gazetteers</h4>
+        <p className="text-xs text-gray-500 mt-1">
+          CSV files with the columns term, type, aliases (separated by |) and canonical_id. Their terms are always
+          recognized by pattern-ner, ahead of the patterns. Reprocess to apply them to stored documents.
+        </p>
+      </div>
+
+      {gazetteers.length > 0 && (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {gazetteers.map(gazetteer => (
+            <div key={gazetteer.id} className="p-3 flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <i className="fas fa-book text-gray-400"></i>
+                <span className="text-sm font-medium text-secondary">{gazetteer.name}</span>
+                <span className="text-xs text-gray-500">{gazetteer.entryCount} terms</span>
+                {gazetteer.types.map(type => (
+                  <Badge key={type} variant="secondary">{type}</Badge>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deleteMutation.mutate(gazetteer.id)}
+                disabled={deleteMutation.isPending}
+                className="text-red-500 hover:text-red-700"
+              >
+                <i className="fas fa-trash"></i>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+        />
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (defaults to the file name)"
+        />
+        <Button
+          variant="outline"
+          onClick={() => uploadMutation.mutate()}
+          disabled={!file || uploadMutation.isPending}
+          className="shrink-0"
+        >
+          <i className={`fas ${uploadMutation.isPending ? 'fa-spinner fa-spin' : 'fa-upload'} mr-2`}></i>
+          Upload
+        </Button>
+      </div>
+    </div>
+  );
+}
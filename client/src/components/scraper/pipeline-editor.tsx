@@ -0,0 +1,252 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Project } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import ReprocessPanel from "./reprocess-panel";
+import GazetteerManager from "./gazetteer-manager";
+import RelationPatternEditor from "./relation-pattern-editor";
+
+interface PipelineEditorProps {
+  projectId: string | null;
+}
+
+interface StageInfo {
+  name: string;
+  kind: string;
+  version: string;
+  description?: string;
+}
+
+interface PipelineStage {
+  stage: string;
+  options: Record<string, unknown>;
+}
+
+// Options are edited as JSON text and parsed on save
+interface EditedStage {
+  stage: string;
+  options: string;
+}
+
+const toEdited = (stages: PipelineStage[]): EditedStage[] =>
+  stages.map(({ stage, options }) => ({
+    stage,
+    options: Object.keys(options || {}).length > 0 ? JSON.stringify(options) : "",
+  }));
+
+export default function PipelineEditor({ projectId }: PipelineEditorProps) {
+  const [selectedProjectId, setSelectedProjectId] = useState<string>(projectId || "");
+  const [stages, setStages] = useState<EditedStage[]>([]);
+  const [stageToAdd, setStageToAdd] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (projectId) setSelectedProjectId(projectId);
+  }, [projectId]);
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const { data: registry } = useQuery<{ stages: StageInfo[] }>({
+    queryKey: ["/api/nlp/stages"],
+  });
+  const available = registry?.stages || [];
+
+  const { data: pipeline } = useQuery<{ stages: PipelineStage[]; isDefault: boolean }>({
+    queryKey: ["/api/projects", selectedProjectId, "pipeline"],
+    enabled: !!selectedProjectId,
+  });
+
+  useEffect(() => {
+    if (pipeline) setStages(toEdited(pipeline.stages));
+  }, [pipeline]);
+
+  const onSaved = (saved: { stages: PipelineStage[]; isDefault: boolean }) => {
+    queryClient.setQueryData(["/api/projects", selectedProjectId, "pipeline"], saved);
+    toast({
+      title: "Pipeline Saved",
+      description: "Documents processed from now on use this pipeline; reprocess to apply it to stored ones",
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Pipeline Not Saved",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const parsed = stages.map(({ stage, options }) => {
+        try {
+          return { stage, options: options.trim() ? JSON.parse(options) : {} };
+        } catch {
+          throw new Error(`Options of ${stage} are not valid JSON`);
+        }
+      });
+      const response = await apiRequest("PUT", `/api/projects/${selectedProjectId}/pipeline`, { stages: parsed });
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/projects/${selectedProjectId}/pipeline`);
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const move = (index: number, offset: number) => {
+    setStages(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const stageInfo = (name: string) => available.find(stage => stage.name === name);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-secondary">NLP Pipeline</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Stages run top to bottom: tokenizers, sentence splitters, entity recognition, relation extraction, then post-processing.
+          Each document records the stages and versions that produced its entities.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Project</label>
+        <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a project" />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map(project => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selectedProjectId && (
+        <>
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {stages.map((stage, index) => {
+              const info = stageInfo(stage.stage);
+              return (
+                <div key={`${stage.stage}-${index}`} className="p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-mono text-sm text-secondary">{stage.stage}</span>
+                      {info ? (
+                        <>
+                          <Badge variant="secondary">{info.kind}</Badge>
+                          <span className="text-xs text-gray-500">v{info.version}</span>
+                        </>
+                      ) : (
+                        <Badge variant="destructive">not registered</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button variant="outline" size="sm" disabled={index === 0} onClick={() => move(index, -1)}>
+                        <i className="fas fa-arrow-up"></i>
+                      </Button>
+                      <Button variant="outline" size="sm" disabled={index === stages.length - 1} onClick={() => move(index, 1)}>
+                        <i className="fas fa-arrow-down"></i>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setStages(prev => prev.filter((_, i) => i !== index))}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        <i className="fas fa-trash"></i>
+                      </Button>
+                    </div>
+                  </div>
+                  {info?.description && <p className="text-xs text-gray-500">{info.description}</p>}
+                  <Input
+                    value={stage.options}
+                    onChange={(e) => setStages(prev => prev.map((s, i) => i === index ? { ...s, options: e.target.value } : s))}
+                    placeholder='Options as JSON, e.g. {"minConfidence": 0.7}'
+                    className="font-mono text-sm"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex space-x-2">
+            <Select value={stageToAdd} onValueChange={setStageToAdd}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a stage" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(stage => (
+                  <SelectItem key={stage.name} value={stage.name}>
+                    {stage.name} ({stage.kind}, v{stage.version})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              disabled={!stageToAdd}
+              onClick={() => {
+                setStages(prev => [...prev, { stage: stageToAdd, options: "" }]);
+                setStageToAdd("");
+              }}
+            >
+              <i className="fas fa-plus mr-2"></i>
+              Add
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              {pipeline?.isDefault ? "Using the default pipeline" : "Using a custom pipeline"}
+            </p>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => resetMutation.mutate()}
+                disabled={pipeline?.isDefault || resetMutation.isPending}
+              >
+                Reset to Default
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={stages.length === 0 || saveMutation.isPending}
+                className="bg-primary text-white hover:bg-blue-700"
+              >
+                <i className="fas fa-save mr-2"></i>
+                Save Pipeline
+              </Button>
+            </div>
+          </div>
+
+          <GazetteerManager projectId={selectedProjectId} />
+          <RelationPatternEditor projectId={selectedProjectId} />
+          <ReprocessPanel projectId={selectedProjectId} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useWebSocketEvent } from "@/hooks/use-websocket";
 import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface ProgressMonitorProps {
   projectId: string;
@@ -29,6 +32,29 @@ export default function ProgressMonitor({ projectId }: ProgressMonitorProps) {
     refetchInterval: 2000, // Refetch every 2 seconds
   });
 
+  const { toast } = useToast();
+
+  const crawlControlMutation = useMutation({
+    mutationFn: async (action: 'pause' | 'resume' | 'cancel' | 'recrawl' | 'reprocess') => {
+      const path = action === 'recrawl' ? 'recrawl'
+        : action === 'reprocess' ? 'archive/reprocess'
+        : `crawl/${action}`;
+      const response = await apiRequest("POST", `/api/projects/${projectId}/${path}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setProgress(prev => ({ ...prev, status: data.status }));
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Crawl Control Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Listen for real-time progress updates
   useWebSocketEvent('scraping_progress', (data) => {
     if (data.projectId === projectId) {
@@ -47,6 +73,12 @@ export default function ProgressMonitor({ projectId }: ProgressMonitorProps) {
     }
   }, [projectId]);
 
+  useWebSocketEvent('crawl_status', (data) => {
+    if (data.projectId === projectId) {
+      setProgress(prev => ({ ...prev, status: data.status }));
+    }
+  }, [projectId]);
+
   useWebSocketEvent('scraping_error', (data) => {
     if (data.projectId === projectId) {
       setProgress(prev => ({ ...prev, status: 'failed' }));
@@ -109,21 +141,85 @@ export default function ProgressMonitor({ projectId }: ProgressMonitorProps) {
         </div>
 
         {/* Status Indicator */}
-        <div className="pt-4 border-t border-gray-200">
+        <div className="pt-4 border-t border-gray-200 flex items-center justify-between">
           <div className="flex items-center space-x-2">
             <div className={`w-3 h-3 rounded-full ${
               progress.status === 'running' ? 'bg-green-500 animate-pulse' :
               progress.status === 'completed' ? 'bg-green-500' :
+              progress.status === 'paused' ? 'bg-yellow-500' :
               progress.status === 'failed' ? 'bg-red-500' :
               'bg-gray-400'
             }`}></div>
             <span className="text-sm font-medium text-gray-700 capitalize">
               {progress.status === 'running' ? 'Scraping in progress...' : 
                progress.status === 'completed' ? 'Scraping completed' :
+               progress.status === 'paused' ? 'Scraping paused' :
+               progress.status === 'cancelled' ? 'Scraping cancelled' :
                progress.status === 'failed' ? 'Scraping failed' :
                'Waiting to start'}
             </span>
           </div>
+
+          {/* Crawl Controls */}
+          <div className="flex items-center space-x-2">
+            {progress.status === 'running' && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={crawlControlMutation.isPending}
+                onClick={() => crawlControlMutation.mutate('pause')}
+              >
+                <i className="fas fa-pause mr-2"></i>
+                Pause
+              </Button>
+            )}
+            {progress.status === 'paused' && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={crawlControlMutation.isPending}
+                onClick={() => crawlControlMutation.mutate('resume')}
+              >
+                <i className="fas fa-play mr-2"></i>
+                Resume
+              </Button>
+            )}
+            {(progress.status === 'running' || progress.status === 'paused') && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={crawlControlMutation.isPending}
+                onClick={() => crawlControlMutation.mutate('cancel')}
+                className="text-red-500 hover:text-red-700"
+              >
+                <i className="fas fa-stop mr-2"></i>
+                Cancel
+              </Button>
+            )}
+            {['completed', 'cancelled', 'failed'].includes(progress.status) && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={crawlControlMutation.isPending}
+                onClick={() => crawlControlMutation.mutate('recrawl')}
+              >
+                <i className="fas fa-sync-alt mr-2"></i>
+                Recrawl
+              </Button>
+            )}
+            {['completed', 'cancelled', 'failed'].includes(progress.status) && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={crawlControlMutation.isPending}
+                onClick={() => crawlControlMutation.mutate('reprocess')}
+                title="Run the archived responses through extraction and NLP again, without refetching"
+              >
+                <i className="fas fa-archive mr-2"></i>
+                Reprocess from archive
+              </Button>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { RelationPattern } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface RelationPatternEditorProps {
+  projectId: string;
+}
+
+type Direction = "forward" | "reverse" | "symmetric";
+
+interface RelationMatch {
+  source: string;
+  target: string;
+  relationship: string;
+  sentence: string;
+  trigger: string;
+}
+
+interface RelationPreview {
+  scanned: number;
+  matchCount: number;
+  documents: Array<{ id: string; title: string; url: string; matches: RelationMatch[] }>;
+}
+
+// Types and triggers are edited as text and split on save
+interface Draft {
+  type: string;
+  triggers: string;
+  sourceTypes: string;
+  targetTypes: string;
+  direction: Direction;
+}
+
+const EMPTY_DRAFT: Draft = { type: "", triggers: "", sourceTypes: "", targetTypes: "", direction: "forward" };
+
+const DIRECTIONS: Array<{ value: Direction; label: string }> = [
+  { value: "forward", label: "Source before the trigger (X supplies Y)" },
+  { value: "reverse", label: "Source after the trigger (X was acquired by Y)" },
+  { value: "symmetric", label: "Either way (X competes with Y)" },
+];
+
+const PREVIEW_DELAY = 500; // ms after the last edit
+
+const splitList = (value: string, separator: RegExp) => value.split(separator).map(item => item.trim()).filter(Boolean);
+
+const toConfig = (draft: Draft) => ({
+  type: draft.type.trim(),
+  triggers: splitList(draft.triggers, /\n/),
+  sourceTypes: splitList(draft.sourceTypes, /,/),
+  targetTypes: splitList(draft.targetTypes, /,/),
+  direction: draft.direction,
+});
+
+const toDraft = (pattern: RelationPattern): Draft => ({
+  type: pattern.type,
+  triggers: (pattern.triggers as string[]).join("\n"),
+  sourceTypes: (pattern.sourceTypes as string[]).join(", "),
+  targetTypes: (pattern.targetTypes as string[]).join(", "),
+  direction: pattern.direction as Direction,
+});
+
+const describeTypes = (types: unknown) => (types as string[]).length > 0 ? (types as string[]).join(" | ") : "any";
+
+export default function RelationPatternEditor({ projectId }: RelationPatternEditorProps) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: patterns = [] } = useQuery<RelationPattern[]>({
+    queryKey: ["/api/projects", projectId, "relation-patterns"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "relation-patterns"] });
+  };
+
+  const reset = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Relation Pattern Not Saved",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editingId
+        ? await apiRequest("PUT", `/api/relation-patterns/${editingId}`, toConfig(draft))
+        : await apiRequest("POST", `/api/projects/${projectId}/relation-patterns`, toConfig(draft));
+      return response.json();
+    },
+    onSuccess: (pattern: RelationPattern) => {
+      toast({
+        title: "Relation Pattern Saved",
+        description: `${pattern.type} applies to documents processed from now on; reprocess to apply it to stored ones`,
+      });
+      reset();
+      refresh();
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/relation-patterns/${id}`, { enabled });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/relation-patterns/${id}`);
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      if (id === editingId) reset();
+      refresh();
+    },
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (config: ReturnType<typeof toConfig>) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/relation-patterns/preview`, { pattern: config });
+      return response.json() as Promise<RelationPreview>;
+    },
+  });
+  const { mutate: runPreview, reset: clearPreview } = previewMutation;
+
+  // The preview follows the draft as it is typed
+  const config = toConfig(draft);
+  const complete = config.type.length > 0 && config.triggers.length > 0;
+  const configKey = JSON.stringify(config);
+  useEffect(() => {
+    if (!complete) {
+      clearPreview();
+      return;
+    }
+    const timer = setTimeout(() => runPreview(JSON.parse(configKey)), PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [configKey, complete, runPreview, clearPreview]);
+
+  const preview = previewMutation.data;
+
+  return (
+    <div className="border-t border-gray-200 pt-6 space-y-4">
+      <div>
+        <h4 className="font-medium text-secondary">Relation Patterns</h4>
+        <p className="text-xs text-gray-500 mt-1">
+          Relation types of this project, found by pattern-relations between two recognized entities of a sentence
+          when a trigger appears between them. In triggers, * stands for any one word, a trailing * for any
+          ending (suppl*) and | separates alternatives (buys|bought).
+        </p>
+      </div>
+
+      {patterns.length > 0 && (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {patterns.map(pattern => (
+            <div key={pattern.id} className="p-3 flex items-center justify-between">
+              <div className="space-y-1">
+                <p className="text-sm">
+                  <span className="font-medium text-secondary">{pattern.type}</span>
+                  <span className="text-gray-500 ml-2">
+                    {describeTypes(pattern.sourceTypes)}
+                    <i className={`fas ${pattern.direction === 'symmetric' ? 'fa-arrows-alt-h' : 'fa-long-arrow-alt-right'} mx-2`}></i>
+                    {describeTypes(pattern.targetTypes)}
+                  </span>
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {(pattern.triggers as string[]).map(trigger => (
+                    <Badge key={trigger} variant="secondary" className="font-mono">{trigger}</Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center space-x-3 shrink-0">
+                <Switch
+                  checked={pattern.enabled}
+                  onCheckedChange={(enabled) => toggleMutation.mutate({ id: pattern.id, enabled })}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setDraft(toDraft(pattern));
+                    setEditingId(pattern.id);
+                  }}
+                >
+                  <i className="fas fa-edit"></i>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(pattern.id)}
+                  disabled={deleteMutation.isPending}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  <i className="fas fa-trash"></i>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={draft.type}
+              onChange={(e) => setDraft(prev => ({ ...prev, type: e.target.value }))}
+              placeholder="Relation type, e.g. SUPPLIES"
+              className="font-mono"
+            />
+            <Select value={draft.direction} onValueChange={(direction) => setDraft(prev => ({ ...prev, direction: direction as Direction }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DIRECTIONS.map(direction => (
+                  <SelectItem key={direction.value} value={direction.value}>{direction.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={draft.sourceTypes}
+              onChange={(e) => setDraft(prev => ({ ...prev, sourceTypes: e.target.value }))}
+              placeholder="Source types, e.g. ORG (any if empty)"
+            />
+            <Input
+              value={draft.targetTypes}
+              onChange={(e) => setDraft(prev => ({ ...prev, targetTypes: e.target.value }))}
+              placeholder="Target types, e.g. ORG, GPE"
+            />
+          </div>
+          <Textarea
+            value={draft.triggers}
+            onChange={(e) => setDraft(prev => ({ ...prev, triggers: e.target.value }))}
+            placeholder={"One trigger per line, e.g.\nsuppl*\nships|delivers * to"}
+            rows={4}
+            className="font-mono"
+          />
+          <div className="flex justify-end space-x-2">
+            {editingId && (
+              <Button variant="outline" onClick={reset}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!complete || saveMutation.isPending}
+              className="bg-primary text-white hover:bg-blue-700"
+            >
+              <i className="fas fa-save mr-2"></i>
+              {editingId ? "Update Pattern" : "Add Pattern"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Live preview of the draft against stored documents */}
+        <div className="border border-gray-200 rounded-lg p-3 max-h-80 overflow-y-auto">
+          <p className="text-xs font-medium text-gray-500 mb-2">
+            Preview
+            {previewMutation.isPending && <i className="fas fa-spinner fa-spin ml-2"></i>}
+          </p>
+          {!complete ? (
+            <p className="text-sm text-gray-500">Enter a relation type and a trigger to try them on this project's documents</p>
+          ) : previewMutation.error ? (
+            <p className="text-sm text-red-600">{previewMutation.error.message}</p>
+          ) : preview && preview.matchCount === 0 ? (
+            <p className="text-sm text-gray-500">
+              No matches in {preview.scanned} documents containing a trigger word. Documents are matched with the
+              entities they were last processed with.
+            </p>
+          ) : preview && (
+            <div className="space-y-3">
+              <p className="text-xs text-gray-500">{preview.matchCount} matches in {preview.scanned} documents</p>
+              {preview.documents.map(document => (
+                <div key={document.id}>
+                  <p className="text-xs font-medium text-secondary truncate" title={document.url}>{document.title}</p>
+                  {document.matches.map((match, index) => (
+                    <div key={index} className="mt-1 text-sm">
+                      <p>
+                        <span className="font-medium">{match.source}</span>
+                        <span className="mx-2 font-mono text-xs text-primary">{match.relationship}</span>
+                        <span className="font-medium">{match.target}</span>
+                      </p>
+                      <p className="text-xs text-gray-500">{match.sentence}</p>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ReprocessPanelProps {
+  projectId: string;
+}
+
+interface ReprocessRun {
+  id: string;
+  status: string;
+  total: number;
+  processed: number;
+  summary: {
+    documents: number;
+    entities: { before: number; after: number };
+    relationships: { before: number; after: number };
+  } | null;
+  error: string | null;
+  comparable: boolean;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+interface EntityChange {
+  name: string;
+  type: string;
+  before: number;
+  after: number;
+}
+
+interface RelationshipChange {
+  source: string;
+  target: string;
+  relationship: string;
+  count: number;
+}
+
+interface Comparison {
+  entities: { added: EntityChange[]; removed: EntityChange[]; changed: EntityChange[] };
+  relationships: { added: RelationshipChange[]; removed: RelationshipChange[] };
+}
+
+const SHOWN_CHANGES = 10;
+
+export default function ReprocessPanel({ projectId }: ReprocessPanelProps) {
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const { toast } = useToast();
+
+  const { data: runs = [] } = useQuery<ReprocessRun[]>({
+    queryKey: ["/api/projects", projectId, "reprocess"],
+  });
+  const latest = runs[0];
+  const running = latest?.status === 'running';
+
+  const { data: comparison } = useQuery<Comparison>({
+    queryKey: ["/api/reprocess", latest?.id, "comparison"],
+    enabled: !!latest?.comparable,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "reprocess"] });
+  };
+
+  useWebSocketEvent('reprocess_progress', (data) => {
+    if (data.projectId === projectId) setProgress({ processed: data.processed, total: data.total });
+  }, [projectId]);
+
+  useWebSocketEvent('reprocess_completed', (data) => {
+    if (data.projectId !== projectId) return;
+    setProgress(null);
+    // Graph, stats and documents all show the new extractions
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+  }, [projectId]);
+
+  useWebSocketEvent('reprocess_error', (data) => {
+    if (data.projectId !== projectId) return;
+    setProgress(null);
+    refresh();
+  }, [projectId]);
+
+  const reprocessMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/reprocess`);
+      return response.json();
+    },
+    onSuccess: (run: ReprocessRun) => {
+      setProgress({ processed: 0, total: run.total });
+      refresh();
+      toast({
+        title: "Reprocessing Started",
+        description: "The current entities stay in place until every document is done",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reprocessing Not Started",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = progress || (running ? { processed: latest.processed, total: latest.total } : null);
+
+  const renderEntities = (label: string, changes: EntityChange[], className: string) => changes.length > 0 && (
+    <div>
+      <p className="text-xs font-medium text-gray-700 mb-1">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {changes.slice(0, SHOWN_CHANGES).map(change => (
+          <Badge key={`${change.type}-${change.name}`} variant="outline" className={className}>
+            {change.name}
+            <span className="ml-1 text-gray-400">
+              {change.before > 0 && change.after > 0 ? `${change.before}→${change.after}` : change.type}
+            </span>
+          </Badge>
+        ))}
+        {changes.length > SHOWN_CHANGES && (
+          <span className="text-xs text-gray-500">+{changes.length - SHOWN_CHANGES} more</span>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="border-t border-gray-200 pt-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium text-secondary">Re-run on Stored Documents</h4>
+          <p className="text-xs text-gray-500 mt-1">
+            Extracts entities and relationships again with the saved pipeline and swaps them in once all documents are done.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => reprocessMutation.mutate()}
+          disabled={!!current || reprocessMutation.isPending}
+        >
+          <i className="fas fa-redo mr-2"></i>
+          Reprocess
+        </Button>
+      </div>
+
+      {current && (
+        <div className="space-y-1">
+          <Progress value={current.total > 0 ? (current.processed / current.total) * 100 : 0} className="h-2" />
+          <p className="text-xs text-gray-500">{current.processed} of {current.total} documents</p>
+        </div>
+      )}
+
+      {latest?.status === 'failed' && (
+        <p className="text-sm text-red-600">Last run failed: {latest.error}. The previous extractions were kept.</p>
+      )}
+
+      {latest?.status === 'completed' && latest.summary && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            Last run over {latest.summary.documents} documents:
+            entities {latest.summary.entities.before} → {latest.summary.entities.after},
+            relationships {latest.summary.relationships.before} → {latest.summary.relationships.after}
+          </p>
+          {comparison && (
+            <>
+              {renderEntities("New entities", comparison.entities.added, "border-green-300")}
+              {renderEntities("Removed entities", comparison.entities.removed, "border-red-300")}
+              {renderEntities("Changed frequency", comparison.entities.changed, "border-yellow-300")}
+              <p className="text-xs text-gray-500">
+                {comparison.relationships.added.length} new and {comparison.relationships.removed.length} removed relationships
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CrawlSchedule, Project } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocketEvent } from "@/hooks/use-websocket";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ScheduleEditorProps {
+  projectId: string | null;
+}
+
+interface ScheduleRun {
+  id: string;
+  status: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  stopReason: string | null;
+  stats: { processed?: number; successful?: number; failed?: number; blocked?: number };
+  changes: { added: number; changed: number; removed: number } | null;
+}
+
+// Common schedules; anything else can be typed as a cron expression
+const PRESETS = [
+  { label: "Nightly at 2:00", cron: "0 2 * * *" },
+  { label: "Every morning at 6:00", cron: "0 6 * * *" },
+  { label: "Weekdays at 7:00", cron: "0 7 * * 1-5" },
+  { label: "Weekly on Monday at 6:00", cron: "0 6 * * mon" },
+  { label: "Every 6 hours", cron: "0 */6 * * *" },
+  { label: "First of the month", cron: "0 3 1 * *" },
+];
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function formatDuration(start: string | null, end: string | null) {
+  if (!start || !end) return "—";
+  const seconds = Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function ScheduleRuns({ scheduleId }: { scheduleId: string }) {
+  const { data: runs = [] } = useQuery<ScheduleRun[]>({
+    queryKey: ["/api/schedules", scheduleId, "runs"],
+    refetchInterval: 10000,
+  });
+
+  if (runs.length === 0) {
+    return <p className="text-sm text-gray-500">No runs yet</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200">
+          <th className="text-left py-2 font-medium text-gray-500">Started</th>
+          <th className="text-left py-2 font-medium text-gray-500">Duration</th>
+          <th className="text-left py-2 font-medium text-gray-500">Status</th>
+          <th className="text-right py-2 font-medium text-gray-500">Pages</th>
+          <th className="text-right py-2 font-medium text-gray-500">Failures</th>
+          <th className="text-right py-2 font-medium text-gray-500">Changes</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {runs.map(run => (
+          <tr key={run.id}>
+            <td className="py-2 text-gray-700">{formatDate(run.startedAt)}</td>
+            <td className="py-2 text-gray-600">{formatDuration(run.startedAt, run.finishedAt)}</td>
+            <td className="py-2">
+              <Badge variant={run.status === 'failed' ? 'destructive' : 'secondary'} className="capitalize">
+                {run.status}
+              </Badge>
+              {run.stopReason && run.stopReason !== 'completed' && (
+                <span className="ml-2 text-xs text-gray-500">{run.stopReason.replace('_', ' ')}</span>
+              )}
+            </td>
+            <td className="py-2 text-right text-gray-600">{run.stats.successful ?? 0}</td>
+            <td className="py-2 text-right text-gray-600">{run.stats.failed ?? 0}</td>
+            <td className="py-2 text-right text-gray-600">
+              {run.changes ? `+${run.changes.added} ~${run.changes.changed} -${run.changes.removed}` : "—"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ScheduleEditor({ projectId }: ScheduleEditorProps) {
+  const [selectedProjectId, setSelectedProjectId] = useState<string>(projectId || "");
+  const [cron, setCron] = useState(PRESETS[0].cron);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (projectId) setSelectedProjectId(projectId);
+  }, [projectId]);
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+  const crawlProjects = projects.filter(project => project.sourceType !== 'feed');
+
+  const { data: schedules = [] } = useQuery<CrawlSchedule[]>({
+    queryKey: ["/api/projects", selectedProjectId, "schedules"],
+    enabled: !!selectedProjectId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", selectedProjectId, "schedules"] });
+  };
+
+  useWebSocketEvent('schedule_triggered', (data) => {
+    if (data.projectId === selectedProjectId) {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules", data.scheduleId, "runs"] });
+    }
+  }, [selectedProjectId]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Schedule Not Saved",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${selectedProjectId}/schedules`, { cron: cron.trim() });
+      return response.json();
+    },
+    onSuccess: (schedule: CrawlSchedule) => {
+      toast({
+        title: "Schedule Added",
+        description: `Next crawl ${formatDate(schedule.nextRunAt)}`,
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/schedules/${id}`, { enabled });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/schedules/${id}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-secondary">Scheduled Recrawls</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Recrawls run on the server with the settings of the project's last crawl. Times are in server time.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Project</label>
+        <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a project" />
+          </SelectTrigger>
+          <SelectContent>
+            {crawlProjects.map(project => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selectedProjectId && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Preset</label>
+              <Select value={PRESETS.some(preset => preset.cron === cron) ? cron : "custom"} onValueChange={(value) => value !== "custom" && setCron(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRESETS.map(preset => (
+                    <SelectItem key={preset.cron} value={preset.cron}>{preset.label}</SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Cron Expression</label>
+              <div className="flex space-x-2">
+                <Input
+                  value={cron}
+                  onChange={(e) => setCron(e.target.value)}
+                  placeholder="minute hour day month weekday"
+                  className="font-mono"
+                />
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!cron.trim() || createMutation.isPending}
+                  className="bg-primary text-white hover:bg-blue-700"
+                >
+                  <i className="fas fa-plus mr-2"></i>
+                  Add
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {schedules.length === 0 ? (
+            <p className="text-sm text-gray-500">This project has no schedules</p>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {schedules.map(schedule => (
+                <div key={schedule.id} className="p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-mono text-sm text-secondary">{schedule.cron}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {schedule.enabled ? `Next run ${formatDate(schedule.nextRunAt)}` : "Paused"}
+                        {schedule.lastRunAt && ` · Last run ${formatDate(schedule.lastRunAt)} (${schedule.lastResult})`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <Switch
+                        checked={schedule.enabled}
+                        onCheckedChange={(enabled) => updateMutation.mutate({ id: schedule.id, enabled })}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setExpandedId(expandedId === schedule.id ? null : schedule.id)}
+                      >
+                        <i className="fas fa-history mr-2"></i>
+                        History
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(schedule.id)}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        <i className="fas fa-trash"></i>
+                      </Button>
+                    </div>
+                  </div>
+                  {expandedId === schedule.id && <ScheduleRuns scheduleId={schedule.id} />}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
@@ -17,16 +18,91 @@ export default function ScraperForm({ onProjectStart }: ScraperFormProps) {
     maxDepth: 3,
     maxWorkers: 20,
     delay: 1000,
+    seedMode: "links",
+    queueOrder: "bfs",
+    fetcher: "http",
+    maxRetries: 3,
+    retryBaseDelay: 1000,
+    includePatterns: [] as string[],
+    excludePatterns: ["re:/(log-?in|log-?out|sign-?in|sign-?out)\\b"],
+    allowedQueryParams: [] as string[],
+    ignoredQueryParams: ["sort", "order", "orderby", "sessionid", "sid"],
+    contentSelectors: [] as string[],
+    archiveResponses: true,
     extractEntities: true,
     buildRelationships: true,
     sentimentAnalysis: false,
     topicModeling: false,
   });
 
+  // Edited as JSON; parsed when the crawl starts
+  const [extractionRules, setExtractionRules] = useState("");
+
+  // Stop conditions, blank for no limit
+  const [budget, setBudget] = useState({
+    maxPages: "",
+    maxMegabytes: "",
+    maxDuration: "",
+    maxConsecutiveErrors: "",
+    pathQuotas: "",
+  });
+
+  // Sent separately from the crawl settings; the server stores it encrypted
+  const [auth, setAuth] = useState({
+    mode: "none",
+    headers: "",
+    cookies: "",
+    username: "",
+    password: "",
+    loginUrl: "",
+    usernameField: "username",
+    passwordField: "password",
+    successText: "",
+  });
+
   const { toast } = useToast();
 
+  const buildAuth = () => {
+    const headers: Record<string, string> = {};
+    auth.headers.split('\n').forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator > 0) headers[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+    });
+
+    const hasAuth = auth.mode !== "none" || Object.keys(headers).length > 0 || auth.cookies.trim();
+    if (!hasAuth) return undefined;
+
+    return {
+      headers,
+      cookies: auth.cookies.trim() || undefined,
+      basic: auth.mode === "basic" ? { username: auth.username, password: auth.password } : undefined,
+      login: auth.mode === "form" ? {
+        url: auth.loginUrl,
+        fields: { [auth.usernameField]: auth.username, [auth.passwordField]: auth.password },
+        successText: auth.successText.trim() || undefined,
+      } : undefined,
+    };
+  };
+
+  const buildBudget = () => {
+    const limit = (value: string, scale = 1) => value.trim() ? Math.round(parseFloat(value) * scale) || undefined : undefined;
+    // One quota per line: a URL pattern followed by the page limit, e.g. "/blog/** 100"
+    const pathQuotas = budget.pathQuotas.split('\n')
+      .map(line => line.trim().match(/^(\S+)\s+(\d+)$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(match => ({ pattern: match[1], maxPages: parseInt(match[2]) }));
+
+    return {
+      maxPages: limit(budget.maxPages),
+      maxBytes: limit(budget.maxMegabytes, 1024 * 1024),
+      maxDuration: limit(budget.maxDuration),
+      maxConsecutiveErrors: limit(budget.maxConsecutiveErrors),
+      pathQuotas,
+    };
+  };
+
   const startScrapingMutation = useMutation({
-    mutationFn: async (scrapingConfig: typeof config) => {
+    mutationFn: async (scrapingConfig: typeof config & ReturnType<typeof buildBudget> & { auth?: ReturnType<typeof buildAuth>; extractionRules: unknown[] }) => {
       const response = await apiRequest("POST", "/api/scrape/start", scrapingConfig);
       return response.json();
     },
@@ -69,7 +145,33 @@ export default function ScraperForm({ onProjectStart }: ScraperFormProps) {
       return;
     }
 
-    startScrapingMutation.mutate(config);
+    let rules: unknown[] = [];
+    if (extractionRules.trim()) {
+      try {
+        rules = JSON.parse(extractionRules);
+        if (!Array.isArray(rules)) throw new Error("Expected a list of rules");
+      } catch (error) {
+        toast({
+          title: "Invalid Extraction Rules",
+          description: error instanceof Error ? error.message : "Rules must be a JSON list",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    // Drop blank entries left over from editing the rule lists
+    startScrapingMutation.mutate({
+      ...config,
+      includePatterns: config.includePatterns.map(p => p.trim()).filter(Boolean),
+      excludePatterns: config.excludePatterns.map(p => p.trim()).filter(Boolean),
+      allowedQueryParams: config.allowedQueryParams.filter(Boolean),
+      ignoredQueryParams: config.ignoredQueryParams.filter(Boolean),
+      contentSelectors: config.contentSelectors.map(s => s.trim()).filter(Boolean),
+      extractionRules: rules,
+      ...buildBudget(),
+      auth: buildAuth(),
+    });
   };
 
   return (
@@ -148,6 +250,319 @@ export default function ScraperForm({ onProjectStart }: ScraperFormProps) {
           </div>
         </div>
 
+        {/* Page Fetching */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Page Fetching</label>
+          <Select
+            value={config.fetcher}
+            onValueChange={(value) => setConfig(prev => ({ ...prev, fetcher: value }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="http">HTTP requests</SelectItem>
+              <SelectItem value="browser">Headless browser</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-gray-500 mt-2">
+            Use the headless browser for sites that build their pages with JavaScript. It is slower and needs Chromium on the server.
+          </p>
+        </div>
+
+        {/* Crawl Budget */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Crawl Budget</label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Input
+              type="number"
+              min="1"
+              placeholder="Max pages"
+              value={budget.maxPages}
+              onChange={(e) => setBudget(prev => ({ ...prev, maxPages: e.target.value }))}
+            />
+            <Input
+              type="number"
+              min="1"
+              placeholder="Max MB downloaded"
+              value={budget.maxMegabytes}
+              onChange={(e) => setBudget(prev => ({ ...prev, maxMegabytes: e.target.value }))}
+            />
+            <Input
+              type="number"
+              min="1"
+              placeholder="Max minutes"
+              value={budget.maxDuration}
+              onChange={(e) => setBudget(prev => ({ ...prev, maxDuration: e.target.value }))}
+            />
+            <Input
+              type="number"
+              min="1"
+              placeholder="Max errors in a row"
+              value={budget.maxConsecutiveErrors}
+              onChange={(e) => setBudget(prev => ({ ...prev, maxConsecutiveErrors: e.target.value }))}
+            />
+          </div>
+          <Textarea
+            rows={2}
+            placeholder={"/blog/** 100\n/products/* 500"}
+            value={budget.pathQuotas}
+            onChange={(e) => setBudget(prev => ({ ...prev, pathQuotas: e.target.value }))}
+            className="font-mono text-sm mt-4"
+          />
+          <p className="text-sm text-gray-500 mt-2">
+            The crawl stops at the first limit it reaches; leave a field blank for no limit.
+            Path quotas cap the pages crawled under a URL pattern, one "pattern pages" pair per line.
+          </p>
+        </div>
+
+        {/* URL Rules */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">URL Rules</label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Textarea
+                rows={3}
+                placeholder={"/docs/**\n/blog/*"}
+                value={config.includePatterns.join('\n')}
+                onChange={(e) => setConfig(prev => ({ ...prev, includePatterns: e.target.value.split('\n') }))}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Only follow matching URLs (one per line, empty = all)</p>
+            </div>
+            <div>
+              <Textarea
+                rows={3}
+                placeholder={"/search*\nre:[?&]page=\\d+"}
+                value={config.excludePatterns.join('\n')}
+                onChange={(e) => setConfig(prev => ({ ...prev, excludePatterns: e.target.value.split('\n') }))}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">Never follow matching URLs</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div>
+              <Input
+                placeholder="Keep only these query params, e.g. id, page"
+                value={config.allowedQueryParams.join(', ')}
+                onChange={(e) => setConfig(prev => ({
+                  ...prev,
+                  allowedQueryParams: e.target.value.split(',').map(p => p.trim())
+                }))}
+              />
+            </div>
+            <div>
+              <Input
+                placeholder="Ignored query params, e.g. sort, order"
+                value={config.ignoredQueryParams.join(', ')}
+                onChange={(e) => setConfig(prev => ({
+                  ...prev,
+                  ignoredQueryParams: e.target.value.split(',').map(p => p.trim())
+                }))}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-500 mt-2">
+            Globs use * within a path segment and ** across segments; prefix with re: for a regular expression.
+            Fragments and tracking parameters are always stripped.
+          </p>
+        </div>
+
+        {/* Content Extraction */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Content Selectors</label>
+          <Textarea
+            rows={2}
+            placeholder={"#page-content\n.article-body"}
+            value={config.contentSelectors.join('\n')}
+            onChange={(e) => setConfig(prev => ({ ...prev, contentSelectors: e.target.value.split('\n') }))}
+            className="font-mono text-sm"
+          />
+          <p className="text-sm text-gray-500 mt-2">
+            CSS selectors for the main content, tried in order (one per line). Leave empty to detect it automatically.
+          </p>
+        </div>
+
+        {/* Structured Fields */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Extraction Rules</label>
+          <Textarea
+            rows={5}
+            placeholder={`[
+  { "name": "price", "selector": "[itemprop=price]", "type": "number" },
+  { "name": "sku", "selector": ".sku", "regex": "SKU:\\\\s*(\\\\S+)" },
+  { "name": "specs", "selector": "table.specs tr", "fields": [
+    { "name": "label", "selector": "th" }, { "name": "value", "selector": "td" } ] }
+]`}
+            value={extractionRules}
+            onChange={(e) => setExtractionRules(e.target.value)}
+            className="font-mono text-sm"
+          />
+          <p className="text-sm text-gray-500 mt-2">
+            Each rule has a name and a CSS selector (or "selectorType": "xpath"), plus optional attribute ("html" for markup),
+            regex (first capture group is kept), type (string, number, integer, boolean, date, url) and multiple for lists.
+          </p>
+        </div>
+
+        {/* Authentication */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Authentication</label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              value={auth.mode}
+              onValueChange={(value) => setAuth(prev => ({ ...prev, mode: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No login</SelectItem>
+                <SelectItem value="basic">HTTP basic auth</SelectItem>
+                <SelectItem value="form">Login form</SelectItem>
+              </SelectContent>
+            </Select>
+            {auth.mode !== "none" && (
+              <>
+                <Input
+                  placeholder="Username"
+                  autoComplete="off"
+                  value={auth.username}
+                  onChange={(e) => setAuth(prev => ({ ...prev, username: e.target.value }))}
+                />
+                <Input
+                  type="password"
+                  placeholder="Password"
+                  autoComplete="new-password"
+                  value={auth.password}
+                  onChange={(e) => setAuth(prev => ({ ...prev, password: e.target.value }))}
+                />
+              </>
+            )}
+          </div>
+
+          {auth.mode === "form" && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <Input
+                type="url"
+                placeholder="Login page URL"
+                value={auth.loginUrl}
+                onChange={(e) => setAuth(prev => ({ ...prev, loginUrl: e.target.value }))}
+              />
+              <Input
+                placeholder="Text shown after login, e.g. Sign out"
+                value={auth.successText}
+                onChange={(e) => setAuth(prev => ({ ...prev, successText: e.target.value }))}
+              />
+              <Input
+                placeholder="Username field name"
+                value={auth.usernameField}
+                onChange={(e) => setAuth(prev => ({ ...prev, usernameField: e.target.value }))}
+                className="font-mono text-sm"
+              />
+              <Input
+                placeholder="Password field name"
+                value={auth.passwordField}
+                onChange={(e) => setAuth(prev => ({ ...prev, passwordField: e.target.value }))}
+                className="font-mono text-sm"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <Textarea
+              rows={2}
+              placeholder={"Authorization: Bearer ...\nX-Api-Key: ..."}
+              value={auth.headers}
+              onChange={(e) => setAuth(prev => ({ ...prev, headers: e.target.value }))}
+              className="font-mono text-sm"
+            />
+            <Textarea
+              rows={2}
+              placeholder="Cookie header, e.g. session=abc123; theme=dark"
+              value={auth.cookies}
+              onChange={(e) => setAuth(prev => ({ ...prev, cookies: e.target.value }))}
+              className="font-mono text-sm"
+            />
+          </div>
+          <p className="text-sm text-gray-500 mt-2">
+            Extra headers and credentials are only sent to the target site and are stored encrypted.
+            Cookies set by the site are kept for the whole crawl.
+          </p>
+        </div>
+
+        {/* Retry Policy */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Retries</label>
+            <Input
+              type="number"
+              min="0"
+              max="10"
+              value={config.maxRetries}
+              onChange={(e) => setConfig(prev => ({ ...prev, maxRetries: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Retry Backoff (ms)</label>
+            <Input
+              type="number"
+              min="100"
+              max="60000"
+              step="100"
+              value={config.retryBaseDelay}
+              onChange={(e) => setConfig(prev => ({ ...prev, retryBaseDelay: parseInt(e.target.value) || 1000 }))}
+            />
+            <p className="text-sm text-gray-500 mt-2">Doubled on each retry; a server's Retry-After takes precedence</p>
+          </div>
+        </div>
+
+        {/* Crawl Seeding and Ordering */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Seed URLs From</label>
+            <Select 
+              value={config.seedMode} 
+              onValueChange={(value) => setConfig(prev => ({ ...prev, seedMode: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="links">Home page links</SelectItem>
+                <SelectItem value="sitemap">Sitemap (sitemap.xml)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500 mt-2">Sitemaps also find pages that are never linked from the home page</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Crawl Order</label>
+            <Select 
+              value={config.queueOrder} 
+              onValueChange={(value) => setConfig(prev => ({ ...prev, queueOrder: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bfs">Breadth-first (by depth)</SelectItem>
+                <SelectItem value="priority">Sitemap priority</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500 mt-2">Delay is applied per host across all workers</p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            checked={config.archiveResponses}
+            onCheckedChange={(checked) => setConfig(prev => ({ ...prev, archiveResponses: !!checked }))}
+          />
+          <span className="text-sm text-gray-700">Archive raw responses (WARC) for reprocessing without refetching</span>
+        </div>
+
         {/* NLP Processing Options */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">NLP Processing</label>
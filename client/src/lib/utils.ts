@@ -5,3 +5,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" })
+
+// "de" -> "German"; documents whose language could not be detected are "unknown"
+export function languageName(code: string) {
+  if (code === "unknown") return "Unknown"
+  try {
+    return languageNames.of(code) || code
+  } catch {
+    return code
+  }
+}
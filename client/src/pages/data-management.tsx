@@ -1,15 +1,66 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { languageName } from "@/lib/utils";
+
+const failureLabels: Record<string, string> = {
+  dns: 'DNS failure',
+  timeout: 'Timeout',
+  network: 'Network error',
+  http_4xx: 'Client error (4xx)',
+  http_5xx: 'Server error (5xx)',
+  parse: 'Parse error',
+};
+
+type FieldOperator = "contains" | "eq" | "gt" | "lt";
+
+// Lists match when any element does; gt and lt compare numbers or dates
+function matchesField(value: unknown, operator: FieldOperator, expected: string): boolean {
+  const values = Array.isArray(value) ? value : [value];
+  return values.some(item => {
+    if (item === null || item === undefined || typeof item === "object") return false;
+    switch (operator) {
+      case "eq":
+        return String(item).toLowerCase() === expected.toLowerCase();
+      case "contains":
+        return String(item).toLowerCase().includes(expected.toLowerCase());
+      case "gt":
+      case "lt": {
+        const left = typeof item === "number" ? item : Date.parse(String(item));
+        const right = typeof item === "number" ? parseFloat(expected) : Date.parse(expected);
+        if (isNaN(left) || isNaN(right)) return false;
+        return operator === "gt" ? left > right : left < right;
+      }
+    }
+  });
+}
+
+function formatField(value: unknown): string {
+  if (Array.isArray(value)) return value.map(item => typeof item === "object" ? JSON.stringify(item) : String(item)).join(", ");
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+}
+
+interface DuplicateCluster {
+  canonical: { id: string; title: string; url: string };
+  duplicates: { id: string; title: string; url: string; similarity: number }[];
+}
 
 export default function DataManagement() {
   const [selectedProjectId, setSelectedProjectId] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
+  const [languageFilter, setLanguageFilter] = useState("all");
+  const [fieldFilter, setFieldFilter] = useState({ field: "", operator: "contains" as FieldOperator, value: "" });
+  const [uploadFiles, setUploadFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { toast } = useToast();
 
   const { data: projects, isLoading: projectsLoading } = useQuery({
     queryKey: ["/api/projects"],
@@ -25,6 +76,64 @@ export default function DataManagement() {
     enabled: !!selectedProjectId,
   });
 
+  // Extraction rule fields present on any document in the project
+  const fieldNames = useMemo(() => Array.from(new Set(
+    (Array.isArray(documents) ? documents : []).flatMap((doc: any) => Object.keys(doc.fields || {}))
+  )), [documents]);
+
+  const languages: Record<string, number> = (stats as any)?.languages || {};
+
+  const filteredDocuments = useMemo(() => {
+    let list: any[] = Array.isArray(documents) ? documents : [];
+    if (languageFilter !== "all") {
+      list = list.filter(doc => (doc.language || "unknown") === languageFilter);
+    }
+    if (!fieldFilter.field || !fieldFilter.value) return list;
+    return list.filter(doc => matchesField(doc.fields?.[fieldFilter.field], fieldFilter.operator, fieldFilter.value));
+  }, [documents, fieldFilter, languageFilter]);
+
+  const { data: duplicateClusters } = useQuery<DuplicateCluster[]>({
+    queryKey: ["/api/projects", selectedProjectId, "duplicates"],
+    enabled: !!selectedProjectId,
+  });
+
+  // Multipart upload, so this bypasses the JSON-only apiRequest helper
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+
+      const response = await fetch(`/api/projects/${selectedProjectId}/documents/upload`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const text = (await response.text()) || response.statusText;
+        throw new Error(`${response.status}: ${text}`);
+      }
+      return response.json();
+    },
+    onSuccess: (data: { documents: any[]; errors: { file: string; message: string }[] }) => {
+      toast({
+        title: "Upload Complete",
+        description: `${data.documents.length} document(s) added` +
+          (data.errors.length > 0 ? `; failed: ${data.errors.map(e => `${e.file} (${e.message})`).join(', ')}` : ''),
+        variant: data.documents.length === 0 ? "destructive" : "default",
+      });
+      setUploadFiles([]);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", selectedProjectId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSearch = () => {
     // The query will automatically refetch when searchQuery changes
   };
@@ -117,6 +226,82 @@ export default function DataManagement() {
             </div>
           )}
 
+          {/* Crawl Failures */}
+          {!statsLoading && Object.keys((stats as any)?.failureTypes || {}).length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-secondary mb-4">Crawl Failures</h3>
+              <div className="flex flex-wrap gap-3">
+                {Object.entries((stats as any).failureTypes as Record<string, number>).map(([kind, count]) => (
+                  <Badge key={kind} variant="outline" className="text-sm">
+                    {failureLabels[kind] || kind}: {count}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Near Duplicates */}
+          {duplicateClusters && duplicateClusters.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-secondary">Duplicate Clusters</h3>
+                <p className="text-sm text-gray-500">
+                  {(stats as any)?.duplicateDocuments || 0} near-duplicate documents excluded from entity counts
+                </p>
+              </div>
+              <div className="space-y-4 max-h-96 overflow-y-auto">
+                {duplicateClusters.map(cluster => (
+                  <div key={cluster.canonical.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <p className="font-medium text-secondary truncate">{cluster.canonical.title}</p>
+                        <p className="text-xs text-gray-500 font-mono truncate">{cluster.canonical.url}</p>
+                      </div>
+                      <Badge variant="secondary">
+                        {cluster.duplicates.length} duplicate{cluster.duplicates.length > 1 ? 's' : ''}
+                      </Badge>
+                    </div>
+                    <ul className="mt-3 space-y-1 pl-4 border-l-2 border-gray-100">
+                      {cluster.duplicates.map(duplicate => (
+                        <li key={duplicate.id} className="flex items-center justify-between text-xs">
+                          <span className="text-gray-600 font-mono truncate">{duplicate.url}</span>
+                          <span className="text-gray-500 ml-3 shrink-0">{Math.round(duplicate.similarity * 100)}% similar</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Document Upload */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-secondary">Upload Documents</h3>
+                <p className="text-sm text-gray-500 mt-1">PDF, DOCX, TXT and Markdown files up to 25 MB</p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept=".pdf,.docx,.txt,.md,.markdown"
+                  onChange={(e) => setUploadFiles(Array.from(e.target.files || []))}
+                  className="w-72"
+                />
+                <Button
+                  onClick={() => uploadMutation.mutate(uploadFiles)}
+                  disabled={uploadFiles.length === 0 || uploadMutation.isPending}
+                >
+                  <i className={`fas ${uploadMutation.isPending ? 'fa-spinner fa-spin' : 'fa-upload'} mr-2`}></i>
+                  {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+                </Button>
+              </div>
+            </div>
+          </div>
+
           {/* Data Table */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <div className="flex items-center justify-between mb-6">
@@ -140,6 +325,19 @@ export default function DataManagement() {
                     <SelectItem value="Politics">Politics</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select value={languageFilter} onValueChange={setLanguageFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="All Languages" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Languages</SelectItem>
+                    {Object.entries(languages).map(([language, count]) => (
+                      <SelectItem key={language} value={language}>
+                        {languageName(language)} ({count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button onClick={handleSearch}>
                   <i className="fas fa-filter mr-2"></i>
                   Filter
@@ -147,6 +345,47 @@ export default function DataManagement() {
               </div>
             </div>
 
+            {fieldNames.length > 0 && (
+              <div className="flex items-center space-x-3 mb-6">
+                <span className="text-sm font-medium text-gray-700">Field</span>
+                <Select
+                  value={fieldFilter.field || "none"}
+                  onValueChange={(value) => setFieldFilter(prev => ({ ...prev, field: value === "none" ? "" : value }))}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any field</SelectItem>
+                    {fieldNames.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={fieldFilter.operator}
+                  onValueChange={(value) => setFieldFilter(prev => ({ ...prev, operator: value as FieldOperator }))}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="contains">contains</SelectItem>
+                    <SelectItem value="eq">equals</SelectItem>
+                    <SelectItem value="gt">greater than</SelectItem>
+                    <SelectItem value="lt">less than</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Value"
+                  value={fieldFilter.value}
+                  onChange={(e) => setFieldFilter(prev => ({ ...prev, value: e.target.value }))}
+                  className="w-48"
+                  disabled={!fieldFilter.field}
+                />
+              </div>
+            )}
+
             {documentsLoading ? (
               <div className="flex items-center justify-center h-32">
                 <div className="animate-pulse text-gray-500">Loading documents...</div>
@@ -158,18 +397,27 @@ export default function DataManagement() {
                     <tr className="border-b border-gray-200">
                       <th className="text-left py-3 px-4 font-medium text-gray-500">Document</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-500">Category</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Language</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-500">Word Count</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-500">Entities</th>
+                      {fieldNames.length > 0 && (
+                        <th className="text-left py-3 px-4 font-medium text-gray-500">Fields</th>
+                      )}
                       <th className="text-left py-3 px-4 font-medium text-gray-500">Last Updated</th>
                       <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-100">
-                    {documents?.map((doc: any) => (
+                    {filteredDocuments.map((doc: any) => (
                       <tr key={doc.id} className="hover:bg-gray-50">
                         <td className="py-4 px-4">
                           <div>
-                            <p className="font-medium text-secondary truncate max-w-xs">{doc.title}</p>
+                            <p className="font-medium text-secondary truncate max-w-xs">
+                              {doc.title}
+                              {doc.canonicalId && (
+                                <Badge variant="outline" className="ml-2 text-xs">Duplicate</Badge>
+                              )}
+                            </p>
                             <p className="text-xs text-gray-500 font-mono truncate max-w-xs">{doc.url}</p>
                           </div>
                         </td>
@@ -178,10 +426,26 @@ export default function DataManagement() {
                             <Badge variant="secondary">{doc.category}</Badge>
                           )}
                         </td>
+                        <td className="py-4 px-4 text-gray-600">
+                          {doc.language ? languageName(doc.language) : "—"}
+                        </td>
                         <td className="py-4 px-4 text-gray-600">{doc.wordCount || 0}</td>
                         <td className="py-4 px-4 text-gray-600">
                           {Array.isArray(doc.entities) ? doc.entities.length : 0}
                         </td>
+                        {fieldNames.length > 0 && (
+                          <td className="py-4 px-4 text-gray-600">
+                            <div className="space-y-1 max-w-xs">
+                              {Object.entries(doc.fields || {})
+                                .filter(([, value]) => value !== null && !(Array.isArray(value) && value.length === 0))
+                                .map(([name, value]) => (
+                                  <p key={name} className="text-xs truncate" title={formatField(value)}>
+                                    <span className="font-mono text-gray-500">{name}:</span> {formatField(value)}
+                                  </p>
+                                ))}
+                            </div>
+                          </td>
+                        )}
                         <td className="py-4 px-4 text-gray-600">
                           {doc.createdAt ? new Date(doc.createdAt).toLocaleDateString() : 'N/A'}
                         </td>
@@ -203,7 +467,7 @@ export default function DataManagement() {
                   </tbody>
                 </table>
 
-                {!documents || documents.length === 0 ? (
+                {filteredDocuments.length === 0 ? (
                   <div className="text-center py-8">
                     <i className="fas fa-database text-4xl text-gray-300 mb-4"></i>
                     <p className="text-gray-500">No documents found</p>
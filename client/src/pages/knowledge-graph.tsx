@@ -3,15 +3,19 @@ import { useQuery } from "@tanstack/react-query";
 import GraphControls from "@/components/graph/graph-controls";
 import GraphVisualization from "@/components/graph/graph-visualization";
 import GraphStatistics from "@/components/graph/graph-statistics";
+import SiteStructureReport from "@/components/graph/site-structure-report";
+import EntityResolution from "@/components/graph/entity-resolution";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 export default function KnowledgeGraph() {
   const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [graphMode, setGraphMode] = useState<"entities" | "site">("entities");
   const [graphFilters, setGraphFilters] = useState({
     nodeTypes: [],
     relationshipTypes: [],
     minFrequency: 1,
     searchQuery: "",
+    languages: [] as string[],
   });
 
   const { data: projects, isLoading: projectsLoading } = useQuery({
@@ -23,6 +27,11 @@ export default function KnowledgeGraph() {
     enabled: !!selectedProjectId,
   });
 
+  const { data: siteGraph, isLoading: siteGraphLoading } = useQuery({
+    queryKey: ["/api/projects", selectedProjectId, "sitegraph"],
+    enabled: !!selectedProjectId && graphMode === "site",
+  });
+
   const { data: filteredGraphData, refetch: refetchFiltered } = useQuery({
     queryKey: ["/api/projects", selectedProjectId, "graph", "filtered"],
     enabled: false,
@@ -61,6 +70,16 @@ export default function KnowledgeGraph() {
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold text-secondary">Select Project</h3>
+          <div className="flex items-center space-x-3">
+          <Select value={graphMode} onValueChange={(value) => setGraphMode(value as "entities" | "site")}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="entities">Entity graph</SelectItem>
+              <SelectItem value="site">Site link graph</SelectItem>
+            </SelectContent>
+          </Select>
           <div className="w-64">
             <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
               <SelectTrigger>
@@ -75,30 +94,53 @@ export default function KnowledgeGraph() {
               </SelectContent>
             </Select>
           </div>
+          </div>
         </div>
       </div>
 
-      {selectedProjectId && (
-        <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
-          {/* Graph Controls */}
-          <div className="xl:col-span-1 space-y-6">
-            <GraphControls
-              projectId={selectedProjectId}
-              filters={graphFilters}
-              onFiltersChange={handleFilterChange}
-            />
-            <GraphStatistics graphData={filteredGraphData || graphData} />
+      {selectedProjectId && graphMode === "site" && (
+        <>
+          <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+            <div className="xl:col-span-1 space-y-6">
+              <GraphStatistics graphData={siteGraph} />
+            </div>
+            <div className="xl:col-span-3">
+              <GraphVisualization
+                projectId={selectedProjectId}
+                graphData={siteGraph}
+                isLoading={siteGraphLoading}
+                title="Site Link Graph"
+              />
+            </div>
           </div>
+          <SiteStructureReport siteGraph={siteGraph} />
+        </>
+      )}
+
+      {selectedProjectId && graphMode === "entities" && (
+        <>
+          <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+            {/* Graph Controls */}
+            <div className="xl:col-span-1 space-y-6">
+              <GraphControls
+                projectId={selectedProjectId}
+                filters={graphFilters}
+                onFiltersChange={handleFilterChange}
+              />
+              <GraphStatistics graphData={filteredGraphData || graphData} />
+            </div>
 
-          {/* Graph Visualization */}
-          <div className="xl:col-span-3">
-            <GraphVisualization
-              projectId={selectedProjectId}
-              graphData={filteredGraphData || graphData}
-              isLoading={graphLoading}
-            />
+            {/* Graph Visualization */}
+            <div className="xl:col-span-3">
+              <GraphVisualization
+                projectId={selectedProjectId}
+                graphData={filteredGraphData || graphData}
+                isLoading={graphLoading}
+              />
+            </div>
           </div>
-        </div>
+          <EntityResolution projectId={selectedProjectId} />
+        </>
       )}
 
       {!selectedProjectId && (
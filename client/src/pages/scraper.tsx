@@ -1,16 +1,56 @@
 import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ScraperForm from "@/components/scraper/scraper-form";
+import FeedForm from "@/components/scraper/feed-form";
 import ProgressMonitor from "@/components/scraper/progress-monitor";
 import ActivityFeed from "@/components/scraper/activity-feed";
+import ScheduleEditor from "@/components/scraper/schedule-editor";
+import PipelineEditor from "@/components/scraper/pipeline-editor";
 
 export default function Scraper() {
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [source, setSource] = useState("crawl");
 
   return (
     <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
       <div className="xl:col-span-2 space-y-6">
-        <ScraperForm onProjectStart={setActiveProjectId} />
-        {activeProjectId && <ProgressMonitor projectId={activeProjectId} />}
+        <Tabs value={source} onValueChange={(value) => {
+          setSource(value);
+          // Schedules and pipelines are set up for the project that was just started
+          if (value !== "schedules" && value !== "pipeline") setActiveProjectId(null);
+        }}>
+          <TabsList>
+            <TabsTrigger value="crawl">
+              <i className="fas fa-spider mr-2"></i>
+              Website Crawl
+            </TabsTrigger>
+            <TabsTrigger value="feed">
+              <i className="fas fa-rss mr-2"></i>
+              Feeds
+            </TabsTrigger>
+            <TabsTrigger value="schedules">
+              <i className="fas fa-clock mr-2"></i>
+              Schedules
+            </TabsTrigger>
+            <TabsTrigger value="pipeline">
+              <i className="fas fa-project-diagram mr-2"></i>
+              NLP Pipeline
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="crawl" className="space-y-6">
+            <ScraperForm onProjectStart={setActiveProjectId} />
+            {activeProjectId && <ProgressMonitor projectId={activeProjectId} />}
+          </TabsContent>
+          <TabsContent value="feed">
+            <FeedForm onProjectStart={setActiveProjectId} />
+          </TabsContent>
+          <TabsContent value="schedules">
+            <ScheduleEditor projectId={activeProjectId} />
+          </TabsContent>
+          <TabsContent value="pipeline">
+            <PipelineEditor projectId={activeProjectId} />
+          </TabsContent>
+        </Tabs>
       </div>
       
       <div className="space-y-6">
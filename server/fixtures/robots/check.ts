@@ -0,0 +1,45 @@
+// Checks the robots.txt parser against the fixtures in this directory:
+// npm run check:robots
+import { readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { BOT_TOKEN, RobotsTxt } from "../../services/robots.js";
+
+interface RobotsCase {
+  fixture: string;
+  agent?: string; // defaults to our own token
+  allowed?: string[]; // paths
+  disallowed?: string[];
+  crawlDelay?: number;
+  sitemaps?: string[];
+}
+
+const directory = dirname(fileURLToPath(import.meta.url));
+const cases: RobotsCase[] = JSON.parse(readFileSync(join(directory, 'cases.json'), 'utf8'));
+const failures: string[] = [];
+
+cases.forEach(({ fixture, agent = BOT_TOKEN, allowed = [], disallowed = [], crawlDelay, sitemaps }) => {
+  const robots = RobotsTxt.parse(readFileSync(join(directory, fixture), 'utf8'));
+  const label = `${fixture} as ${agent}`;
+
+  [...allowed.map(path => ({ path, expected: true })), ...disallowed.map(path => ({ path, expected: false }))]
+    .forEach(({ path, expected }) => {
+      if (robots.isAllowed(`https://example.com${path}`, agent) !== expected) {
+        failures.push(`${label}: ${path} should be ${expected ? 'allowed' : 'disallowed'}`);
+      }
+    });
+
+  const delay = robots.getCrawlDelay(agent);
+  if (crawlDelay !== undefined && delay !== crawlDelay) {
+    failures.push(`${label}: crawl delay is ${delay}, expected ${crawlDelay}`);
+  }
+  if (sitemaps && JSON.stringify(robots.sitemaps) !== JSON.stringify(sitemaps)) {
+    failures.push(`${label}: sitemaps are ${JSON.stringify(robots.sitemaps)}, expected ${JSON.stringify(sitemaps)}`);
+  }
+});
+
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(failure));
+  process.exit(1);
+}
+console.log(`All ${cases.length} robots.txt cases pass`);
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -36,6 +37,13 @@ app.use((req, res, next) => {
   next();
 });
 
+// Changes still waiting for the next snapshot are saved before exiting;
+// deploys stop the server with SIGTERM
+process.once("exit", () => storage.flush());
+(["SIGINT", "SIGTERM"] as const).forEach(signal => {
+  process.once(signal, () => process.exit(0));
+});
+
 (async () => {
   const server = await registerRoutes(app);
 
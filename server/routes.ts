@@ -2,16 +2,49 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage.js";
 import { scraperService } from "./services/scraper.js";
-import { nlpService } from "./services/nlp.js";
+import { crawlJobService } from "./services/crawl-jobs.js";
+import { feedMonitorService } from "./services/feed-monitor.js";
+import { nearDuplicateService } from "./services/near-duplicates.js";
+import { crawlCredentialService } from "./services/crawl-credentials.js";
+import { siteGraphService } from "./services/site-graph.js";
+import { crawlScheduleService } from "./services/crawl-schedules.js";
+import { warcArchiveService } from "./services/warc-archive.js";
+import { documentIndexService } from "./services/document-index.js";
+import { languageService } from "./services/language.js";
+import { documentParserService, MAX_DOCUMENT_BYTES } from "./services/document-parser.js";
 import { graphBuilderService } from "./services/graph-builder.js";
 import { qaEngineService } from "./services/qa-engine.js";
+import { nlpService, DEFAULT_PIPELINE } from "./services/nlp.js";
+import { nlpReprocessService } from "./services/nlp-reprocess.js";
+import { entityResolutionService } from "./services/entity-resolution.js";
+import { gazetteerService } from "./services/gazetteers.js";
+import { relationPatternService } from "./services/relation-patterns.js";
 import { 
   scrapingConfigSchema, 
+  feedConfigSchema,
+  crawlAuthSchema,
+  crawlScheduleConfigSchema,
+  nlpPipelineSchema,
+  entityMergeSchema,
+  entityRejectSchema,
+  entitySplitSchema,
+  relationPatternConfigSchema,
+  relationPatternPreviewSchema,
   qaQuerySchema, 
   exportRequestSchema,
-  insertProjectSchema 
+  insertProjectSchema,
+  type GazetteerEntry
 } from "@shared/schema.js";
+import { ZodError } from "zod";
 import { WebSocketServer } from 'ws';
+import multer from "multer";
+import { createHash } from "crypto";
+
+// Uploaded files are parsed straight from memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DOCUMENT_BYTES, files: 20 },
+});
 
 // Helper function for CSV generation
 function generateCSV(documents: any[], exportRequest: any): string {
@@ -61,6 +94,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
+  // Plugin stages must be registered before resumed crawls process pages
+  await nlpService.loadPlugins();
+  crawlJobService.setBroadcast(broadcast);
+  await crawlJobService.resumeInterrupted();
+  feedMonitorService.setBroadcast(broadcast);
+  feedMonitorService.start();
+  crawlScheduleService.setBroadcast(broadcast);
+  crawlScheduleService.start();
+  nlpReprocessService.setBroadcast(broadcast);
+  await nlpReprocessService.failInterrupted();
+
   // Projects
   app.get('/api/projects', async (req, res) => {
     try {
@@ -116,6 +160,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/scrape/start', async (req, res) => {
     try {
       const config = scrapingConfigSchema.parse(req.body);
+      // Credentials are stored encrypted on their own, never in the crawl config
+      const auth = req.body.auth ? crawlAuthSchema.parse(req.body.auth) : undefined;
+      if (!scraperService.hasFetcher(config.fetcher)) {
+        return res.status(400).json({ message: `Unknown fetcher "${config.fetcher}", expected one of ${scraperService.getFetcherNames().join(', ')}` });
+      }
       const domain = scraperService.getDomain(config.targetUrl);
       
       // Create project
@@ -135,134 +184,574 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
 
+      if (auth) {
+        await crawlCredentialService.save(project.id, auth);
+      }
+
+      // Run the crawl in the background as a resumable job
+      await crawlJobService.start(project, config);
+
       res.json({ projectId: project.id, status: 'started' });
 
-      // Start scraping in background
-      (async () => {
-        try {
-          let processedCount = 0;
-          let successCount = 0;
-          let errorCount = 0;
-
-          for await (const scrapedPage of scraperService.scrapeWebsite(config, (progress) => {
-            processedCount = progress.totalProcessed;
-            if (progress.status === 'success') successCount++;
-            else errorCount++;
-
-            // Update project progress
-            storage.updateProject(project.id, {
-              processedUrls: processedCount,
-              successfulUrls: successCount,
-              failedUrls: errorCount
-            });
-
-            // Broadcast progress
-            broadcast({
-              type: 'scraping_progress',
-              projectId: project.id,
-              ...progress,
-              totalProcessed: processedCount,
-              successCount,
-              errorCount
-            });
-          })) {
-            // Save document
-            const document = await storage.createDocument({
-              projectId: project.id,
-              url: scrapedPage.url,
-              title: scrapedPage.title,
-              content: scrapedPage.content,
-              wordCount: scrapedPage.wordCount,
-              depth: scrapedPage.depth,
-              category: scrapedPage.category,
-              links: scrapedPage.links,
-              images: scrapedPage.images,
-              entities: [],
-              relationships: []
-            });
-
-            // Process with NLP if enabled
-            if (config.extractEntities || config.buildRelationships) {
-              const nlpResults = await nlpService.processDocument(document);
-              
-              // Save entities
-              for (const entityData of nlpResults.entities) {
-                const existingEntity = (await storage.getEntitiesByProject(project.id))
-                  .find(e => e.name === entityData.text && e.type === entityData.label);
-
-                if (existingEntity) {
-                  await storage.updateEntity(existingEntity.id, {
-                    frequency: (existingEntity.frequency || 1) + 1,
-                    documentIds: [...(existingEntity.documentIds as string[] || []), document.id]
-                  });
-                } else {
-                  await storage.createEntity({
-                    projectId: project.id,
-                    name: entityData.text,
-                    type: entityData.label,
-                    frequency: 1,
-                    documentIds: [document.id]
-                  });
-                }
-              }
-
-              // Save relationships
-              for (const relData of nlpResults.relationships) {
-                await storage.createRelationship({
-                  projectId: project.id,
-                  sourceEntity: relData.source,
-                  targetEntity: relData.target,
-                  relationshipType: relData.relationship,
-                  documentId: document.id
-                });
-              }
-
-              // Update document with extracted data
-              await storage.updateDocument(document.id, {
-                entities: nlpResults.entities,
-                relationships: nlpResults.relationships
-              });
-            }
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid scraping configuration' });
+      }
+      console.error('Failed to start scraping:', error);
+      res.status(500).json({ message: 'Failed to start scraping' });
+    }
+  });
 
-            broadcast({
-              type: 'document_processed',
-              projectId: project.id,
-              document: {
-                id: document.id,
-                title: document.title,
-                url: document.url,
-                entityCount: scrapedPage.wordCount
-              }
-            });
-          }
+  // Crawl credentials; responses only ever describe them, without secret values
+  app.get('/api/projects/:id/credentials', async (req, res) => {
+    try {
+      const summary = await crawlCredentialService.getSummary(req.params.id);
+      if (!summary) {
+        return res.status(404).json({ message: 'No credentials configured' });
+      }
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch credentials' });
+    }
+  });
 
-          // Mark project as completed
-          await storage.updateProject(project.id, { status: 'completed' });
-          broadcast({
-            type: 'scraping_completed',
-            projectId: project.id
-          });
+  app.put('/api/projects/:id/credentials', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
 
-        } catch (error) {
-          console.error('Scraping error:', error);
-          await storage.updateProject(project.id, { status: 'failed' });
-          broadcast({
-            type: 'scraping_error',
-            projectId: project.id,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
-      })();
+      const parsed = crawlAuthSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid credentials' });
+      }
+
+      const summary = await crawlCredentialService.save(project.id, parsed.data);
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to save credentials' });
+    }
+  });
+
+  app.delete('/api/projects/:id/credentials', async (req, res) => {
+    try {
+      const success = await crawlCredentialService.remove(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: 'No credentials configured' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete credentials' });
+    }
+  });
+
+  // Crawl schedules
+  app.get('/api/projects/:id/schedules', async (req, res) => {
+    try {
+      const schedules = await storage.getCrawlSchedulesByProject(req.params.id);
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch schedules' });
+    }
+  });
+
+  app.post('/api/projects/:id/schedules', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const parsed = crawlScheduleConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid schedule' });
+      }
+      const cronError = crawlScheduleService.validate(parsed.data.cron);
+      if (cronError) {
+        return res.status(400).json({ message: `Invalid cron expression: ${cronError}` });
+      }
+
+      const schedule = await crawlScheduleService.create(project.id, parsed.data);
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to create schedule' });
+    }
+  });
+
+  app.put('/api/schedules/:id', async (req, res) => {
+    try {
+      const parsed = crawlScheduleConfigSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid schedule' });
+      }
+      const cronError = parsed.data.cron !== undefined ? crawlScheduleService.validate(parsed.data.cron) : null;
+      if (cronError) {
+        return res.status(400).json({ message: `Invalid cron expression: ${cronError}` });
+      }
+
+      const schedule = await crawlScheduleService.update(req.params.id, parsed.data);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to update schedule' });
+    }
+  });
+
+  app.delete('/api/schedules/:id', async (req, res) => {
+    try {
+      const success = await storage.deleteCrawlSchedule(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete schedule' });
+    }
+  });
+
+  app.get('/api/schedules/:id/runs', async (req, res) => {
+    try {
+      const schedule = await storage.getCrawlSchedule(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+      res.json(await crawlScheduleService.getRuns(schedule.id));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch schedule runs' });
+    }
+  });
+
+  // NLP pipelines
+  app.get('/api/nlp/stages', async (req, res) => {
+    try {
+      const stages = nlpService.pipeline.list().map(({ name, kind, version, description }) => ({ name, kind, version, description }));
+      res.json({ stages, defaultPipeline: DEFAULT_PIPELINE });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch NLP stages' });
+    }
+  });
+
+  app.get('/api/projects/:id/pipeline', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      const configured = (project.nlpOptions as { pipeline?: unknown } | null)?.pipeline;
+      res.json({ stages: nlpService.getPipelineConfig(project), isDefault: !configured });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch pipeline' });
+    }
+  });
 
+  // Applies to documents processed from now on; stored entities keep the
+  // stages recorded on their documents
+  app.put('/api/projects/:id/pipeline', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const parsed = nlpPipelineSchema.safeParse(req.body.stages);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid pipeline' });
+      }
+      const pipelineError = nlpService.pipeline.validate(parsed.data);
+      if (pipelineError) {
+        return res.status(400).json({ message: pipelineError });
+      }
+
+      const updated = await storage.updateProject(project.id, {
+        nlpOptions: { ...(project.nlpOptions as Record<string, unknown> || {}), pipeline: parsed.data }
+      });
+      res.json({ stages: nlpService.getPipelineConfig(updated), isDefault: false });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to save pipeline' });
+    }
+  });
+
+  app.delete('/api/projects/:id/pipeline', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const { pipeline: _, ...nlpOptions } = (project.nlpOptions as Record<string, unknown>) || {};
+      await storage.updateProject(project.id, { nlpOptions });
+      res.json({ stages: DEFAULT_PIPELINE, isDefault: true });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to reset pipeline' });
+    }
+  });
+
+  // Runs the project's pipeline over its stored documents again
+  app.post('/api/projects/:id/reprocess', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      if (crawlJobService.isRunning(project.id)) {
+        return res.status(409).json({ message: 'Wait for the running crawl to finish' });
+      }
+
+      const run = await nlpReprocessService.start(project);
+      if (!run) {
+        return res.status(409).json({ message: 'Project is already being reprocessed' });
+      }
+      res.json(run);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to start reprocessing' });
+    }
+  });
+
+  app.get('/api/projects/:id/reprocess', async (req, res) => {
+    try {
+      const runs = await storage.getNlpRunsByProject(req.params.id);
+      // The replaced extractions can be large; they are served by the comparison
+      res.json(runs.map(({ previous, ...run }) => ({ ...run, comparable: !!previous })));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch reprocessing runs' });
+    }
+  });
+
+  app.get('/api/reprocess/:runId/comparison', async (req, res) => {
+    try {
+      const run = await storage.getNlpRun(req.params.runId);
+      if (!run) {
+        return res.status(404).json({ message: 'Reprocessing run not found' });
+      }
+
+      const comparison = await nlpReprocessService.compare(run);
+      if (!comparison) {
+        return res.status(404).json({ message: 'Only the latest completed run can be compared' });
+      }
+      res.json(comparison);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to compare reprocessing run' });
+    }
+  });
+
+  // Gazetteers: per-project dictionaries matched ahead of the NER patterns
+  app.get('/api/projects/:id/gazetteers', async (req, res) => {
+    try {
+      const gazetteers = await storage.getGazetteersByProject(req.params.id);
+      // Entries are only sent for a single gazetteer
+      res.json(gazetteers.map(({ entries, ...gazetteer }) => {
+        const list = entries as GazetteerEntry[];
+        return {
+          ...gazetteer,
+          entryCount: list.length,
+          types: Array.from(new Set(list.map(entry => entry.type))),
+        };
+      }));
     } catch (error) {
-      res.status(400).json({ message: 'Invalid scraping configuration' });
+      res.status(500).json({ message: 'Failed to fetch gazetteers' });
+    }
+  });
+
+  app.post('/api/projects/:id/gazetteers', (req, res, next) => {
+    upload.single('file')(req, res, (error) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+
+      const { entries, errors } = gazetteerService.parse(req.file.buffer.toString('utf8'));
+      if (entries.length === 0) {
+        return res.status(400).json({ message: errors[0]?.message || 'No entries found', errors });
+      }
+
+      const name = (typeof req.body.name === 'string' && req.body.name.trim()) || req.file.originalname.replace(/\.csv$/i, '');
+      const gazetteer = await gazetteerService.create(project.id, name, entries);
+      res.json({ gazetteer, errors });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to upload gazetteer' });
+    }
+  });
+
+  app.get('/api/gazetteers/:id', async (req, res) => {
+    try {
+      const gazetteer = await storage.getGazetteer(req.params.id);
+      if (!gazetteer) {
+        return res.status(404).json({ message: 'Gazetteer not found' });
+      }
+      res.json(gazetteer);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch gazetteer' });
+    }
+  });
+
+  app.delete('/api/gazetteers/:id', async (req, res) => {
+    try {
+      const gazetteer = await storage.getGazetteer(req.params.id);
+      if (!gazetteer) {
+        return res.status(404).json({ message: 'Gazetteer not found' });
+      }
+
+      await gazetteerService.delete(gazetteer);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete gazetteer' });
+    }
+  });
+
+  // Relation patterns: project-defined relation types, applied by pattern-relations
+  app.get('/api/projects/:id/relation-patterns', async (req, res) => {
+    try {
+      res.json(await storage.getRelationPatternsByProject(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch relation patterns' });
+    }
+  });
+
+  app.post('/api/projects/:id/relation-patterns', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const parsed = relationPatternConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid relation pattern' });
+      }
+      const patternError = relationPatternService.validate(parsed.data);
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+
+      res.json(await relationPatternService.create(project.id, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to create relation pattern' });
+    }
+  });
+
+  // Tries a pattern on stored documents without saving it
+  app.post('/api/projects/:id/relation-patterns/preview', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const parsed = relationPatternPreviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid relation pattern' });
+      }
+      const patternError = relationPatternService.validate(parsed.data.pattern);
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+
+      res.json(await relationPatternService.preview(project.id, parsed.data.pattern, parsed.data.documentIds));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to preview relation pattern' });
+    }
+  });
+
+  app.put('/api/relation-patterns/:id', async (req, res) => {
+    try {
+      const pattern = await storage.getRelationPattern(req.params.id);
+      if (!pattern) {
+        return res.status(404).json({ message: 'Relation pattern not found' });
+      }
+
+      const parsed = relationPatternConfigSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid relation pattern' });
+      }
+      const config = { ...relationPatternService.configOf(pattern), ...parsed.data };
+      const patternError = relationPatternService.validate(config);
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+
+      res.json(await relationPatternService.update(pattern, config));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to update relation pattern' });
+    }
+  });
+
+  app.delete('/api/relation-patterns/:id', async (req, res) => {
+    try {
+      const pattern = await storage.getRelationPattern(req.params.id);
+      if (!pattern) {
+        return res.status(404).json({ message: 'Relation pattern not found' });
+      }
+
+      await relationPatternService.delete(pattern);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete relation pattern' });
+    }
+  });
+
+  // Feed monitoring
+  app.post('/api/feeds/start', async (req, res) => {
+    try {
+      const config = feedConfigSchema.parse(req.body);
+      const project = await feedMonitorService.createProject(config);
+      res.json({ projectId: project.id, status: project.status });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid feed configuration' });
+      }
+      console.error('Failed to start feed monitoring:', error);
+      res.status(500).json({ message: 'Failed to start feed monitoring' });
+    }
+  });
+
+  app.get('/api/projects/:id/feeds', async (req, res) => {
+    try {
+      const feeds = await storage.getFeedsByProject(req.params.id);
+      // The seen item ids are bookkeeping, not something clients need
+      res.json(feeds.map(({ seenItems, ...feed }) => feed));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch feeds' });
+    }
+  });
+
+  app.post('/api/projects/:id/feeds/poll', async (req, res) => {
+    try {
+      const feeds = await storage.getFeedsByProject(req.params.id);
+      if (feeds.length === 0) {
+        return res.status(404).json({ message: 'Project has no feeds' });
+      }
+      const newItems = await feedMonitorService.pollProject(req.params.id);
+      res.json({ projectId: req.params.id, newItems });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to poll feeds' });
+    }
+  });
+
+  // Crawl control
+  app.post('/api/projects/:id/crawl/pause', async (req, res) => {
+    try {
+      const job = await crawlJobService.pause(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: 'No running crawl to pause' });
+      }
+      res.json({ projectId: req.params.id, status: job.status });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to pause crawl' });
+    }
+  });
+
+  app.post('/api/projects/:id/crawl/resume', async (req, res) => {
+    try {
+      if (nlpReprocessService.isRunning(req.params.id)) {
+        return res.status(409).json({ message: 'Wait for NLP reprocessing to finish' });
+      }
+      const job = await crawlJobService.resume(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: 'No paused crawl to resume' });
+      }
+      res.json({ projectId: req.params.id, status: job.status });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to resume crawl' });
+    }
+  });
+
+  app.post('/api/projects/:id/crawl/cancel', async (req, res) => {
+    try {
+      const job = await crawlJobService.cancel(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: 'No active crawl to cancel' });
+      }
+      res.json({ projectId: req.params.id, status: job.status });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to cancel crawl' });
+    }
+  });
+
+  app.post('/api/projects/:id/recrawl', async (req, res) => {
+    try {
+      if (nlpReprocessService.isRunning(req.params.id)) {
+        return res.status(409).json({ message: 'Wait for NLP reprocessing to finish' });
+      }
+      const job = await crawlJobService.recrawl(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: 'No finished crawl to recrawl' });
+      }
+      res.json({ projectId: req.params.id, status: job.status });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to start recrawl' });
+    }
+  });
+
+  // WARC archive of raw responses
+  app.get('/api/projects/:id/archive', async (req, res) => {
+    try {
+      const { url } = req.query;
+      if (url) {
+        return res.json(await storage.getArchiveRecordsByUrl(req.params.id, url as string));
+      }
+      res.json(await warcArchiveService.getFiles(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch archive' });
+    }
+  });
+
+  app.get('/api/projects/:id/archive/:crawlJobId/download', async (req, res) => {
+    try {
+      const stream = await warcArchiveService.openFile(req.params.id, req.params.crawlJobId);
+      if (!stream) {
+        return res.status(404).json({ message: 'No archive for this crawl' });
+      }
+
+      stream.on('error', () => {
+        if (!res.headersSent) res.status(404).json({ message: 'Archive file not found' });
+        else res.end();
+      });
+      stream.once('open', () => {
+        res.setHeader('Content-Type', 'application/warc');
+        res.setHeader('Content-Disposition', `attachment; filename="${req.params.crawlJobId}.warc.gz"`);
+        stream.pipe(res);
+      });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to download archive' });
+    }
+  });
+
+  app.post('/api/projects/:id/archive/reprocess', async (req, res) => {
+    try {
+      const records = await storage.getArchiveRecordsByProject(req.params.id);
+      if (records.length === 0) {
+        return res.status(404).json({ message: 'Project has no archived responses' });
+      }
+      if (nlpReprocessService.isRunning(req.params.id)) {
+        return res.status(409).json({ message: 'Wait for NLP reprocessing to finish' });
+      }
+      const job = await crawlJobService.replay(req.params.id);
+      if (!job) {
+        return res.status(409).json({ message: 'Wait for the current crawl to finish before reprocessing' });
+      }
+      res.json({ projectId: req.params.id, status: job.status });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to start reprocessing' });
     }
   });
 
   // Documents
   app.get('/api/projects/:id/documents', async (req, res) => {
     try {
-      const { search } = req.query;
+      const { search, language } = req.query;
       let documents;
       
       if (search) {
@@ -270,6 +759,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         documents = await storage.getDocumentsByProject(req.params.id);
       }
+
+      // "unknown" selects documents whose language could not be told
+      if (language) {
+        documents = documents.filter(doc => (doc.language || 'unknown') === language);
+      }
       
       res.json(documents);
     } catch (error) {
@@ -277,6 +771,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/projects/:id/duplicates', async (req, res) => {
+    try {
+      const clusters = await nearDuplicateService.getClusters(req.params.id);
+      res.json(clusters);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch duplicate clusters' });
+    }
+  });
+
   app.get('/api/documents/:id', async (req, res) => {
     try {
       const document = await storage.getDocument(req.params.id);
@@ -289,6 +792,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/projects/:id/documents/upload', (req, res, next) => {
+    upload.array('files')(req, res, (error) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: 'No files uploaded' });
+      }
+
+      const nlpOptions = (project.nlpOptions || {}) as { extractEntities?: boolean; buildRelationships?: boolean };
+      const documents: { id: string; title: string; url: string }[] = [];
+      const errors: { file: string; message: string }[] = [];
+
+      for (const file of files) {
+        const format = documentParserService.detectFormat(file.mimetype, file.originalname);
+        if (!format || format === 'html') {
+          errors.push({ file: file.originalname, message: 'Unsupported file type; upload PDF, DOCX, TXT or Markdown' });
+          continue;
+        }
+
+        try {
+          const parsed = await documentParserService.parse(file.buffer, format, file.originalname);
+          const url = `upload://${encodeURIComponent(file.originalname)}`;
+          const pageData = {
+            title: parsed.title,
+            content: parsed.content,
+            wordCount: parsed.content.split(' ').length,
+            depth: 0,
+            category: 'upload',
+            language: languageService.detect(parsed.content),
+            links: parsed.links,
+            images: [],
+            metadata: parsed.metadata,
+            contentHash: createHash('sha256').update(parsed.content).digest('hex'),
+            entities: [],
+            relationships: []
+          };
+
+          // Uploading a file again replaces the earlier version
+          const existing = await storage.getDocumentByUrl(project.id, url);
+          if (existing) {
+            await documentIndexService.unindex(project.id, existing);
+          }
+          const stored = existing
+            ? (await storage.updateDocument(existing.id, pageData)) || existing
+            : await storage.createDocument({ projectId: project.id, url, ...pageData });
+          const document = await nearDuplicateService.check(project.id, stored);
+
+          if (nlpOptions.extractEntities || nlpOptions.buildRelationships) {
+            await documentIndexService.index(project.id, document);
+          }
+
+          documents.push({ id: document.id, title: document.title, url: document.url });
+          broadcast({
+            type: 'document_processed',
+            projectId: project.id,
+            document: {
+              id: document.id,
+              title: document.title,
+              url: document.url,
+              entityCount: document.wordCount
+            }
+          });
+        } catch (error) {
+          errors.push({
+            file: file.originalname,
+            message: error instanceof Error ? error.message : 'Failed to parse file'
+          });
+        }
+      }
+
+      res.json({ documents, errors });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to upload documents' });
+    }
+  });
+
   // Knowledge Graph
   app.get('/api/projects/:id/graph', async (req, res) => {
     try {
@@ -303,6 +893,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Page link graph of the crawled site, as opposed to the entity graph above
+  app.get('/api/projects/:id/sitegraph', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const documents = await storage.getDocumentsByProject(project.id);
+      const failures = await storage.getCrawlFailuresByProject(project.id);
+      res.json(siteGraphService.build(project, documents, failures));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to build site graph' });
+    }
+  });
+
   app.post('/api/projects/:id/graph/filter', async (req, res) => {
     try {
       const entities = await storage.getEntitiesByProject(req.params.id);
@@ -337,6 +943,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Entity resolution
+  app.get('/api/projects/:id/entities', async (req, res) => {
+    try {
+      const entities = await storage.getEntitiesByProject(req.params.id);
+      res.json(entities.sort((a, b) => (b.frequency || 1) - (a.frequency || 1)));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch entities' });
+    }
+  });
+
+  app.get('/api/projects/:id/entities/clusters', async (req, res) => {
+    try {
+      res.json(await entityResolutionService.suggest(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to find entity clusters' });
+    }
+  });
+
+  // Merges everything that is safe to merge without review
+  app.post('/api/projects/:id/entities/resolve', async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      res.json({ merged: await entityResolutionService.resolve(project.id) });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to resolve entities' });
+    }
+  });
+
+  // Accepting a suggested cluster is a merge of its entities
+  app.post('/api/projects/:id/entities/merge', async (req, res) => {
+    try {
+      const parsed = entityMergeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid merge' });
+      }
+
+      const { entityIds, name, type } = parsed.data;
+      const entity = await entityResolutionService.merge(req.params.id, entityIds, { name, type });
+      if (!entity) {
+        return res.status(404).json({ message: 'Entity not found in this project' });
+      }
+      res.json(entity);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to merge entities' });
+    }
+  });
+
+  app.post('/api/projects/:id/entities/reject', async (req, res) => {
+    try {
+      const parsed = entityRejectSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid rejection' });
+      }
+
+      const rejection = await entityResolutionService.reject(req.params.id, parsed.data.entityIds);
+      if (!rejection) {
+        return res.status(404).json({ message: 'Entity not found in this project' });
+      }
+      res.json(rejection);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to reject entity cluster' });
+    }
+  });
+
+  app.post('/api/entities/:id/split', async (req, res) => {
+    try {
+      const parsed = entitySplitSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid split' });
+      }
+
+      const entity = await storage.getEntity(req.params.id);
+      if (!entity) {
+        return res.status(404).json({ message: 'Entity not found' });
+      }
+      const splitError = entityResolutionService.validateSplit(entity, parsed.data.aliases);
+      if (splitError) {
+        return res.status(400).json({ message: splitError });
+      }
+
+      res.json(await entityResolutionService.split(entity, parsed.data.aliases));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to split entity' });
+    }
+  });
+
+  app.get('/api/projects/:id/failures', async (req, res) => {
+    try {
+      const failures = await storage.getCrawlFailuresByProject(req.params.id);
+      res.json(failures);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch crawl failures' });
+    }
+  });
+
   // Statistics
   app.get('/api/projects/:id/stats', async (req, res) => {
     try {
@@ -455,18 +1160,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Lists are joined; records such as table rows stay JSON
+  function formatFieldValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value) && value.every(item => typeof item !== 'object' || item === null)) {
+      return value.join('; ');
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
   // Helper method for CSV generation
   function generateCSV(documents: any[], options: any): string {
-    const headers = ['URL', 'Title', 'Category', 'Word Count', 'Created At'];
+    // One column per extraction rule field found in any document
+    const fieldNames = Array.from(new Set(documents.flatMap(doc => Object.keys(doc.fields || {}))));
+
+    const headers = ['URL', 'Title', 'Category', 'Word Count', 'Author', 'Published At', 'Language', 'Created At', ...fieldNames];
     if (options.includeContent) headers.push('Content');
     
     const rows = documents.map(doc => {
+      const metadata = doc.metadata || {};
       const row = [
         doc.url,
         doc.title,
         doc.category || '',
         doc.wordCount || 0,
-        doc.createdAt
+        metadata.author || '',
+        metadata.publishedAt || '',
+        doc.language || metadata.language || '',
+        doc.createdAt,
+        ...fieldNames.map(name => formatFieldValue(doc.fields?.[name]))
       ];
       if (options.includeContent) row.push(doc.content || '');
       return row;
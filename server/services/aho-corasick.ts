@@ -0,0 +1,98 @@
+// Aho–Corasick automaton: finds every occurrence of many patterns in one pass
+// over the text, however many patterns there are. Matching ignores case;
+// characters whose lowercase form is longer than one character are compared
+// as they are, so match offsets always line up with the original text.
+
+export interface PatternMatch {
+  pattern: number; // index into the patterns the automaton was built from
+  start: number;
+  end: number;
+}
+
+const WORD_CHAR = /[\wÀ-ÖØ-öø-ÿœŒ]/;
+
+const fold = (char: string) => {
+  const lower = char.toLowerCase();
+  return lower.length === 1 ? lower : char;
+};
+
+export class AhoCorasick {
+  private next: Array<Map<string, number>> = [new Map()];
+  private fail: number[] = [0];
+  private output: number[][] = [[]]; // patterns ending at each state, including via fail links
+  private lengths: number[];
+
+  constructor(patterns: string[]) {
+    this.lengths = patterns.map(pattern => pattern.length);
+    patterns.forEach((pattern, index) => {
+      if (!pattern) return;
+      let state = 0;
+      for (const char of pattern.split('').map(fold)) {
+        let target = this.next[state].get(char);
+        if (target === undefined) {
+          target = this.next.length;
+          this.next.push(new Map());
+          this.fail.push(0);
+          this.output.push([]);
+          this.next[state].set(char, target);
+        }
+        state = target;
+      }
+      this.output[state].push(index);
+    });
+    this.link();
+  }
+
+  // All matches, overlapping ones included, in order of where they end
+  search(text: string): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    let state = 0;
+    for (let i = 0; i < text.length; i++) {
+      const char = fold(text[i]);
+      while (state !== 0 && !this.next[state].has(char)) state = this.fail[state];
+      state = this.next[state].get(char) ?? 0;
+      this.output[state].forEach(pattern => {
+        matches.push({ pattern, start: i + 1 - this.lengths[pattern], end: i + 1 });
+      });
+    }
+    return matches;
+  }
+
+  // Matches that start and end on word boundaries; where they overlap the
+  // leftmost, then longest one wins
+  searchWholeWords(text: string): PatternMatch[] {
+    const found = this.search(text)
+      .filter(({ start, end }) => !WORD_CHAR.test(text[start - 1] || '') && !WORD_CHAR.test(text[end] || ''))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const matches: PatternMatch[] = [];
+    let covered = 0;
+    found.forEach(match => {
+      if (match.start < covered) return;
+      matches.push(match);
+      covered = match.end;
+    });
+    return matches;
+  }
+
+  // Breadth first, so every fail target is complete before it is used
+  private link(): void {
+    const queue: number[] = [];
+    this.next[0].forEach(child => {
+      this.fail[child] = 0;
+      queue.push(child);
+    });
+
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      this.next[state].forEach((child, char) => {
+        let fallback = this.fail[state];
+        while (fallback !== 0 && !this.next[fallback].has(char)) fallback = this.fail[fallback];
+        const target = this.next[fallback].get(char);
+        this.fail[child] = target !== undefined && target !== child ? target : 0;
+        this.output[child] = [...this.output[child], ...this.output[this.fail[child]]];
+        queue.push(child);
+      });
+    }
+  }
+}
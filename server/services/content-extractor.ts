@@ -0,0 +1,218 @@
+import * as cheerio from "cheerio";
+import type { AnyNode } from "domhandler";
+
+type Selection = cheerio.Cheerio<AnyNode>;
+
+interface Candidate {
+  element: Selection;
+  score: number;
+}
+
+// Elements that never carry article text
+const STRIP_TAGS = 'script, style, noscript, template, iframe, svg, canvas, form, button, input, select, textarea, nav, footer, aside';
+const STRIP_ROLES = '[role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="dialog"], [aria-hidden="true"], [hidden]';
+
+// class/id hints, in the spirit of Mozilla's Readability
+const UNLIKELY = /banner|breadcrumb|combx|comment|community|cookie|consent|disqus|extra|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|tool|widget|\bads?\b|advert/i;
+const MAYBE = /and|article|body|column|content|main|post|shadow/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE = /hidden|banner|combx|comment|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const SCORED_TAGS = 'p, pre, td, blockquote';
+const BLOCK_TAGS = 'p, div, section, article, li, h1, h2, h3, h4, h5, h6, pre, blockquote, td, th, tr, br, dt, dd';
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_CONTENT_LENGTH = 140;
+
+// Finds the main text of a page by scoring blocks on text and link density
+// instead of trusting a fixed selector. Selectors passed in as overrides are
+// tried first, so sites the heuristics get wrong can be pinned per project.
+export class ContentExtractor {
+  extract(html: string, selectors: string[] = []): string {
+    const $ = cheerio.load(html);
+    $(STRIP_TAGS).remove();
+
+    // Overrides win even over elements the heuristics would drop
+    for (const selector of selectors) {
+      const element = this.select($, selector);
+      if (element && element.length > 0) {
+        return this.toText($, element);
+      }
+    }
+
+    this.removeUnlikelyCandidates($);
+    const best = this.findBestCandidate($);
+    if (!best || this.textOf(best).length < MIN_CONTENT_LENGTH) {
+      return this.toText($, $('body'));
+    }
+
+    this.cleanConditionally($, best);
+    return this.toText($, best);
+  }
+
+  private select($: cheerio.CheerioAPI, selector: string): Selection | null {
+    try {
+      return $(selector);
+    } catch {
+      return null; // Invalid selector in the project config
+    }
+  }
+
+  private removeUnlikelyCandidates($: cheerio.CheerioAPI): void {
+    $(STRIP_ROLES).remove();
+
+    $('body *').each((_, node) => {
+      const element = $(node);
+      const tag = node.tagName?.toLowerCase();
+      if (tag === 'body' || tag === 'main' || tag === 'article') return;
+
+      const hint = `${element.attr('class') || ''} ${element.attr('id') || ''}`;
+      if (UNLIKELY.test(hint) && !MAYBE.test(hint)) {
+        element.remove();
+      }
+    });
+  }
+
+  private findBestCandidate($: cheerio.CheerioAPI): Selection | null {
+    const candidates = new Map<AnyNode, Candidate>();
+
+    const candidateFor = (element: Selection): Candidate => {
+      const node = element[0];
+      let candidate = candidates.get(node);
+      if (!candidate) {
+        candidate = { element, score: this.initialScore(element) };
+        candidates.set(node, candidate);
+      }
+      return candidate;
+    };
+
+    $(SCORED_TAGS).each((_, node) => {
+      const paragraph = $(node);
+      const text = this.textOf(paragraph);
+      if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+      // Longer, comma-rich paragraphs are more likely to be prose
+      const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+
+      const parent = paragraph.parent();
+      if (parent.length === 0) return;
+      candidateFor(parent).score += score;
+
+      const grandparent = parent.parent();
+      if (grandparent.length > 0 && grandparent.get(0)?.type === 'tag') {
+        candidateFor(grandparent).score += score / 2;
+      }
+    });
+
+    let best: Candidate | null = null;
+    for (const candidate of Array.from(candidates.values())) {
+      candidate.score *= 1 - this.linkDensity($, candidate.element);
+      if (!best || candidate.score > best.score) best = candidate;
+    }
+
+    if (!best) return null;
+    return this.withRelatedSiblings($, best, candidates);
+  }
+
+  // Content is often split across siblings of the best block, e.g. a lead
+  // paragraph next to the article body
+  private withRelatedSiblings($: cheerio.CheerioAPI, best: Candidate, candidates: Map<AnyNode, Candidate>): Selection {
+    const threshold = Math.max(10, best.score * 0.2);
+    const hint = best.element.attr('class');
+    const parent = best.element.parent();
+    if (parent.length === 0 || parent.is('body, html')) return best.element;
+
+    const container = $('<div></div>');
+    parent.children().each((_, node) => {
+      const sibling = $(node);
+      let append = node === best.element.get(0);
+
+      if (!append) {
+        let bonus = 0;
+        if (hint && sibling.attr('class') === hint) bonus = best.score * 0.2;
+        const score = candidates.get(node)?.score;
+        if (score !== undefined && score + bonus >= threshold) {
+          append = true;
+        } else if (sibling.is('p')) {
+          const text = this.textOf(sibling);
+          const density = this.linkDensity($, sibling);
+          append = (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+        }
+      }
+
+      if (append) container.append(sibling.clone());
+    });
+
+    return container;
+  }
+
+  private initialScore(element: Selection): number {
+    const node = element.get(0);
+    const tag = node && 'tagName' in node ? node.tagName.toLowerCase() : undefined;
+    let score = 0;
+    if (tag === 'article') score += 10;
+    else if (tag === 'div' || tag === 'main' || tag === 'section') score += 5;
+    else if (tag === 'pre' || tag === 'td' || tag === 'blockquote') score += 3;
+    else if (['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li'].includes(tag || '')) score -= 3;
+    else if (/^h[1-6]$/.test(tag || '') || tag === 'th') score -= 5;
+
+    return score + this.classWeight(element);
+  }
+
+  private classWeight(element: Selection): number {
+    let weight = 0;
+    for (const hint of [element.attr('class'), element.attr('id')]) {
+      if (!hint) continue;
+      if (NEGATIVE.test(hint)) weight -= 25;
+      if (POSITIVE.test(hint)) weight += 25;
+    }
+    return weight;
+  }
+
+  // Share of an element's text that sits inside links
+  private linkDensity($: cheerio.CheerioAPI, element: Selection): number {
+    const length = this.textOf(element).length;
+    if (length === 0) return 0;
+
+    let linkLength = 0;
+    element.find('a').each((_, link) => {
+      linkLength += this.textOf($(link)).length;
+    });
+    return linkLength / length;
+  }
+
+  // Drops link lists, share bars and other low-value blocks left inside the content
+  private cleanConditionally($: cheerio.CheerioAPI, content: Selection): void {
+    content.find('ul, ol, div, section, table').each((_, node) => {
+      const element = $(node);
+      const text = this.textOf(element);
+      const weight = this.classWeight(element);
+
+      if (weight < 0) {
+        element.remove();
+        return;
+      }
+
+      const paragraphs = element.find('p').length;
+      const density = this.linkDensity($, element);
+      if ((density > 0.5 && weight < 25) || (density > 0.2 && paragraphs === 0 && text.length < 200)) {
+        element.remove();
+      }
+    });
+  }
+
+  private textOf(element: Selection): string {
+    return element.text().replace(/\s+/g, ' ').trim();
+  }
+
+  // cheerio's text() runs adjacent blocks together, so pad them first
+  private toText($: cheerio.CheerioAPI, element: Selection): string {
+    const copy = element.clone();
+    copy.find(BLOCK_TAGS).each((_, node) => {
+      $(node).append(' ');
+    });
+    return this.textOf(copy);
+  }
+}
+
+export const contentExtractor = new ContentExtractor();
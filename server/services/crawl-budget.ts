@@ -0,0 +1,118 @@
+import { ScrapingConfig } from "@shared/schema";
+import { UrlFilter, UrlPattern } from "./url-filter.js";
+
+export type StopReason = 'max_pages' | 'max_bytes' | 'max_duration' | 'max_errors';
+
+export interface CrawlStop {
+  reason: StopReason;
+  message: string;
+}
+
+// What a crawl has used so far; saved with checkpoints so a resumed crawl
+// keeps counting where it left off
+export interface BudgetUsage {
+  pages: number;
+  bytes: number;
+  elapsed: number; // ms spent crawling, pauses excluded
+  consecutiveErrors: number;
+  skippedByQuota: number;
+}
+
+interface PathQuota {
+  pattern: UrlPattern;
+  maxPages: number;
+  used: number;
+}
+
+// Enforces a crawl's stop conditions and per-path quotas
+export class CrawlBudget {
+  private config: ScrapingConfig;
+  private pages: number;
+  private bytes: number;
+  private startedAt: number;
+  private consecutiveErrors: number;
+  private skippedByQuota: number;
+  private quotas: PathQuota[];
+
+  // Quota use of a resumed crawl is recounted from the URLs it already queued
+  constructor(config: ScrapingConfig, usage?: BudgetUsage, seen: string[] = []) {
+    this.config = config;
+    this.pages = usage?.pages || 0;
+    this.bytes = usage?.bytes || 0;
+    this.startedAt = Date.now() - (usage?.elapsed || 0);
+    this.consecutiveErrors = usage?.consecutiveErrors || 0;
+    this.skippedByQuota = usage?.skippedByQuota || 0;
+    this.quotas = (config.pathQuotas || []).map(quota => {
+      const pattern = UrlFilter.compilePattern(quota.pattern);
+      return {
+        pattern,
+        maxPages: quota.maxPages,
+        used: seen.filter(url => UrlFilter.matches(pattern, url)).length,
+      };
+    });
+  }
+
+  recordBytes(bytes: number): void {
+    this.bytes += bytes;
+  }
+
+  recordPage(): void {
+    this.pages++;
+    this.consecutiveErrors = 0;
+  }
+
+  recordError(): void {
+    this.consecutiveErrors++;
+  }
+
+  // Pages in flight may still fail, so they only hold back new requests
+  // instead of counting as crawled
+  canDispatch(inFlight: number): boolean {
+    return this.config.maxPages === undefined || this.pages + inFlight < this.config.maxPages;
+  }
+
+  // Claims a slot in every quota the URL falls under, or returns false when
+  // one of them is used up
+  claimQuota(url: string): boolean {
+    const matching = this.quotas.filter(quota => UrlFilter.matches(quota.pattern, url));
+    if (matching.some(quota => quota.used >= quota.maxPages)) {
+      this.skippedByQuota++;
+      return false;
+    }
+    matching.forEach(quota => quota.used++);
+    return true;
+  }
+
+  exhausted(): CrawlStop | null {
+    const { maxPages, maxBytes, maxDuration, maxConsecutiveErrors } = this.config;
+
+    if (maxPages !== undefined && this.pages >= maxPages) {
+      return { reason: 'max_pages', message: `Reached the limit of ${maxPages} pages` };
+    }
+    if (maxBytes !== undefined && this.bytes >= maxBytes) {
+      return { reason: 'max_bytes', message: `Downloaded ${this.formatBytes(this.bytes)}, limit is ${this.formatBytes(maxBytes)}` };
+    }
+    if (maxDuration !== undefined && Date.now() - this.startedAt >= maxDuration * 60 * 1000) {
+      return { reason: 'max_duration', message: `Ran for the limit of ${maxDuration} minutes` };
+    }
+    if (maxConsecutiveErrors !== undefined && this.consecutiveErrors >= maxConsecutiveErrors) {
+      return { reason: 'max_errors', message: `${this.consecutiveErrors} failed pages in a row` };
+    }
+    return null;
+  }
+
+  usage(): BudgetUsage {
+    return {
+      pages: this.pages,
+      bytes: this.bytes,
+      elapsed: Date.now() - this.startedAt,
+      consecutiveErrors: this.consecutiveErrors,
+      skippedByQuota: this.skippedByQuota,
+    };
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+}
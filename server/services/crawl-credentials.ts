@@ -0,0 +1,89 @@
+import { CrawlAuth, crawlAuthSchema } from "@shared/schema";
+import { storage } from "../storage.js";
+import { secretBox } from "./secrets.js";
+import { Cookie, CookieJar, CrawlSession } from "./crawl-session.js";
+
+// What the API reveals about stored credentials: names, never values
+export interface CredentialSummary {
+  headerNames: string[];
+  hasCookies: boolean;
+  basicUsername?: string;
+  loginUrl?: string;
+  loginFields: string[];
+  sessionCookies: number; // cookies kept from the last crawl
+  updatedAt: Date | null;
+}
+
+// Stores per-project crawl credentials encrypted and turns them into sessions
+export class CrawlCredentialService {
+  async save(projectId: string, auth: CrawlAuth): Promise<CredentialSummary> {
+    const secrets = secretBox.encrypt(JSON.stringify(auth));
+    const existing = await storage.getCrawlCredentials(projectId);
+
+    // New credentials start a new session
+    const credentials = existing
+      ? (await storage.updateCrawlCredentials(existing.id, { secrets, cookies: null }))!
+      : await storage.createCrawlCredentials({ projectId, secrets });
+
+    return this.summarize(auth, [], credentials.updatedAt);
+  }
+
+  async getSummary(projectId: string): Promise<CredentialSummary | undefined> {
+    const credentials = await storage.getCrawlCredentials(projectId);
+    if (!credentials) return undefined;
+
+    return this.summarize(
+      this.decryptAuth(credentials.secrets),
+      credentials.cookies ? this.decryptCookies(credentials.cookies) : [],
+      credentials.updatedAt
+    );
+  }
+
+  async remove(projectId: string): Promise<boolean> {
+    return storage.deleteCrawlCredentials(projectId);
+  }
+
+  // Returns undefined for projects that crawl anonymously. Logs in first when
+  // the project has a login step, so a bad password fails the crawl up front.
+  async openSession(projectId: string, targetUrl: string): Promise<CrawlSession | undefined> {
+    const credentials = await storage.getCrawlCredentials(projectId);
+    if (!credentials) return undefined;
+
+    const auth = this.decryptAuth(credentials.secrets);
+    const jar = credentials.cookies ? CookieJar.fromJSON(this.decryptCookies(credentials.cookies)) : undefined;
+    const session = new CrawlSession(auth, targetUrl, jar);
+    await session.login();
+    return session;
+  }
+
+  async saveSession(projectId: string, session: CrawlSession): Promise<void> {
+    const credentials = await storage.getCrawlCredentials(projectId);
+    if (!credentials) return;
+
+    await storage.updateCrawlCredentials(credentials.id, {
+      cookies: secretBox.encrypt(JSON.stringify(session.jar.toJSON()))
+    });
+  }
+
+  private decryptAuth(secrets: string): CrawlAuth {
+    return crawlAuthSchema.parse(JSON.parse(secretBox.decrypt(secrets)));
+  }
+
+  private decryptCookies(cookies: string): Cookie[] {
+    return JSON.parse(secretBox.decrypt(cookies));
+  }
+
+  private summarize(auth: CrawlAuth, cookies: Cookie[], updatedAt: Date | null): CredentialSummary {
+    return {
+      headerNames: Object.keys(auth.headers),
+      hasCookies: !!auth.cookies,
+      basicUsername: auth.basic?.username,
+      loginUrl: auth.login?.url,
+      loginFields: Object.keys(auth.login?.fields || {}),
+      sessionCookies: cookies.length,
+      updatedAt,
+    };
+  }
+}
+
+export const crawlCredentialService = new CrawlCredentialService();
@@ -0,0 +1,457 @@
+import { CrawlJob, Document, Project, ScrapingConfig } from "@shared/schema";
+import { storage } from "../storage.js";
+import { scraperService, CrawlCheckpoint, CrawlControl, FetchedResponse, KnownPage, ScrapeProgress } from "./scraper.js";
+import { CrawlQueueItem } from "./crawl-scheduler.js";
+import { documentIndexService } from "./document-index.js";
+import { nearDuplicateService } from "./near-duplicates.js";
+import { crawlCredentialService } from "./crawl-credentials.js";
+import { warcArchiveService } from "./warc-archive.js";
+import { BudgetUsage, CrawlStop } from "./crawl-budget.js";
+import { robotsService } from "./robots.js";
+import { languageService } from "./language.js";
+import { entityResolutionService } from "./entity-resolution.js";
+import { log } from "../vite.js";
+
+type Broadcast = (message: any) => void;
+
+export interface RecrawlSummary {
+  added: string[];
+  changed: string[];
+  unchanged: string[];
+  removed: string[];
+}
+
+// A URL that failed with one of these is gone from the site, not just unreachable
+const GONE_STATUS = [404, 410];
+
+export class CrawlJobService {
+  private broadcast: Broadcast = () => {};
+  private controllers: Map<string, AbortController> = new Map(); // keyed by project id
+
+  setBroadcast(broadcast: Broadcast): void {
+    this.broadcast = broadcast;
+  }
+
+  isRunning(projectId: string): boolean {
+    return this.controllers.has(projectId);
+  }
+
+  async start(project: Project, config: ScrapingConfig): Promise<CrawlJob> {
+    const job = await storage.createCrawlJob({
+      projectId: project.id,
+      status: 'running',
+      config,
+    });
+
+    this.launch(job, false);
+    return job;
+  }
+
+  // Crawls an existing project again with the settings of its last crawl,
+  // reprocessing only the pages whose content changed
+  async recrawl(projectId: string, scheduleId?: string): Promise<CrawlJob | undefined> {
+    const previous = await storage.getLatestCrawlJob(projectId);
+    if (!previous || previous.status === 'running' || previous.status === 'paused' || this.isRunning(projectId)) {
+      return undefined;
+    }
+
+    return this.startFollowUp(projectId, previous, 'recrawl', scheduleId);
+  }
+
+  // Runs the archived raw responses through extraction and NLP again, with
+  // the settings of the last crawl and without fetching anything
+  async replay(projectId: string): Promise<CrawlJob | undefined> {
+    const previous = await storage.getLatestCrawlJob(projectId);
+    if (!previous || previous.status === 'running' || previous.status === 'paused' || this.isRunning(projectId)) {
+      return undefined;
+    }
+
+    return this.startFollowUp(projectId, previous, 'replay');
+  }
+
+  private async startFollowUp(
+    projectId: string,
+    previous: CrawlJob,
+    mode: 'recrawl' | 'replay',
+    scheduleId?: string
+  ): Promise<CrawlJob> {
+    const job = await storage.createCrawlJob({
+      projectId,
+      status: 'running',
+      mode,
+      scheduleId,
+      config: previous.config as ScrapingConfig,
+      summary: { added: [], changed: [], unchanged: [], removed: [] },
+    });
+
+    await storage.updateProject(projectId, {
+      status: 'running',
+      totalUrls: 0,
+      processedUrls: 0,
+      successfulUrls: 0,
+      failedUrls: 0
+    });
+
+    this.launch(job, false);
+    return job;
+  }
+
+  async pause(projectId: string): Promise<CrawlJob | undefined> {
+    const job = await storage.getLatestCrawlJob(projectId);
+    if (!job || job.status !== 'running') return undefined;
+
+    this.controllers.get(projectId)?.abort('paused');
+    return this.setStatus(job, 'paused');
+  }
+
+  async resume(projectId: string): Promise<CrawlJob | undefined> {
+    const job = await storage.getLatestCrawlJob(projectId);
+    if (!job || job.status !== 'paused' || this.isRunning(projectId)) return undefined;
+
+    const resumed = await this.setStatus(job, 'running');
+    if (resumed) this.launch(resumed, true);
+    return resumed;
+  }
+
+  async cancel(projectId: string): Promise<CrawlJob | undefined> {
+    const job = await storage.getLatestCrawlJob(projectId);
+    if (!job || (job.status !== 'running' && job.status !== 'paused')) return undefined;
+
+    this.controllers.get(projectId)?.abort('cancelled');
+    return this.setStatus(job, 'cancelled');
+  }
+
+  // Picks up crawls that were still running when the server went down
+  async resumeInterrupted(): Promise<void> {
+    const jobs = await storage.getCrawlJobsByStatus('running');
+    jobs.forEach(job => {
+      if (job.projectId && !this.isRunning(job.projectId)) {
+        log(`Resuming interrupted crawl for project ${job.projectId}`, 'crawl');
+        this.launch(job, true);
+      }
+    });
+  }
+
+  private async setStatus(job: CrawlJob, status: string): Promise<CrawlJob | undefined> {
+    const updated = await storage.updateCrawlJob(job.id, {
+      status,
+      ...(status === 'cancelled' && { finishedAt: new Date() })
+    });
+    if (job.projectId) {
+      await storage.updateProject(job.projectId, { status });
+      this.broadcast({
+        type: 'crawl_status',
+        projectId: job.projectId,
+        status
+      });
+    }
+    return updated;
+  }
+
+  // Runs in the background; what run() does not handle itself still fails the job
+  private launch(job: CrawlJob, resume: boolean): void {
+    this.run(job, resume).catch(async error => {
+      console.error('Crawl job error:', error);
+      try {
+        await storage.updateCrawlJob(job.id, { status: 'failed', finishedAt: new Date() });
+        if (job.projectId) await storage.updateProject(job.projectId, { status: 'failed' });
+      } catch (updateError) {
+        console.error(`Failed to mark crawl job ${job.id} as failed:`, updateError);
+      }
+      if (job.projectId) {
+        this.broadcast({
+          type: 'scraping_error',
+          projectId: job.projectId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+  }
+
+  private async run(job: CrawlJob, resume: boolean): Promise<void> {
+    const projectId = job.projectId;
+    if (!projectId) return;
+
+    const project = await storage.getProject(projectId);
+    if (!project) return;
+
+    const config = job.config as ScrapingConfig;
+    const controller = new AbortController();
+    this.controllers.set(projectId, controller);
+
+    const checkpoint: CrawlCheckpoint | undefined = resume ? {
+      queue: (job.frontier as CrawlQueueItem[]) || [],
+      seen: (job.visited as string[]) || [],
+      processed: job.processed || 0,
+      budget: (job.budget as BudgetUsage | null) || undefined,
+    } : undefined;
+
+    // A recrawl compares every page against what the project already stores;
+    // a replay rebuilds every stored page from its archived response
+    const isRecrawl = job.mode === 'recrawl';
+    const isReplay = job.mode === 'replay';
+    const knownDocuments = new Map<string, Document>();
+    if (isRecrawl) {
+      (await storage.getDocumentsByProject(projectId)).forEach(doc => knownDocuments.set(doc.url, doc));
+    }
+    const knownPages = isRecrawl ? new Map<string, KnownPage>(
+      Array.from(knownDocuments.values()).map(doc => [doc.url, {
+        depth: doc.depth || 0,
+        links: (doc.links as string[]) || [],
+        contentHash: doc.contentHash,
+        etag: doc.etag,
+        lastModified: doc.lastModified,
+      }])
+    ) : undefined;
+
+    const summary: RecrawlSummary = {
+      added: [],
+      changed: [],
+      unchanged: [],
+      removed: [],
+      ...(job.summary as Partial<RecrawlSummary>)
+    };
+    const reached = new Set([...summary.added, ...summary.changed, ...summary.unchanged]);
+
+    let processedCount = project.processedUrls || 0;
+    let successCount = project.successfulUrls || 0;
+    let errorCount = project.failedUrls || 0;
+    let blockedCount = 0;
+    // Pages that looked client-rendered, carried over when a crawl is resumed
+    let renderingCount = (job.stats as { renderingSuggested?: number } | null)?.renderingSuggested || 0;
+    const stats = () => ({
+      processed: processedCount,
+      successful: successCount,
+      failed: errorCount,
+      blocked: blockedCount,
+      renderingSuggested: renderingCount
+    });
+    let stop: CrawlStop | undefined;
+
+    try {
+      const session = isReplay ? undefined : await crawlCredentialService.openSession(projectId, config.targetUrl);
+
+      const onProgress = (progress: ScrapeProgress) => {
+        processedCount = progress.totalProcessed;
+        if (progress.status === 'success') successCount++;
+        else if (progress.status === 'blocked') blockedCount++;
+        else if (progress.status === 'error') errorCount++;
+
+        // Keep the final classification of every failed URL
+        if (progress.status === 'error' && progress.failure) {
+          storage.createCrawlFailure({
+            projectId,
+            url: progress.url,
+            kind: progress.failure.kind,
+            statusCode: progress.failure.statusCode,
+            message: progress.message,
+            attempts: progress.failure.attempts
+          }).catch(error => console.error(`Failed to record crawl failure for ${progress.url}:`, error));
+        }
+
+        // Update project progress; progress callbacks are not awaited by the crawler
+        storage.updateProject(projectId, {
+          processedUrls: processedCount,
+          successfulUrls: successCount,
+          failedUrls: errorCount
+        }).catch(error => console.error('Failed to update crawl progress:', error));
+
+        // Broadcast progress
+        this.broadcast({
+          type: 'scraping_progress',
+          projectId,
+          ...progress,
+          totalProcessed: processedCount,
+          successCount,
+          errorCount,
+          blockedCount
+        });
+      };
+
+      const control: CrawlControl = {
+        resumeFrom: checkpoint,
+        knownPages,
+        signal: controller.signal,
+        session,
+        // Configs from before archiving existed have no setting and archive too
+        onResponse: config.archiveResponses !== false
+          ? (response, item) => this.archive(job, item, response)
+          : undefined,
+        onStop: (reached) => {
+          stop = reached;
+        },
+        onCheckpoint: async ({ queue, seen, processed, budget }) => {
+          if (session) await crawlCredentialService.saveSession(projectId, session);
+          await storage.updateCrawlJob(job.id, {
+            frontier: queue,
+            visited: seen,
+            processed,
+            summary,
+            stats: stats(),
+            budget: budget ?? null
+          });
+          await storage.updateProject(projectId, { totalUrls: seen.length });
+        }
+      };
+
+      const pages = isReplay
+        ? warcArchiveService.replay(projectId, config, onProgress, control)
+        : scraperService.scrapeWebsite(config, onProgress, control);
+
+      for await (const scrapedPage of pages) {
+        if (scrapedPage.renderingSuggested) {
+          // One suggestion per crawl is enough to act on
+          if (renderingCount++ === 0) {
+            this.broadcast({
+              type: 'rendering_suggested',
+              projectId,
+              url: scrapedPage.url,
+              wordCount: scrapedPage.wordCount
+            });
+          }
+        }
+
+        // Pages that share a canonical URL are handled once per crawl
+        if (reached.has(scrapedPage.url)) continue;
+
+        const existing = await storage.getDocumentByUrl(projectId, scrapedPage.url);
+        if (existing && !isRecrawl && !isReplay) continue;
+        reached.add(scrapedPage.url);
+
+        if (existing && scrapedPage.unchanged) {
+          summary.unchanged.push(scrapedPage.url);
+          continue;
+        }
+
+        const pageData = {
+          title: scrapedPage.title,
+          content: scrapedPage.content,
+          wordCount: scrapedPage.wordCount,
+          depth: scrapedPage.depth,
+          category: scrapedPage.category,
+          language: languageService.detect(scrapedPage.content, (scrapedPage.metadata as { language?: string } | undefined)?.language),
+          links: scrapedPage.links,
+          images: scrapedPage.images,
+          metadata: scrapedPage.metadata || {},
+          fields: scrapedPage.fields || {},
+          contentHash: scrapedPage.contentHash,
+          etag: scrapedPage.etag ?? null,
+          lastModified: scrapedPage.lastModified ?? null,
+          entities: [],
+          relationships: []
+        };
+
+        let document: Document;
+        if (existing) {
+          // Changed page: drop what was extracted from the old version first
+          await documentIndexService.unindex(projectId, existing);
+          document = (await storage.updateDocument(existing.id, pageData)) || existing;
+          summary.changed.push(scrapedPage.url);
+        } else {
+          document = await storage.createDocument({ projectId, url: scrapedPage.url, ...pageData });
+          if (isRecrawl || isReplay) summary.added.push(scrapedPage.url);
+        }
+        document = await nearDuplicateService.check(projectId, document);
+
+        // Process with NLP if enabled
+        if (config.extractEntities || config.buildRelationships) {
+          await documentIndexService.index(projectId, document);
+        }
+
+        this.broadcast({
+          type: 'document_processed',
+          projectId,
+          document: {
+            id: document.id,
+            title: document.title,
+            url: document.url,
+            entityCount: scrapedPage.wordCount
+          }
+        });
+      }
+
+      // Paused and cancelled crawls already have their status recorded
+      if (controller.signal.aborted) return;
+
+      // A crawl stopped by its budget never got to the rest of the site, so
+      // what it did not reach says nothing about what was removed
+      if (isRecrawl && !stop) {
+        summary.removed = await this.findRemovedPages(job, knownDocuments, reached);
+      }
+
+      // Variants of one name found on different pages become one entity
+      await entityResolutionService.resolve(projectId);
+
+      // A crawl stopped by its budget keeps the rest of its frontier for reference
+      await storage.updateCrawlJob(job.id, {
+        status: 'completed',
+        ...(!stop && { frontier: [] }),
+        summary,
+        stats: stats(),
+        stopReason: stop?.reason || 'completed',
+        finishedAt: new Date()
+      });
+      await storage.updateProject(projectId, { status: 'completed' });
+      this.broadcast({
+        type: 'scraping_completed',
+        projectId,
+        stopReason: stop?.reason || 'completed',
+        stopMessage: stop?.message,
+        renderingSuggested: renderingCount,
+        ...(isRecrawl && {
+          changes: {
+            added: summary.added,
+            changed: summary.changed,
+            removed: summary.removed,
+            unchangedCount: summary.unchanged.length
+          }
+        })
+      });
+
+    } catch (error) {
+      console.error('Scraping error:', error);
+      await storage.updateCrawlJob(job.id, { status: 'failed', stats: stats(), finishedAt: new Date() });
+      await storage.updateProject(projectId, { status: 'failed' });
+      this.broadcast({
+        type: 'scraping_error',
+        projectId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      if (this.controllers.get(projectId) === controller) {
+        this.controllers.delete(projectId);
+      }
+    }
+  }
+
+  // Losing the archive copy of a page should not lose the page itself
+  private async archive(job: CrawlJob, item: CrawlQueueItem, response: FetchedResponse): Promise<void> {
+    try {
+      await warcArchiveService.write(job, item, response);
+    } catch (error) {
+      console.error(`Failed to archive ${response.url}:`, error);
+    }
+  }
+
+  // Stored pages that this crawl did not reach, except those that only failed
+  // transiently or that robots.txt now keeps it from fetching, which may well
+  // still exist
+  private async findRemovedPages(job: CrawlJob, known: Map<string, Document>, reached: Set<string>): Promise<string[]> {
+    const since = new Date(job.createdAt || 0).getTime();
+    const transientFailures = new Set(
+      (await storage.getCrawlFailuresByProject(job.projectId!))
+        .filter(failure => new Date(failure.createdAt || 0).getTime() >= since)
+        .filter(failure => !GONE_STATUS.includes(failure.statusCode || 0))
+        .map(failure => failure.url)
+    );
+
+    const removed: string[] = [];
+    for (const url of Array.from(known.keys())) {
+      if (reached.has(url) || transientFailures.has(url)) continue;
+      if (await robotsService.isAllowed(url, scraperService.HEADERS)) removed.push(url);
+    }
+    return removed;
+  }
+}
+
+export const crawlJobService = new CrawlJobService();
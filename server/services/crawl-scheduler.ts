@@ -0,0 +1,121 @@
+export interface CrawlQueueItem {
+  url: string;
+  depth: number;
+  category: string;
+  priority?: number; // 0..1, from sitemap <priority>
+}
+
+interface FrontierEntry {
+  item: CrawlQueueItem;
+  sequence: number;
+}
+
+const DEFAULT_PRIORITY = 0.5;
+
+// Priority queue of URLs waiting to be crawled. "bfs" ordering crawls shallow
+// pages first; "priority" ordering follows sitemap priority, then depth.
+// Ties always fall back to insertion order.
+export class CrawlFrontier {
+  private heap: FrontierEntry[] = [];
+  private sequence = 0;
+  private order: 'bfs' | 'priority';
+
+  constructor(order: 'bfs' | 'priority' = 'bfs', items: CrawlQueueItem[] = []) {
+    this.order = order;
+    items.forEach(item => this.push(item));
+  }
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(item: CrawlQueueItem): void {
+    this.heap.push({ item, sequence: this.sequence++ });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  pop(): CrawlQueueItem | undefined {
+    if (this.heap.length === 0) return undefined;
+
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top.item;
+  }
+
+  // Items in the order they would be popped, for checkpointing
+  toArray(): CrawlQueueItem[] {
+    return [...this.heap]
+      .sort((a, b) => this.compare(a, b))
+      .map(entry => entry.item);
+  }
+
+  private compare(a: FrontierEntry, b: FrontierEntry): number {
+    if (this.order === 'priority') {
+      const byPriority = (b.item.priority ?? DEFAULT_PRIORITY) - (a.item.priority ?? DEFAULT_PRIORITY);
+      if (byPriority !== 0) return byPriority;
+    }
+    return a.item.depth - b.item.depth || a.sequence - b.sequence;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.heap[index], this.heap[parent]) >= 0) break;
+      [this.heap[index], this.heap[parent]] = [this.heap[parent], this.heap[index]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.compare(this.heap[left], this.heap[smallest]) < 0) smallest = left;
+      if (right < length && this.compare(this.heap[right], this.heap[smallest]) < 0) smallest = right;
+      if (smallest === index) break;
+
+      [this.heap[index], this.heap[smallest]] = [this.heap[smallest], this.heap[index]];
+      index = smallest;
+    }
+  }
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token bucket per host. Tokens refill at one per interval up to the burst
+// capacity; a request that finds the bucket empty reserves the next token and
+// waits for it, so concurrent workers hitting the same host are spaced out.
+export class HostRateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private burst: number;
+
+  constructor(burst = 1) {
+    this.burst = burst;
+  }
+
+  async acquire(host: string, intervalMs: number): Promise<void> {
+    if (intervalMs <= 0) return;
+
+    const now = Date.now();
+    const bucket = this.buckets.get(host) || { tokens: this.burst, updatedAt: now };
+
+    bucket.tokens = Math.min(this.burst, bucket.tokens + (now - bucket.updatedAt) / intervalMs);
+    bucket.updatedAt = now;
+    bucket.tokens -= 1;
+    this.buckets.set(host, bucket);
+
+    if (bucket.tokens < 0) {
+      await new Promise(resolve => setTimeout(resolve, -bucket.tokens * intervalMs));
+    }
+  }
+}
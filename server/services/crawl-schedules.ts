@@ -0,0 +1,151 @@
+import { CrawlSchedule, CrawlScheduleConfig } from "@shared/schema";
+import { storage } from "../storage.js";
+import { crawlJobService } from "./crawl-jobs.js";
+import { nlpReprocessService } from "./nlp-reprocess.js";
+import { CronExpression } from "./cron.js";
+
+type Broadcast = (message: any) => void;
+
+export interface ScheduleRun {
+  id: string;
+  status: string;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  stopReason: string | null;
+  stats: { processed?: number; successful?: number; failed?: number; blocked?: number };
+  changes: { added: number; changed: number; removed: number } | null;
+}
+
+const CHECK_INTERVAL = 30 * 1000; // how often due schedules are looked for
+
+// Starts recrawls of projects on their cron schedules. Schedules and the crawl
+// jobs that make up their run history are in storage, which is saved to its
+// snapshot file, so they carry on after a restart; a run missed while the
+// server was down happens once on startup, not once per missed slot.
+export class CrawlScheduleService {
+  private broadcast: Broadcast = () => {};
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  setBroadcast(broadcast: Broadcast): void {
+    this.broadcast = broadcast;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runDue(), CHECK_INTERVAL);
+    this.timer.unref();
+    this.runDue();
+  }
+
+  // Null for a usable expression, otherwise what is wrong with it
+  validate(cron: string): string | null {
+    try {
+      new CronExpression(cron).next();
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid cron expression';
+    }
+  }
+
+  async create(projectId: string, config: CrawlScheduleConfig): Promise<CrawlSchedule> {
+    return storage.createCrawlSchedule({
+      projectId,
+      cron: config.cron.trim(),
+      enabled: config.enabled,
+      nextRunAt: config.enabled ? new CronExpression(config.cron).next() : null,
+    });
+  }
+
+  async update(id: string, config: Partial<CrawlScheduleConfig>): Promise<CrawlSchedule | undefined> {
+    const schedule = await storage.getCrawlSchedule(id);
+    if (!schedule) return undefined;
+
+    const cron = config.cron?.trim() ?? schedule.cron;
+    const enabled = config.enabled ?? schedule.enabled;
+    return storage.updateCrawlSchedule(id, {
+      cron,
+      enabled,
+      nextRunAt: enabled ? new CronExpression(cron).next() : null,
+    });
+  }
+
+  async getRuns(scheduleId: string): Promise<ScheduleRun[]> {
+    return (await storage.getCrawlJobsBySchedule(scheduleId)).map(job => {
+      const summary = job.summary as { added?: string[]; changed?: string[]; removed?: string[] };
+      return {
+        id: job.id,
+        status: job.status,
+        startedAt: job.createdAt,
+        finishedAt: job.finishedAt,
+        stopReason: job.stopReason,
+        stats: (job.stats as ScheduleRun['stats']) || {},
+        changes: summary?.added ? {
+          added: summary.added.length,
+          changed: (summary.changed || []).length,
+          removed: (summary.removed || []).length,
+        } : null,
+      };
+    });
+  }
+
+  private async runDue(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      for (const schedule of await storage.getEnabledCrawlSchedules()) {
+        if (schedule.nextRunAt && new Date(schedule.nextRunAt).getTime() <= now) {
+          await this.trigger(schedule);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to run crawl schedules:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async trigger(schedule: CrawlSchedule): Promise<void> {
+    const now = new Date();
+    const project = schedule.projectId ? await storage.getProject(schedule.projectId) : undefined;
+    if (!project) {
+      await storage.updateCrawlSchedule(schedule.id, {
+        enabled: false,
+        nextRunAt: null,
+        lastResult: 'Disabled: project no longer exists',
+      });
+      return;
+    }
+
+    let lastResult = 'started';
+    // Documents a crawl stores during reprocessing could miss the swap, so the run is skipped
+    const reprocessing = nlpReprocessService.isRunning(project.id);
+    const job = reprocessing ? undefined : await crawlJobService.recrawl(project.id, schedule.id);
+    if (reprocessing) {
+      lastResult = 'Skipped: project is being reprocessed';
+    } else if (!job) {
+      const latest = await storage.getLatestCrawlJob(project.id);
+      lastResult = !latest
+        ? 'Skipped: project has not been crawled yet'
+        : 'Skipped: previous crawl still running';
+    }
+
+    await storage.updateCrawlSchedule(schedule.id, {
+      lastRunAt: now,
+      lastResult,
+      nextRunAt: new CronExpression(schedule.cron).next(now),
+    });
+
+    this.broadcast({
+      type: 'schedule_triggered',
+      projectId: project.id,
+      scheduleId: schedule.id,
+      started: !!job,
+      message: lastResult,
+    });
+  }
+}
+
+export const crawlScheduleService = new CrawlScheduleService();
@@ -0,0 +1,361 @@
+import { CrawlAuth } from "@shared/schema";
+import * as cheerio from "cheerio";
+import { isIP } from "net";
+import { getDomain } from "tldts";
+import { UrlFilter } from "./url-filter.js";
+import { scraperService } from "./scraper.js";
+
+export interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean; // no Domain attribute: only sent back to the exact host
+  path: string;
+  expires?: number; // epoch ms; session cookies have none
+  secure: boolean;
+}
+
+export interface SessionRequest {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+const MAX_REDIRECTS = 10;
+const LOGIN_TIMEOUT = 15000;
+
+// RFC 6265 cookie storage, enough to keep a logged-in session across requests
+export class CookieJar {
+  private cookies: Map<string, Cookie> = new Map(); // keyed by domain, path and name
+
+  static fromJSON(cookies: Cookie[]): CookieJar {
+    const jar = new CookieJar();
+    cookies.forEach(cookie => jar.cookies.set(CookieJar.key(cookie), cookie));
+    return jar;
+  }
+
+  toJSON(): Cookie[] {
+    this.removeExpired();
+    return Array.from(this.cookies.values());
+  }
+
+  get size(): number {
+    return this.cookies.size;
+  }
+
+  // Applies the Set-Cookie headers of a response to the jar
+  store(url: string, setCookieHeaders: string[]): void {
+    const requestUrl = new URL(url);
+    setCookieHeaders.forEach(header => {
+      const cookie = this.parse(header, requestUrl);
+      if (!cookie) return;
+
+      const key = CookieJar.key(cookie);
+      if (cookie.expires !== undefined && cookie.expires <= Date.now()) {
+        this.cookies.delete(key);
+      } else {
+        this.cookies.set(key, cookie);
+      }
+    });
+  }
+
+  // Cookies already parsed elsewhere, e.g. by the headless browser
+  add(cookies: Cookie[]): void {
+    cookies.forEach(cookie => {
+      const key = CookieJar.key(cookie);
+      if (cookie.expires !== undefined && cookie.expires <= Date.now()) {
+        this.cookies.delete(key);
+      } else {
+        this.cookies.set(key, cookie);
+      }
+    });
+  }
+
+  // Cookies given as a Cookie header, e.g. copied from a browser
+  storeHeader(url: string, header: string): void {
+    const { hostname } = new URL(url);
+    header.split(';').forEach(pair => {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) return;
+      const cookie: Cookie = {
+        name: pair.substring(0, separator).trim(),
+        value: pair.substring(separator + 1).trim(),
+        domain: hostname.toLowerCase(),
+        hostOnly: true,
+        path: '/',
+        secure: false,
+      };
+      this.cookies.set(CookieJar.key(cookie), cookie);
+    });
+  }
+
+  // Value for the Cookie request header, or null when nothing applies
+  header(url: string): string | null {
+    this.removeExpired();
+    const { protocol, hostname, pathname } = new URL(url);
+    const host = hostname.toLowerCase();
+
+    const matching = Array.from(this.cookies.values())
+      .filter(cookie => cookie.hostOnly ? host === cookie.domain : this.domainMatches(host, cookie.domain))
+      .filter(cookie => this.pathMatches(pathname, cookie.path))
+      .filter(cookie => !cookie.secure || protocol === 'https:')
+      // More specific paths first, as browsers do
+      .sort((a, b) => b.path.length - a.path.length);
+
+    return matching.length > 0
+      ? matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ')
+      : null;
+  }
+
+  private parse(header: string, requestUrl: URL): Cookie | null {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return null;
+
+    const host = requestUrl.hostname.toLowerCase();
+    const cookie: Cookie = {
+      name: pair.substring(0, separator).trim(),
+      value: pair.substring(separator + 1).trim(),
+      domain: host,
+      hostOnly: true,
+      path: this.defaultPath(requestUrl.pathname),
+      secure: false,
+    };
+
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const index = attribute.indexOf('=');
+      const name = (index === -1 ? attribute : attribute.substring(0, index)).trim().toLowerCase();
+      const value = index === -1 ? '' : attribute.substring(index + 1).trim();
+
+      switch (name) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+          // A server may only set cookies for its own domain or a parent of it
+          if (!domain || !this.domainMatches(host, domain)) return null;
+          // A public suffix such as co.uk would share the cookie with every site
+          // under it. The host itself may name one and keeps a host-only cookie.
+          if (this.isPublicSuffix(domain)) {
+            if (domain !== host) return null;
+            break;
+          }
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) cookie.path = value;
+          break;
+        case 'expires': {
+          const time = Date.parse(value);
+          if (!isNaN(time)) cookie.expires = time;
+          break;
+        }
+        case 'max-age': {
+          const seconds = parseInt(value, 10);
+          if (!isNaN(seconds)) maxAge = seconds;
+          break;
+        }
+        case 'secure':
+          cookie.secure = true;
+          break;
+      }
+    }
+
+    // Max-Age wins over Expires
+    if (maxAge !== undefined) cookie.expires = Date.now() + maxAge * 1000;
+    return cookie;
+  }
+
+  private defaultPath(pathname: string): string {
+    const lastSlash = pathname.lastIndexOf('/');
+    return lastSlash <= 0 ? '/' : pathname.substring(0, lastSlash);
+  }
+
+  // IP addresses only match themselves
+  private domainMatches(host: string, domain: string): boolean {
+    return host === domain || (!isIP(host) && host.endsWith(`.${domain}`));
+  }
+
+  private isPublicSuffix(domain: string): boolean {
+    return !isIP(domain) && getDomain(domain, { allowPrivateDomains: true }) === null;
+  }
+
+  private pathMatches(requestPath: string, cookiePath: string): boolean {
+    if (requestPath === cookiePath) return true;
+    if (!requestPath.startsWith(cookiePath)) return false;
+    return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    this.cookies.forEach((cookie, key) => {
+      if (cookie.expires !== undefined && cookie.expires <= now) this.cookies.delete(key);
+    });
+  }
+
+  private static key(cookie: Cookie): string {
+    return `${cookie.domain};${cookie.path};${cookie.name}`;
+  }
+}
+
+// Everything a crawl needs to talk to a site as a logged-in user: the cookie
+// jar, static headers, basic auth and the form login that starts the session
+export class CrawlSession {
+  readonly jar: CookieJar;
+  private auth: CrawlAuth;
+  private site: UrlFilter;
+  private loggingIn?: Promise<void>;
+
+  constructor(auth: CrawlAuth, targetUrl: string, jar = new CookieJar()) {
+    this.auth = auth;
+    this.site = new UrlFilter(new URL(targetUrl).hostname);
+    this.jar = jar;
+    if (auth.cookies) this.jar.storeHeader(targetUrl, auth.cookies);
+  }
+
+  // fetch() with cookies and credentials applied. Redirects are followed here
+  // so that cookies set along the way are kept.
+  async fetch(url: string, request: SessionRequest = {}): Promise<Response> {
+    const response = await this.send(url, request);
+
+    // An expired session usually shows up as a redirect to the login page
+    if (this.auth.login && this.isLoginPage(response.url || url) && !this.isLoginPage(url)) {
+      await this.login();
+      return this.send(url, request);
+    }
+    return response;
+  }
+
+  // Runs the scripted form login; concurrent callers share one attempt
+  async login(): Promise<void> {
+    if (!this.loggingIn) {
+      this.loggingIn = this.submitLogin().finally(() => {
+        this.loggingIn = undefined;
+      });
+    }
+    return this.loggingIn;
+  }
+
+  private async submitLogin(): Promise<void> {
+    const login = this.auth.login;
+    if (!login) return;
+
+    const page = await this.send(login.url, { signal: AbortSignal.timeout(LOGIN_TIMEOUT) });
+    if (!page.ok) {
+      throw new Error(`Login failed: login page returned HTTP ${page.status}`);
+    }
+
+    const $ = cheerio.load(await page.text());
+    const form = login.formSelector
+      ? $(login.formSelector).first()
+      : $('form').filter((_, element) => $(element).find('input[type="password"]').length > 0).first();
+    if (form.length === 0) {
+      throw new Error(`Login failed: no login form found on ${login.url}`);
+    }
+
+    // Hidden inputs carry CSRF tokens and the like, so submit the whole form
+    const fields = new URLSearchParams();
+    form.find('input[name], select[name], textarea[name]').each((_, element) => {
+      const input = $(element);
+      const type = (input.attr('type') || '').toLowerCase();
+      if (['submit', 'button', 'image', 'reset', 'file'].includes(type)) return;
+      if ((type === 'checkbox' || type === 'radio') && input.attr('checked') === undefined) return;
+
+      const value = element.tagName === 'select'
+        ? input.find('option[selected]').attr('value') ?? input.find('option').first().attr('value') ?? ''
+        : element.tagName === 'textarea' ? input.text() : input.attr('value') ?? '';
+      fields.set(input.attr('name')!, value);
+    });
+    Object.entries(login.fields).forEach(([name, value]) => fields.set(name, value));
+
+    const action = new URL(form.attr('action') || login.url, page.url || login.url).href;
+    const method = (form.attr('method') || 'post').toUpperCase();
+    const response = method === 'GET'
+      ? await this.send(`${action.split('?')[0]}?${fields}`, { signal: AbortSignal.timeout(LOGIN_TIMEOUT) })
+      : await this.send(action, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: fields.toString(),
+          signal: AbortSignal.timeout(LOGIN_TIMEOUT),
+        });
+
+    if (!response.ok) {
+      throw new Error(`Login failed: server returned HTTP ${response.status}`);
+    }
+
+    const html = await response.text();
+    if (login.successText) {
+      if (!html.includes(login.successText)) {
+        throw new Error(`Login failed: "${login.successText}" not found after logging in`);
+      }
+    } else if (cheerio.load(html)('input[type="password"]').length > 0) {
+      // Landing on another password form means the credentials were rejected
+      throw new Error('Login failed: still on a login form after submitting credentials');
+    }
+  }
+
+  private async send(url: string, request: SessionRequest): Promise<Response> {
+    let current = url;
+    let method = request.method || 'GET';
+    let body = request.body;
+    // Login and form requests identify as the crawler too, as robots.txt was read for it
+    let headers: Record<string, string> = { ...scraperService.HEADERS, ...request.headers };
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await fetch(current, {
+        method,
+        body,
+        headers: this.headersFor(current, headers),
+        signal: request.signal,
+        redirect: 'manual',
+      });
+      this.jar.store(current, response.headers.getSetCookie());
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location || redirects >= MAX_REDIRECTS) {
+        // Manually followed redirects leave response.url at the first hop
+        Object.defineProperty(response, 'url', { value: current });
+        return response;
+      }
+
+      current = new URL(location, current).href;
+      // Only 307 and 308 repeat the original method and body
+      if (response.status !== 307 && response.status !== 308) {
+        method = 'GET';
+        body = undefined;
+        const { 'Content-Type': _, ...rest } = headers;
+        headers = rest;
+      }
+    }
+  }
+
+  headersFor(url: string, base: Record<string, string> = {}): Record<string, string> {
+    const headers: Record<string, string> = { ...base };
+
+    // Credentials are for the crawled site only, never for other hosts
+    if (this.site.isSameSite(url)) {
+      Object.assign(headers, this.auth.headers);
+      if (this.auth.basic) {
+        const token = Buffer.from(`${this.auth.basic.username}:${this.auth.basic.password}`).toString('base64');
+        headers['Authorization'] = `Basic ${token}`;
+      }
+    }
+
+    const cookie = this.jar.header(url);
+    if (cookie) headers['Cookie'] = cookie;
+    return headers;
+  }
+
+  private isLoginPage(url: string): boolean {
+    if (!this.auth.login) return false;
+    try {
+      const page = new URL(url);
+      const login = new URL(this.auth.login.url);
+      return page.origin === login.origin && page.pathname === login.pathname;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,144 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in server time. Supports *, lists, ranges, steps, month and day
+// names and the usual @ shortcuts.
+
+const PRESETS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@nightly': '0 2 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Far enough ahead for any satisfiable expression, e.g. 29 February
+const MAX_SEARCH_YEARS = 8;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number; // value of the first name
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+export class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private days: Set<number>;
+  private months: Set<number>;
+  private weekdays: Set<number>;
+  // Cron matches either day field when both are restricted
+  private daysRestricted: boolean;
+  private weekdaysRestricted: boolean;
+
+  // Throws with a readable message for invalid expressions
+  constructor(expression: string) {
+    this.source = expression.trim();
+    const expanded = PRESETS[this.source.toLowerCase()] || this.source;
+    const parts = expanded.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Expected 5 fields (minute hour day month weekday), got ${parts.length}`);
+    }
+
+    const [minutes, hours, days, months, weekdays] = parts.map((part, index) => this.parseField(part, FIELDS[index]));
+    this.minutes = minutes;
+    this.hours = hours;
+    this.days = days;
+    this.months = months;
+    // 7 is another name for Sunday
+    this.weekdays = new Set(Array.from(weekdays).map(day => day % 7));
+    this.daysRestricted = parts[2] !== '*' && parts[2] !== '?';
+    this.weekdaysRestricted = parts[4] !== '*' && parts[4] !== '?';
+  }
+
+  // First matching minute strictly after the given time
+  next(after: Date = new Date()): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+    // Skips whole months, days and hours that cannot match
+    while (date.getFullYear() <= limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+    throw new Error(`"${this.source}" never matches a date`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const day = this.days.has(date.getDate());
+    const weekday = this.weekdays.has(date.getDay());
+    if (this.daysRestricted && this.weekdaysRestricted) return day || weekday;
+    if (this.daysRestricted) return day;
+    if (this.weekdaysRestricted) return weekday;
+    return true;
+  }
+
+  private parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+    field.toLowerCase().split(',').forEach(part => {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step "${stepText}" in ${spec.name}`);
+      }
+
+      let start: number;
+      let end: number;
+      if (range === '*' || range === '?') {
+        start = spec.min;
+        end = spec.max;
+      } else if (range.includes('-')) {
+        const [from, to] = range.split('-');
+        start = this.parseValue(from, spec);
+        end = this.parseValue(to, spec);
+      } else {
+        start = this.parseValue(range, spec);
+        // "5/15" means from 5 to the end in steps of 15
+        end = stepText === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${spec.name}`);
+      }
+      for (let value = start; value <= end; value += step) values.add(value);
+    });
+    return values;
+  }
+
+  private parseValue(text: string, spec: FieldSpec): number {
+    const named = spec.names?.indexOf(text.substring(0, 3)) ?? -1;
+    const value = named >= 0 && /^[a-z]+$/.test(text) ? named + (spec.nameOffset || 0) : Number(text);
+    if (!Number.isInteger(value) || value < spec.min || value > spec.max || text === '') {
+      throw new Error(`Invalid ${spec.name} "${text}", expected ${spec.min}-${spec.max}`);
+    }
+    return value;
+  }
+}
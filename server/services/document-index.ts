@@ -0,0 +1,77 @@
+import { Document } from "@shared/schema";
+import { storage } from "../storage.js";
+import { nlpService } from "./nlp.js";
+import { entityResolutionService } from "./entity-resolution.js";
+
+// Keeps the entity and relationship tables in step with the documents they
+// were extracted from
+export class DocumentIndexService {
+  async index(projectId: string, document: Document): Promise<void> {
+    // Near duplicates would only count the same mentions again
+    if (document.canonicalId) return;
+
+    // The project's own pipeline, or the default one
+    const project = await storage.getProject(projectId);
+    const nlpResults = await nlpService.processDocument(document, nlpService.getPipelineConfig(project));
+
+    // Save entities
+    for (const entityData of nlpResults.entities) {
+      // Also found under a name merged into another entity
+      const existingEntity = entityResolutionService.findEntity(
+        await storage.getEntitiesByProject(projectId), entityData.text, entityData.label
+      );
+
+      if (existingEntity) {
+        await storage.updateEntity(existingEntity.id, {
+          ...entityResolutionService.addMention(existingEntity, entityData.text, entityData.label, document.id, entityData.confidence),
+          externalId: existingEntity.externalId ?? entityData.externalId ?? null
+        });
+      } else {
+        await storage.createEntity({
+          projectId,
+          name: entityData.text,
+          type: entityData.label,
+          frequency: 1,
+          confidence: entityData.confidence,
+          documentIds: [document.id],
+          externalId: entityData.externalId
+        });
+      }
+    }
+
+    // Save relationships
+    for (const relData of nlpResults.relationships) {
+      await storage.createRelationship({
+        projectId,
+        sourceEntity: relData.source,
+        targetEntity: relData.target,
+        relationshipType: relData.relationship,
+        documentId: document.id
+      });
+    }
+
+    // Update document with extracted data and the stages that produced it
+    await storage.updateDocument(document.id, {
+      entities: nlpResults.entities,
+      relationships: nlpResults.relationships,
+      pipeline: nlpResults.stages
+    });
+  }
+
+  // Reverses index() before a changed document is indexed again
+  async unindex(projectId: string, document: Document): Promise<void> {
+    const entities = await storage.getEntitiesByProject(projectId);
+    for (const entity of entities) {
+      const updates = entityResolutionService.removeDocument(entity, document.id);
+      if (updates === null) {
+        await storage.deleteEntity(entity.id);
+      } else if (updates) {
+        await storage.updateEntity(entity.id, updates);
+      }
+    }
+
+    await storage.deleteRelationshipsByDocument(document.id);
+  }
+}
+
+export const documentIndexService = new DocumentIndexService();
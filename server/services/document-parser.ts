@@ -0,0 +1,178 @@
+import { createRequire } from "module";
+import mammoth from "mammoth";
+
+// The package entry point runs a self-test when it is not loaded by require()
+const require = createRequire(import.meta.url);
+const pdfParse: typeof import("pdf-parse") = require("pdf-parse/lib/pdf-parse.js");
+
+export type DocumentFormat = 'html' | 'pdf' | 'docx' | 'text' | 'markdown';
+
+export interface ParsedDocument {
+  title: string;
+  content: string;
+  links: string[]; // as written in the file, not yet resolved or normalized
+  metadata: FileMetadata;
+}
+
+export interface FileMetadata {
+  format: DocumentFormat;
+  fileName?: string;
+  author?: string;
+  publishedAt?: string;
+  pageCount?: number;
+}
+
+const CONTENT_TYPES: Record<string, DocumentFormat> = {
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+};
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  html: 'html',
+  htm: 'html',
+  pdf: 'pdf',
+  docx: 'docx',
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+};
+
+// Upper bound for downloaded and uploaded files
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+// Turns PDF, DOCX, plain text and Markdown files into the same title/content
+// shape the HTML scraper produces. HTML itself stays with the scraper.
+export class DocumentParserService {
+  // Servers often send files as application/octet-stream, so the extension
+  // decides when the content type is missing or generic
+  detectFormat(contentType: string | null | undefined, fileName: string): DocumentFormat | null {
+    const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+    if (CONTENT_TYPES[mimeType]) return CONTENT_TYPES[mimeType];
+
+    const extension = fileName.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+    if (!mimeType || mimeType === 'application/octet-stream' || mimeType.startsWith('text/')) {
+      return EXTENSIONS[extension] || (mimeType.startsWith('text/') ? 'text' : null);
+    }
+    return null;
+  }
+
+  async parse(buffer: Buffer, format: Exclude<DocumentFormat, 'html'>, fileName: string): Promise<ParsedDocument> {
+    switch (format) {
+      case 'pdf':
+        return this.parsePdf(buffer, fileName);
+      case 'docx':
+        return this.parseDocx(buffer, fileName);
+      case 'markdown':
+        return this.parseMarkdown(buffer.toString('utf8'), fileName);
+      case 'text':
+        return this.parseText(buffer.toString('utf8'), fileName);
+    }
+  }
+
+  private async parsePdf(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+    const result = await pdfParse(buffer);
+    const info = result.info || {};
+
+    // Join words hyphenated across line breaks before collapsing whitespace
+    const content = this.collapse(result.text.replace(/(\w)-\n(\w)/g, '$1$2'));
+
+    return {
+      title: this.clean(info.Title) || this.firstLine(result.text) || this.baseName(fileName),
+      content,
+      links: this.findUrls(result.text),
+      metadata: {
+        format: 'pdf',
+        fileName: this.baseName(fileName),
+        author: this.clean(info.Author),
+        publishedAt: this.parsePdfDate(info.CreationDate),
+        pageCount: result.numpages,
+      },
+    };
+  }
+
+  private async parseDocx(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+    const result = await mammoth.extractRawText({ buffer });
+
+    return {
+      title: this.firstLine(result.value) || this.baseName(fileName),
+      content: this.collapse(result.value),
+      links: this.findUrls(result.value),
+      metadata: { format: 'docx', fileName: this.baseName(fileName) },
+    };
+  }
+
+  private parseMarkdown(markdown: string, fileName: string): ParsedDocument {
+    const heading = markdown.match(/^#\s+(.+)$/m)?.[1];
+    const links = Array.from(markdown.matchAll(/\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)).map(match => match[1]);
+
+    const text = markdown
+      .replace(/```[^\n]*\n/g, '') // fence lines, keeping the code itself
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+      .replace(/(\*\*|__|\*|_|`|~~)(\S(?:.*?\S)?)\1/g, '$2');
+
+    return {
+      title: heading?.trim() || this.firstLine(text) || this.baseName(fileName),
+      content: this.collapse(text),
+      links: Array.from(new Set([...links, ...this.findUrls(markdown)])),
+      metadata: { format: 'markdown', fileName: this.baseName(fileName) },
+    };
+  }
+
+  private parseText(text: string, fileName: string): ParsedDocument {
+    return {
+      title: this.firstLine(text) || this.baseName(fileName),
+      content: this.collapse(text),
+      links: this.findUrls(text),
+      metadata: { format: 'text', fileName: this.baseName(fileName) },
+    };
+  }
+
+  // A short first line usually works as a title; long ones are body text
+  private firstLine(text: string): string | undefined {
+    const line = text.split('\n').map(part => part.trim()).find(Boolean);
+    return line && line.length <= 120 ? line : undefined;
+  }
+
+  private findUrls(text: string): string[] {
+    const urls = text.match(/https?:\/\/[^\s<>"')\]]+/g) || [];
+    return Array.from(new Set(urls.map(url => url.replace(/[.,;:]+$/, ''))));
+  }
+
+  private baseName(fileName: string): string {
+    const path = fileName.split(/[?#]/)[0];
+    try {
+      return decodeURIComponent(path.split('/').pop() || path);
+    } catch {
+      return path.split('/').pop() || path;
+    }
+  }
+
+  private clean(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  private collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  // PDF dates look like D:20240301120000+01'00'
+  private parsePdfDate(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz]|[+-]\d{2}'?\d{2}'?)?/);
+    if (!match) return undefined;
+
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+    const offset = !zone || zone.toUpperCase() === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5)}`;
+    const time = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+}
+
+export const documentParserService = new DocumentParserService();
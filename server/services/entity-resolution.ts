@@ -0,0 +1,504 @@
+import { createHash } from "crypto";
+import { Entity, EntityRejection, InsertEntity } from "@shared/schema";
+import { storage } from "../storage.js";
+
+export interface EntityKey {
+  name: string;
+  type: string;
+}
+
+// One name merged into an entity, with the counts it brought along
+export interface EntityAlias extends EntityKey {
+  frequency: number;
+  documentIds: string[];
+}
+
+export interface ResolutionCandidate {
+  id: string; // the same for the same members, so a client can refer back to it
+  entities: Array<{ id: string; name: string; type: string; frequency: number }>;
+  name: string; // proposed canonical name and type
+  type: string;
+  score: number;
+  reasons: string[];
+}
+
+// The fields resolution reads and writes, shared by stored and pending entities
+interface Mergeable {
+  name: string;
+  type: string;
+  frequency?: number | null;
+  confidence?: number | null;
+  documentIds?: unknown;
+  aliases?: unknown;
+}
+
+interface Merged extends EntityKey {
+  frequency: number;
+  confidence: number | null;
+  documentIds: string[];
+  aliases: EntityAlias[];
+}
+type RelationshipNames = { sourceEntity: string; targetEntity: string };
+
+interface Cluster {
+  members: number[];
+  score: number;
+  reasons: string[];
+}
+
+const AUTO_MERGE_SCORE = 1; // only names equal after normalization, and only within one type
+const SUGGEST_SCORE = 0.75;
+const SIMILAR_SPELLING = 0.92; // Jaro-Winkler similarity of normalized names
+const MAX_BLOCK = 100; // candidates sharing a very common word are not compared through it
+const UNRESOLVED_TYPES = new Set(['DATE']);
+
+const LEGAL_SUFFIXES = new Set('inc incorporated corp corporation co company ltd limited llc plc gmbh ag kg se sa sas sarl spa bv nv'.split(' '));
+const TITLES = new Set('mr mrs ms dr prof sir herr frau mme mlle m'.split(' '));
+const CONNECTORS = new Set('of and the for de du des la le der die das und für'.split(' '));
+
+const keyOf = (entity: EntityKey) => `${entity.type}\u0000${entity.name}`;
+
+export function mentionsOf(entity: Mergeable): EntityAlias[] {
+  const aliases = (entity.aliases as EntityAlias[] | null) || [];
+  if (aliases.length > 0) return aliases;
+  return [{
+    name: entity.name,
+    type: entity.type,
+    frequency: entity.frequency || 1,
+    documentIds: (entity.documentIds as string[]) || [],
+  }];
+}
+
+// Groups mentions of one entity written differently: "IBM", "I.B.M." and
+// "International Business Machines", or one name recognized with two types.
+// Names equal after normalization are merged automatically; anything looser
+// is suggested and left to a person to accept or reject.
+export class EntityResolutionService {
+  // Lowercase words without punctuation, titles or legal form
+  normalize(name: string): string {
+    const words = name.toLowerCase()
+      .replace(/\./g, '')
+      .replace(/&/g, ' and ')
+      .split(/[^a-z0-9ß-öø-ÿœæ]+/)
+      .filter(Boolean);
+
+    while (words.length > 1 && (words[0] === 'the' || TITLES.has(words[0]))) words.shift();
+    while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop();
+    return words.join(' ');
+  }
+
+  // "international business machines" -> "ibm"; null for single words
+  acronym(normalized: string): string | null {
+    const words = normalized.split(' ').filter(word => !CONNECTORS.has(word));
+    return words.length > 1 ? words.map(word => word[0]).join('') : null;
+  }
+
+  jaroWinkler(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a || !b) return 0;
+
+    const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+    const aMatched = new Array(a.length).fill(false);
+    const bMatched = new Array(b.length).fill(false);
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+      for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+        if (bMatched[j] || a[i] !== b[j]) continue;
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+    if (matches === 0) return 0;
+
+    let transpositions = 0;
+    for (let i = 0, j = 0; i < a.length; i++) {
+      if (!aMatched[i]) continue;
+      while (!bMatched[j]) j++;
+      if (a[i] !== b[j]) transpositions++;
+      j++;
+    }
+
+    const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+    let prefix = 0;
+    while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+    return jaro + prefix * 0.1 * (1 - jaro);
+  }
+
+  // Stored entities that look like one entity, best first
+  async suggest(projectId: string): Promise<ResolutionCandidate[]> {
+    const entities = await storage.getEntitiesByProject(projectId);
+    const relationships = await storage.getRelationshipsByProject(projectId);
+    const rejections = await storage.getEntityRejections(projectId);
+
+    return this.cluster(entities, relationships, rejections, false)
+      .map(cluster => {
+        const members = cluster.members.map(index => entities[index]);
+        const canonical = this.combine(members);
+        return {
+          id: createHash('sha1').update(members.map(entity => entity.id).sort().join(',')).digest('hex').slice(0, 16),
+          entities: members.map(({ id, name, type, frequency }) => ({ id, name, type, frequency: frequency || 1 })),
+          name: canonical.name,
+          type: canonical.type,
+          score: Math.round(cluster.score * 100) / 100,
+          reasons: cluster.reasons,
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Merges what is safe to merge without asking; returns how many entities went away
+  async resolve(projectId: string): Promise<number> {
+    const entities = await storage.getEntitiesByProject(projectId);
+    const relationships = await storage.getRelationshipsByProject(projectId);
+    const rejections = await storage.getEntityRejections(projectId);
+
+    let merged = 0;
+    for (const cluster of this.cluster(entities, relationships, rejections, true)) {
+      await this.mergeEntities(cluster.members.map(index => entities[index]));
+      merged += cluster.members.length - 1;
+    }
+    return merged;
+  }
+
+  // The same for entities that are not stored yet, e.g. a reprocessing result
+  resolvePending(entities: InsertEntity[], relationships: RelationshipNames[], rejections: EntityRejection[]): InsertEntity[] {
+    const clusters = this.cluster(entities, relationships, rejections, true);
+    const clustered = new Set(clusters.flatMap(cluster => cluster.members));
+    return [
+      ...entities.filter((_, index) => !clustered.has(index)),
+      ...clusters.map(cluster => {
+        const members = cluster.members.map(index => entities[index]);
+        return { ...members[0], ...this.combine(members) };
+      }),
+    ];
+  }
+
+  // Undefined when an entity is missing or belongs to another project
+  async merge(projectId: string, entityIds: string[], canonical: Partial<EntityKey> = {}): Promise<Entity | undefined> {
+    const entities = await Promise.all(Array.from(new Set(entityIds)).map(id => storage.getEntity(id)));
+    if (entities.some(entity => !entity || entity.projectId !== projectId)) return undefined;
+    return this.mergeEntities(entities as Entity[], canonical);
+  }
+
+  async reject(projectId: string, entityIds: string[]): Promise<EntityRejection | undefined> {
+    const entities = await Promise.all(Array.from(new Set(entityIds)).map(id => storage.getEntity(id)));
+    if (entities.some(entity => !entity || entity.projectId !== projectId)) return undefined;
+
+    return storage.createEntityRejection({
+      projectId,
+      groups: (entities as Entity[]).map(entity => mentionsOf(entity).map(({ name, type }) => ({ name, type }))),
+    });
+  }
+
+  // Null when the names can be split off, otherwise what is wrong
+  validateSplit(entity: Entity, names: EntityKey[]): string | null {
+    const mentions = mentionsOf(entity);
+    const keys = new Set(mentions.map(keyOf));
+    const unknown = names.find(name => !keys.has(keyOf(name)));
+    if (unknown) {
+      return `"${unknown.name}" (${unknown.type}) is not an alias of ${entity.name}`;
+    }
+    if (new Set(names.map(keyOf)).size >= mentions.length) {
+      return 'At least one alias has to stay';
+    }
+    return null;
+  }
+
+  // Turns aliases back into entities of their own and remembers that they
+  // are distinct from the rest
+  async split(entity: Entity, names: EntityKey[]): Promise<{ entity: Entity; created: Entity[] }> {
+    const splitKeys = new Set(names.map(keyOf));
+    const mentions = mentionsOf(entity);
+    const splitOff = mentions.filter(mention => splitKeys.has(keyOf(mention)));
+    const remaining = mentions.filter(mention => !splitKeys.has(keyOf(mention)));
+
+    const created: Entity[] = [];
+    for (const mention of splitOff) {
+      created.push(await storage.createEntity({
+        projectId: entity.projectId,
+        name: mention.name,
+        type: mention.type,
+        frequency: mention.frequency,
+        confidence: entity.confidence,
+        documentIds: mention.documentIds,
+        aliases: [],
+      }));
+    }
+
+    const keepsName = remaining.some(mention => mention.name === entity.name);
+    const rest = this.combine(
+      remaining.map(mention => ({ ...mention, confidence: entity.confidence, aliases: [] })),
+      keepsName ? { name: entity.name, type: entity.type } : {}
+    );
+    const updated = await storage.updateEntity(entity.id, rest);
+
+    await storage.createEntityRejection({
+      projectId: entity.projectId,
+      groups: [splitOff, remaining].map(group => group.map(({ name, type }) => ({ name, type }))),
+    });
+    return { entity: updated || entity, created };
+  }
+
+  // Entities merged before a reprocessing run stay merged after it
+  reapplyMerges(entities: InsertEntity[], previous: Entity[]): InsertEntity[] {
+    const byKey = new Map(entities.map((entity, index) => [keyOf(entity), index]));
+    const used = new Set<number>();
+    const merged: InsertEntity[] = [];
+
+    previous.forEach(entity => {
+      const aliases = (entity.aliases as EntityAlias[] | null) || [];
+      if (aliases.length === 0) return;
+
+      const members = aliases
+        .map(alias => byKey.get(keyOf(alias)))
+        .filter((index): index is number => index !== undefined && !used.has(index));
+      if (members.length === 0) return;
+
+      members.forEach(index => used.add(index));
+      const group = members.map(index => entities[index]);
+      merged.push({ ...group[0], ...this.combine(group, { name: entity.name, type: entity.type }) });
+    });
+
+    return [...entities.filter((_, index) => !used.has(index)), ...merged];
+  }
+
+  // Stored entity a new mention belongs to, by its name or one of its aliases
+  findEntity<T extends Mergeable>(entities: T[], name: string, type: string): T | undefined {
+    return entities.find(entity => entity.name === name && entity.type === type)
+      || entities.find(entity => ((entity.aliases as EntityAlias[] | null) || [])
+        .some(alias => alias.name === name && alias.type === type));
+  }
+
+  // Counts one more mention of an entity, on the alias it was found under
+  addMention(entity: Entity, name: string, type: string, documentId: string, confidence?: number): Partial<Entity> {
+    const updates: Partial<Entity> = {
+      frequency: (entity.frequency || 1) + 1,
+      confidence: Math.max(entity.confidence || 0, confidence || 0),
+      documentIds: [...(entity.documentIds as string[] || []), documentId],
+    };
+
+    const aliases = (entity.aliases as EntityAlias[] | null) || [];
+    if (aliases.length > 0) {
+      const found = aliases.some(alias => alias.name === name && alias.type === type);
+      updates.aliases = found
+        ? aliases.map(alias => alias.name === name && alias.type === type
+          ? { ...alias, frequency: alias.frequency + 1, documentIds: [...alias.documentIds, documentId] }
+          : alias)
+        : [...aliases, { name, type, frequency: 1, documentIds: [documentId] }];
+    }
+    return updates;
+  }
+
+  // Takes back the mentions a document contributed; null when nothing is left
+  removeDocument(entity: Entity, documentId: string): Partial<Entity> | null | undefined {
+    const documentIds = (entity.documentIds as string[]) || [];
+    const remaining = documentIds.filter(id => id !== documentId);
+    if (remaining.length === documentIds.length) return undefined;
+
+    const frequency = (entity.frequency || 1) - (documentIds.length - remaining.length);
+    if (frequency <= 0 || remaining.length === 0) return null;
+
+    const aliases = ((entity.aliases as EntityAlias[] | null) || [])
+      .map(alias => {
+        const kept = alias.documentIds.filter(id => id !== documentId);
+        return { ...alias, frequency: alias.frequency - (alias.documentIds.length - kept.length), documentIds: kept };
+      })
+      .filter(alias => alias.frequency > 0 && alias.documentIds.length > 0);
+    return { frequency, documentIds: remaining, aliases };
+  }
+
+  // Alias name -> canonical name, for relationships that still use the alias
+  canonicalNames(entities: Entity[]): Map<string, string> {
+    const names = new Map<string, string>();
+    entities.forEach(entity => {
+      ((entity.aliases as EntityAlias[] | null) || []).forEach(alias => {
+        if (alias.name !== entity.name) names.set(alias.name, entity.name);
+      });
+    });
+    return names;
+  }
+
+  private async mergeEntities(entities: Entity[], canonical: Partial<EntityKey> = {}): Promise<Entity | undefined> {
+    // The most mentioned entity keeps its id
+    const [kept, ...others] = [...entities].sort((a, b) => (b.frequency || 1) - (a.frequency || 1));
+    const updated = await storage.updateEntity(kept.id, this.combine(entities, canonical));
+    for (const other of others) {
+      await storage.deleteEntity(other.id);
+    }
+    return updated;
+  }
+
+  private combine(members: Mergeable[], canonical: Partial<EntityKey> = {}): Merged {
+    const mentions = new Map<string, EntityAlias>();
+    members.flatMap(mentionsOf).forEach(mention => {
+      const existing = mentions.get(keyOf(mention));
+      mentions.set(keyOf(mention), existing
+        ? { ...existing, frequency: existing.frequency + mention.frequency, documentIds: [...existing.documentIds, ...mention.documentIds] }
+        : { ...mention, documentIds: [...mention.documentIds] });
+    });
+    const aliases = Array.from(mentions.values());
+
+    const typeCounts = new Map<string, number>();
+    aliases.forEach(alias => typeCounts.set(alias.type, (typeCounts.get(alias.type) || 0) + alias.frequency));
+    const [bestName] = [...aliases].sort((a, b) => b.frequency - a.frequency || b.name.length - a.name.length);
+    const [[bestType]] = Array.from(typeCounts.entries()).sort((a, b) => b[1] - a[1]);
+
+    return {
+      name: canonical.name || bestName.name,
+      type: canonical.type || bestType,
+      frequency: aliases.reduce((sum, alias) => sum + alias.frequency, 0),
+      confidence: Math.max(...members.map(member => member.confidence || 0)) || null,
+      documentIds: aliases.flatMap(alias => alias.documentIds),
+      aliases: aliases.length > 1 || aliases[0].name !== (canonical.name || bestName.name) ? aliases : [],
+    };
+  }
+
+  private cluster(entities: Mergeable[], relationships: RelationshipNames[], rejections: EntityRejection[], auto: boolean): Cluster[] {
+    const profiles = entities.map(entity => {
+      const mentions = mentionsOf(entity);
+      const normalized = Array.from(new Set(mentions.map(mention => this.normalize(mention.name)).filter(Boolean)));
+      return {
+        type: entity.type,
+        keys: mentions.map(keyOf),
+        names: new Set(mentions.map(mention => mention.name)),
+        normalized,
+        acronyms: new Set(normalized.map(name => this.acronym(name)).filter((acronym): acronym is string => !!acronym)),
+        documents: new Set((entity.documentIds as string[]) || []),
+      };
+    });
+
+    // Entities each name is related to, for comparing context
+    const neighbors = new Map<string, Set<string>>();
+    relationships.forEach(({ sourceEntity, targetEntity }) => {
+      if (!neighbors.has(sourceEntity)) neighbors.set(sourceEntity, new Set());
+      if (!neighbors.has(targetEntity)) neighbors.set(targetEntity, new Set());
+      neighbors.get(sourceEntity)!.add(targetEntity);
+      neighbors.get(targetEntity)!.add(sourceEntity);
+    });
+    const neighborsOf = (names: Set<string>) => {
+      const found = new Set<string>();
+      names.forEach(name => neighbors.get(name)?.forEach(neighbor => { if (!names.has(neighbor)) found.add(neighbor); }));
+      return found;
+    };
+    const contexts = profiles.map(profile => neighborsOf(profile.names));
+
+    // Only entities sharing a normalized name, an acronym, a word or a prefix are compared
+    const blocks = new Map<string, number[]>();
+    const addToBlock = (key: string, index: number) => {
+      const block = blocks.get(key) || [];
+      if (block[block.length - 1] !== index) block.push(index);
+      blocks.set(key, block);
+    };
+    profiles.forEach((profile, index) => {
+      if (UNRESOLVED_TYPES.has(profile.type)) return;
+      profile.normalized.forEach(name => {
+        addToBlock(`n:${name}`, index);
+        addToBlock(`p:${name.slice(0, 3)}`, index);
+        if (!auto) name.split(' ').filter(word => word.length > 2).forEach(word => addToBlock(`w:${word}`, index));
+      });
+      profile.acronyms.forEach(acronym => addToBlock(`n:${acronym}`, index));
+    });
+
+    const pairs = new Map<string, { a: number; b: number; score: number; reason: string }>();
+    Array.from(blocks.values()).forEach(block => {
+      if (block.length < 2 || block.length > MAX_BLOCK) return;
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const [a, b] = block[i] < block[j] ? [block[i], block[j]] : [block[j], block[i]];
+          const pairKey = `${a}:${b}`;
+          if (pairs.has(pairKey)) continue;
+
+          const match = this.compareNames(profiles[a], profiles[b]);
+          if (!match) continue;
+          if (auto && (match.score < AUTO_MERGE_SCORE || profiles[a].type !== profiles[b].type)) continue;
+
+          const context = Math.max(
+            this.overlap(profiles[a].documents, profiles[b].documents),
+            this.overlap(contexts[a], contexts[b])
+          );
+          const score = match.score + (1 - match.score) * context * 0.5;
+          if (score < SUGGEST_SCORE) continue;
+
+          const reason = context > 0 ? `${match.reason}, shared context` : match.reason;
+          pairs.set(pairKey, { a, b, score, reason });
+        }
+      }
+    });
+
+    // Greedy union of the best pairs, never joining two sides of a rejection
+    const clusterOf = entities.map((_, index) => index);
+    const clusters = new Map<number, Cluster>(entities.map((_, index) => [index, { members: [index], score: 1, reasons: [] }]));
+    Array.from(pairs.values())
+      .sort((x, y) => y.score - x.score)
+      .forEach(({ a, b, score, reason }) => {
+        const [leftRoot, rightRoot] = [clusterOf[a], clusterOf[b]];
+        if (leftRoot === rightRoot) return;
+        const left = clusters.get(leftRoot)!;
+        const right = clusters.get(rightRoot)!;
+        const keysOf = (cluster: Cluster) => cluster.members.flatMap(index => profiles[index].keys);
+        if (this.apart(keysOf(left), keysOf(right), rejections)) return;
+
+        right.members.forEach(index => { clusterOf[index] = leftRoot; });
+        left.members.push(...right.members);
+        left.score = Math.min(left.score, right.score, score);
+        left.reasons = Array.from(new Set([...left.reasons, ...right.reasons, reason]));
+        clusters.delete(rightRoot);
+      });
+
+    return Array.from(new Set(clusterOf)).map(index => clusters.get(index)!).filter(cluster => cluster.members.length > 1);
+  }
+
+  private compareNames(
+    a: { type: string; normalized: string[]; acronyms: Set<string> },
+    b: { type: string; normalized: string[]; acronyms: Set<string> }
+  ): { score: number; reason: string } | null {
+    const sameType = a.type === b.type;
+    if (a.normalized.some(name => b.normalized.includes(name))) {
+      return { score: 1, reason: sameType ? 'same name after normalization' : `same name as ${a.type} and ${b.type}` };
+    }
+    // Different types only ever match on the same name
+    if (!sameType) return null;
+
+    if (a.normalized.some(name => b.acronyms.has(name)) || b.normalized.some(name => a.acronyms.has(name))) {
+      return { score: 0.9, reason: 'acronym' };
+    }
+
+    // "Page 2" and "Page 3" are spelled alike but are not the same
+    const digits = (name: string) => name.replace(/[^0-9]/g, '');
+    let best = 0;
+    a.normalized.forEach(x => b.normalized.forEach(y => {
+      if (digits(x) === digits(y)) best = Math.max(best, this.jaroWinkler(x, y));
+    }));
+    if (best >= SIMILAR_SPELLING) {
+      return { score: best, reason: 'similar spelling' };
+    }
+
+    // "Smith" and "John Smith"
+    const contained = a.normalized.some(x => b.normalized.some(y => {
+      const [shorter, longer] = x.length < y.length ? [x, y] : [y, x];
+      const words = longer.split(' ');
+      return shorter.length > 2 && !shorter.includes(' ') && words.length > 1 && words.includes(shorter);
+    }));
+    return contained ? { score: SUGGEST_SCORE, reason: 'shorter form of the name' } : null;
+  }
+
+  private overlap(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(value => { if (b.has(value)) shared++; });
+    return shared / (a.size + b.size - shared);
+  }
+
+  private apart(left: string[], right: string[], rejections: EntityRejection[]): boolean {
+    return rejections.some(rejection => {
+      const groups = (rejection.groups as EntityKey[][]).map(group => new Set(group.map(keyOf)));
+      const groupsOf = (keys: string[]) => groups.map((group, index) => keys.some(key => group.has(key)) ? index : -1).filter(index => index >= 0);
+      const leftGroups = groupsOf(left);
+      const rightGroups = groupsOf(right);
+      return leftGroups.some(x => rightGroups.some(y => x !== y));
+    });
+  }
+}
+
+export const entityResolutionService = new EntityResolutionService();
@@ -0,0 +1,421 @@
+import { Feed, FeedConfig, Project } from "@shared/schema";
+import * as cheerio from "cheerio";
+import type { AnyNode } from "domhandler";
+import { storage } from "../storage.js";
+import { scraperService } from "./scraper.js";
+import { robotsService } from "./robots.js";
+import { contentExtractor } from "./content-extractor.js";
+import { documentIndexService } from "./document-index.js";
+import { entityResolutionService } from "./entity-resolution.js";
+import { nearDuplicateService } from "./near-duplicates.js";
+import { languageService } from "./language.js";
+import { RetryPolicy, ScrapeError, withRetry } from "./retry.js";
+import { UrlFilter } from "./url-filter.js";
+
+type Broadcast = (message: any) => void;
+
+export interface FeedItem {
+  id: string;
+  url?: string;
+  title: string;
+  html?: string; // full item body when the feed carries one
+  summary?: string;
+  author?: string;
+  publishedAt?: string;
+}
+
+export interface ParsedFeed {
+  title?: string;
+  items: FeedItem[];
+}
+
+// The fields of https://www.jsonfeed.org/version/1.1/ that are read
+interface JsonFeed {
+  title?: string;
+  items: JsonFeedItem[];
+}
+
+interface JsonFeedItem {
+  id?: string;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+  authors: JsonFeedAuthor[];
+  author?: JsonFeedAuthor; // version 1.0
+}
+
+interface JsonFeedAuthor {
+  name?: string;
+}
+
+const CHECK_INTERVAL = 60 * 1000; // how often due feeds are looked for
+const MAX_SEEN_ITEMS = 2000;
+const MIN_FULL_TEXT_WORDS = 150; // shorter item bodies are treated as summaries
+
+const FEED_RETRY_POLICY: RetryPolicy = { maxRetries: 2, baseDelay: 2000, maxDelay: 30000 };
+
+// Polls RSS, Atom and JSON Feed sources and ingests new items as documents
+export class FeedMonitorService {
+  private broadcast: Broadcast = () => {};
+  private timer?: NodeJS.Timeout;
+  private polling: Set<string> = new Set(); // feed ids with a poll in progress
+
+  setBroadcast(broadcast: Broadcast): void {
+    this.broadcast = broadcast;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.pollDueInBackground(), CHECK_INTERVAL);
+    this.timer.unref();
+    this.pollDueInBackground();
+  }
+
+  async createProject(config: FeedConfig): Promise<Project> {
+    const domain = scraperService.getDomain(config.feedUrls[0]);
+    const project = await storage.createProject({
+      name: config.name || `Feeds ${domain}`,
+      baseUrl: config.feedUrls[0],
+      domain,
+      sourceType: 'feed',
+      status: 'monitoring',
+      nlpOptions: {
+        extractEntities: config.extractEntities,
+        buildRelationships: config.buildRelationships
+      }
+    });
+
+    for (const url of Array.from(new Set(config.feedUrls))) {
+      await storage.createFeed({
+        projectId: project.id,
+        url,
+        pollInterval: config.pollInterval,
+        followLinks: config.followLinks,
+      });
+    }
+
+    // The first poll runs in the background; the project is usable right away
+    this.pollProject(project.id)
+      .catch(error => console.error(`Failed to poll the feeds of project ${project.id}:`, error));
+    return project;
+  }
+
+  async pollProject(projectId: string): Promise<number> {
+    let added = 0;
+    for (const feed of await storage.getFeedsByProject(projectId)) {
+      added += await this.poll(feed);
+    }
+    return added;
+  }
+
+  private pollDueInBackground(): void {
+    this.pollDue().catch(error => console.error('Failed to poll due feeds:', error));
+  }
+
+  private async pollDue(): Promise<void> {
+    const now = Date.now();
+    const feeds = await storage.getFeedsByStatus('active');
+    for (const feed of feeds) {
+      const lastPolled = feed.lastPolledAt ? new Date(feed.lastPolledAt).getTime() : 0;
+      if (now - lastPolled >= feed.pollInterval * 60 * 1000) {
+        await this.poll(feed);
+      }
+    }
+  }
+
+  // Returns the number of new documents
+  async poll(feed: Feed): Promise<number> {
+    if (this.polling.has(feed.id)) return 0;
+    this.polling.add(feed.id);
+
+    try {
+      const project = feed.projectId ? await storage.getProject(feed.projectId) : undefined;
+      if (!project) {
+        await storage.updateFeed(feed.id, { status: 'paused' });
+        return 0;
+      }
+
+      const headers: Record<string, string> = {
+        ...scraperService.HEADERS,
+        Accept: 'application/rss+xml, application/atom+xml, application/feed+json, application/json;q=0.9, application/xml;q=0.8, */*;q=0.5',
+      };
+      if (feed.etag) headers['If-None-Match'] = feed.etag;
+      if (feed.lastModified) headers['If-Modified-Since'] = feed.lastModified;
+
+      const response = await withRetry(async () => {
+        const result = await fetch(feed.url, { headers, signal: AbortSignal.timeout(15000) });
+        if (!result.ok && result.status !== 304) throw ScrapeError.fromResponse(result);
+        return result;
+      }, FEED_RETRY_POLICY);
+
+      if (response.status === 304) {
+        await storage.updateFeed(feed.id, { lastPolledAt: new Date(), lastError: null });
+        return 0;
+      }
+
+      const parsed = this.parse(await response.text(), response.headers.get('content-type'));
+      const seen = new Set((feed.seenItems as string[]) || []);
+
+      // Oldest first, so documents are created in publication order
+      const fresh = parsed.items.filter(item => !seen.has(item.id)).reverse();
+      let added = 0;
+      // Ingested or deliberately skipped; items that failed are tried again next poll
+      const handled: string[] = [];
+      for (const item of fresh) {
+        try {
+          if (await this.ingestItem(project, feed, parsed.title, item)) added++;
+          handled.push(item.id);
+        } catch (error) {
+          console.error(`Failed to ingest feed item ${item.url || item.id}:`, error);
+        }
+      }
+      const failed = fresh.length - handled.length;
+
+      if (added > 0) await entityResolutionService.resolve(project.id);
+
+      await storage.updateFeed(feed.id, {
+        title: parsed.title || feed.title,
+        // Without validators the next poll gets the full feed, not a 304, and retries the failed items
+        etag: failed > 0 ? null : response.headers.get('etag'),
+        lastModified: failed > 0 ? null : response.headers.get('last-modified'),
+        seenItems: [...handled.reverse(), ...Array.from(seen)].slice(0, MAX_SEEN_ITEMS),
+        itemCount: (feed.itemCount || 0) + added,
+        lastPolledAt: new Date(),
+        lastError: null,
+      });
+
+      const current = await storage.getProject(project.id);
+      await storage.updateProject(project.id, {
+        totalUrls: (current?.totalUrls || 0) + handled.length,
+        processedUrls: (current?.processedUrls || 0) + handled.length,
+        successfulUrls: (current?.successfulUrls || 0) + added,
+      });
+
+      this.broadcast({
+        type: 'feed_polled',
+        projectId: project.id,
+        feedUrl: feed.url,
+        newItems: added
+      });
+      return added;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to poll feed ${feed.url}:`, error);
+      await storage.updateFeed(feed.id, { lastPolledAt: new Date(), lastError: message });
+      this.broadcast({
+        type: 'feed_error',
+        projectId: feed.projectId,
+        feedUrl: feed.url,
+        error: message
+      });
+      return 0;
+    } finally {
+      this.polling.delete(feed.id);
+    }
+  }
+
+  private async ingestItem(project: Project, feed: Feed, feedTitle: string | undefined, item: FeedItem): Promise<boolean> {
+    const urlFilter = new UrlFilter(project.domain);
+    const itemUrl = item.url ? urlFilter.normalize(item.url, feed.url) : null;
+    const url = itemUrl || `${feed.url}#${encodeURIComponent(item.id)}`;
+
+    // The same story often shows up in more than one feed
+    if (await storage.getDocumentByUrl(project.id, url)) return false;
+
+    const feedInfo = { url: feed.url, title: feedTitle, itemId: item.id };
+    let title = item.title;
+    let content = item.html ? contentExtractor.extract(item.html) : '';
+    let links: string[] = [];
+    let images: string[] = [];
+    let metadata: Record<string, unknown> = {
+      format: 'feed',
+      author: item.author,
+      publishedAt: item.publishedAt,
+    };
+
+    const isSummary = content.split(' ').length < MIN_FULL_TEXT_WORDS;
+    if (isSummary && feed.followLinks && itemUrl && await robotsService.isAllowed(itemUrl, scraperService.HEADERS)) {
+      try {
+        const page = await scraperService.scrapePage(itemUrl, 0, scraperService.getDomain(itemUrl), feedTitle || 'feed');
+        title = title || page.title;
+        content = page.content;
+        links = page.links;
+        images = page.images;
+        metadata = {
+          ...page.metadata,
+          author: page.metadata?.author || item.author,
+          publishedAt: page.metadata?.publishedAt || item.publishedAt,
+        };
+      } catch (error) {
+        // Keep whatever text the feed itself had
+        console.warn(`Could not fetch feed item ${itemUrl}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (!content && item.summary) {
+      content = contentExtractor.extract(`<html><body>${item.summary}</body></html>`);
+    }
+    if (!content) return false;
+
+    const created = await storage.createDocument({
+      projectId: project.id,
+      url,
+      title: title || url,
+      content,
+      wordCount: content.split(' ').length,
+      depth: 0,
+      category: feedTitle || 'feed',
+      language: languageService.detect(content, metadata.language as string | undefined),
+      links,
+      images,
+      metadata: { ...metadata, feed: feedInfo },
+      entities: [],
+      relationships: []
+    });
+    const document = await nearDuplicateService.check(project.id, created);
+
+    const nlpOptions = (project.nlpOptions || {}) as { extractEntities?: boolean; buildRelationships?: boolean };
+    if (nlpOptions.extractEntities || nlpOptions.buildRelationships) {
+      await documentIndexService.index(project.id, document);
+    }
+
+    this.broadcast({
+      type: 'document_processed',
+      projectId: project.id,
+      document: {
+        id: document.id,
+        title: document.title,
+        url: document.url,
+        entityCount: document.wordCount
+      }
+    });
+    return true;
+  }
+
+  parse(body: string, contentType?: string | null): ParsedFeed {
+    const trimmed = body.trim();
+    if ((contentType || '').includes('json') || trimmed.startsWith('{')) {
+      return this.parseJsonFeed(this.toJsonFeed(JSON.parse(trimmed)));
+    }
+    return this.parseXmlFeed(trimmed);
+  }
+
+  // RSS 2.0, RSS 1.0 (RDF) and Atom
+  private parseXmlFeed(xml: string): ParsedFeed {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const items: FeedItem[] = [];
+
+    const isAtom = $('feed').length > 0;
+    if (isAtom) {
+      $('feed > entry').each((_, element) => {
+        const entry = $(element);
+        const link = entry.children('link[rel="alternate"]').attr('href')
+          || entry.children('link:not([rel])').attr('href')
+          || entry.children('link').attr('href');
+        const title = entry.children('title').text().trim();
+        const id = entry.children('id').text().trim() || link || title;
+        if (!id) return;
+
+        items.push({
+          id,
+          url: link,
+          title,
+          html: this.text(entry.children('content')),
+          summary: this.text(entry.children('summary')),
+          author: entry.children('author').children('name').first().text().trim() || undefined,
+          publishedAt: this.toDate(entry.children('published').text() || entry.children('updated').text()),
+        });
+      });
+
+      return { title: $('feed > title').first().text().trim() || undefined, items };
+    }
+
+    $('item').each((_, element) => {
+      const item = $(element);
+      const link = item.children('link').text().trim() || item.attr('rdf:about');
+      const title = item.children('title').text().trim();
+      const guid = item.children('guid').text().trim();
+      const published = item.children('pubDate').text() || item.children('dc\\:date').text();
+      const id = guid || link || `${title}|${published}`;
+      if (!id || id === '|') return;
+
+      items.push({
+        id,
+        url: link || (item.children('guid').attr('isPermaLink') !== 'false' && /^https?:/.test(guid) ? guid : undefined),
+        title,
+        html: this.text(item.children('content\\:encoded')),
+        summary: this.text(item.children('description')),
+        author: item.children('dc\\:creator').first().text().trim() || item.children('author').text().trim() || undefined,
+        publishedAt: this.toDate(published),
+      });
+    });
+
+    return { title: $('channel > title').first().text().trim() || undefined, items };
+  }
+
+  private parseJsonFeed(feed: JsonFeed): ParsedFeed {
+    const items = feed.items.flatMap<FeedItem>(item => {
+      const id = item.id ?? (item.url || undefined);
+      if (id === undefined) return [];
+      return [{
+        id,
+        url: item.url || item.external_url,
+        title: item.title || '',
+        html: item.content_html || (item.content_text ? `<p>${this.escape(item.content_text)}</p>` : undefined),
+        summary: item.summary,
+        author: item.authors[0]?.name || item.author?.name,
+        publishedAt: this.toDate(item.date_published || item.date_modified),
+      }];
+    });
+
+    return { title: feed.title, items };
+  }
+
+  // Keeps the fields that have the expected type and drops everything else
+  private toJsonFeed(value: unknown): JsonFeed {
+    const isObject = (input: unknown): input is Record<string, unknown> =>
+      typeof input === 'object' && input !== null && !Array.isArray(input);
+    const string = (input: unknown) => typeof input === 'string' ? input : undefined;
+    const author = (input: Record<string, unknown>): JsonFeedAuthor => ({ name: string(input.name) });
+
+    const feed = isObject(value) ? value : {};
+    return {
+      title: string(feed.title),
+      items: (Array.isArray(feed.items) ? feed.items : []).filter(isObject).map(item => ({
+        // Numeric ids are allowed by version 1.0
+        id: typeof item.id === 'number' ? String(item.id) : string(item.id),
+        url: string(item.url),
+        external_url: string(item.external_url),
+        title: string(item.title),
+        content_html: string(item.content_html),
+        content_text: string(item.content_text),
+        summary: string(item.summary),
+        date_published: string(item.date_published),
+        date_modified: string(item.date_modified),
+        authors: (Array.isArray(item.authors) ? item.authors : []).filter(isObject).map(author),
+        author: isObject(item.author) ? author(item.author) : undefined,
+      })),
+    };
+  }
+
+  private text(element: cheerio.Cheerio<AnyNode>): string | undefined {
+    return element.first().text().trim() || undefined;
+  }
+
+  private toDate(value?: string): string | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(value.trim());
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
+
+export const feedMonitorService = new FeedMonitorService();
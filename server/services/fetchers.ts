@@ -0,0 +1,186 @@
+import type { Browser, BrowserContext } from "playwright-core";
+import { Cookie, CrawlSession } from "./crawl-session.js";
+import { ScrapeError } from "./retry.js";
+
+export interface FetchRequest {
+  headers: Record<string, string>;
+  timeout: number; // ms
+  session?: CrawlSession; // Cookies and credentials for sites behind a login
+}
+
+// How a crawl gets a page. Fetchers return a plain Response so the scraper
+// treats status codes, validators and bodies the same whichever one ran.
+export interface PageFetcher {
+  readonly name: string;
+  readonly timeout: number; // default ms per page, rendering needs longer than a plain request
+  fetch(url: string, request: FetchRequest): Promise<Response>;
+}
+
+// Plain HTTP requests, the default
+export class HttpFetcher implements PageFetcher {
+  readonly name = 'http';
+  readonly timeout = 10000;
+
+  async fetch(url: string, request: FetchRequest): Promise<Response> {
+    const init = { headers: request.headers, signal: AbortSignal.timeout(request.timeout) };
+    return request.session ? request.session.fetch(url, init) : fetch(url, init);
+  }
+}
+
+const BROWSER_CONCURRENCY = 4; // pages rendered at once, whatever the worker count
+const BROWSER_IDLE_TIMEOUT = 60 * 1000; // the browser is closed after this long without pages
+
+// Renders pages in headless Chromium so client-side apps have their content.
+// Needs playwright-core plus a browser, e.g. `npx playwright install chromium`,
+// or CHROMIUM_PATH pointing at an installed one.
+export class BrowserFetcher implements PageFetcher {
+  readonly name = 'browser';
+  readonly timeout = 30000;
+  private http = new HttpFetcher();
+  private browser?: Promise<Browser>;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private idleTimer?: NodeJS.Timeout;
+
+  async fetch(url: string, request: FetchRequest): Promise<Response> {
+    await this.acquire();
+    try {
+      return await this.render(url, request);
+    } finally {
+      this.release();
+    }
+  }
+
+  private async render(url: string, request: FetchRequest): Promise<Response> {
+    const browser = await this.launch();
+    const { 'User-Agent': userAgent, ...headers } = request.headers;
+    const context = await browser.newContext({ userAgent });
+
+    try {
+      // Credentials and cookies go through the session, which only sends them to the crawled site
+      await context.route('**/*', route => {
+        const requestUrl = route.request().url();
+        const extra = request.session ? request.session.headersFor(requestUrl) : {};
+        route.continue({
+          headers: {
+            ...route.request().headers(),
+            ...(requestUrl === url ? headers : {}),
+            ...extra,
+          },
+        });
+      });
+
+      const page = await context.newPage();
+      const response = await page.goto(url, { waitUntil: 'networkidle', timeout: request.timeout });
+      if (!response) {
+        throw new ScrapeError('network', 'Browser returned no response');
+      }
+
+      // Cookies the page set, by Set-Cookie or script, are sent on the crawl's next requests
+      if (request.session) {
+        await this.syncCookies(context, [url, page.url()], request.session);
+      }
+
+      const responseHeaders = await response.allHeaders();
+      const contentType = responseHeaders['content-type'] || '';
+      const status = response.status();
+
+      // Only documents need rendering; files and conditional responses are passed on as they are
+      const body = status === 304 ? null
+        : /html/i.test(contentType) ? await page.content()
+        : await response.body();
+
+      const rendered = new Response(body, {
+        status,
+        statusText: response.statusText(),
+        // The body is the decoded DOM, not the bytes that were sent
+        headers: Object.entries(responseHeaders)
+          .filter(([name]) => !['content-encoding', 'content-length', 'transfer-encoding'].includes(name)),
+      });
+      Object.defineProperty(rendered, 'url', { value: page.url() });
+      return rendered;
+    } catch (error) {
+      // Chromium downloads files such as PDFs instead of navigating to them
+      if (error instanceof Error && /Download is starting/.test(error.message)) {
+        return this.http.fetch(url, request);
+      }
+      throw this.classify(error);
+    } finally {
+      await context.close().catch(() => {});
+    }
+  }
+
+  private async syncCookies(context: BrowserContext, urls: string[], session: CrawlSession): Promise<void> {
+    const cookies = await context.cookies(urls);
+    session.jar.add(cookies.map((cookie): Cookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      // The browser marks cookies set with a Domain attribute by a leading dot
+      domain: cookie.domain.replace(/^\./, '').toLowerCase(),
+      hostOnly: !cookie.domain.startsWith('.'),
+      path: cookie.path,
+      expires: cookie.expires > 0 ? cookie.expires * 1000 : undefined, // seconds, -1 for session cookies
+      secure: cookie.secure,
+    })));
+  }
+
+  private launch(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = (async () => {
+        try {
+          const { chromium } = await import('playwright-core');
+          return await chromium.launch({
+            headless: true,
+            executablePath: process.env.CHROMIUM_PATH || undefined,
+          });
+        } catch (error) {
+          this.browser = undefined;
+          throw new ScrapeError('network', `Headless browser unavailable: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+        }
+      })();
+    }
+    return this.browser;
+  }
+
+  private classify(error: unknown): ScrapeError {
+    if (error instanceof ScrapeError) return error;
+    const message = error instanceof Error ? error.message.split('\n')[0] : 'Browser error';
+    if ((error as { name?: string })?.name === 'TimeoutError') {
+      return new ScrapeError('timeout', message, { retryable: true });
+    }
+    if (/ERR_NAME_NOT_RESOLVED/.test(message)) {
+      return new ScrapeError('dns', message);
+    }
+    return new ScrapeError('network', message, { retryable: /ERR_CONNECTION_(RESET|REFUSED)|ERR_TIMED_OUT/.test(message) });
+  }
+
+  // The slot is taken before any await, and a released slot is handed straight
+  // to the next waiter, so a new caller can't slip in between the two
+  private acquire(): Promise<void> {
+    clearTimeout(this.idleTimer);
+    if (this.active < BROWSER_CONCURRENCY) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+    this.active--;
+    if (this.active === 0) {
+      this.idleTimer = setTimeout(() => this.close(), BROWSER_IDLE_TIMEOUT);
+      this.idleTimer.unref();
+    }
+  }
+
+  private async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = undefined;
+    if (browser) await (await browser.catch(() => undefined))?.close();
+  }
+}
@@ -0,0 +1,175 @@
+import { ExtractionField, ExtractionRule } from "@shared/schema";
+import * as cheerio from "cheerio";
+import { DOMImplementation } from "@xmldom/xmldom";
+import xpath from "xpath";
+import type { AnyNode } from "domhandler";
+
+export type FieldValue = string | number | boolean | null;
+export type ExtractedValue = FieldValue | FieldValue[] | Record<string, FieldValue | FieldValue[]>[];
+export type ExtractedFields = Record<string, ExtractedValue>;
+
+// A node from either selector engine, or a value an XPath expression computed;
+// all are read through the same helpers
+type MatchedNode =
+  | { kind: 'css'; node: cheerio.Cheerio<AnyNode> }
+  | { kind: 'xpath'; node: Node }
+  | { kind: 'value'; value: string };
+
+// Copies cheerio's parse of a page into a DOM for xpath. select() only
+// matches unprefixed names outside any namespace, which rules out the XHTML
+// namespace an HTML parser gives every element; names stay lower case as the
+// HTML parser left them.
+function toXPathDocument($: cheerio.CheerioAPI): Document {
+  const document = new DOMImplementation().createDocument(null, null);
+  const copy = (source: AnyNode, parent: Node): void => {
+    if ('tagName' in source) {
+      const element = document.createElement(source.tagName);
+      Object.entries(source.attribs).forEach(([name, value]) => element.setAttribute(name, value));
+      source.children.forEach(child => copy(child, element));
+      parent.appendChild(element);
+    } else if ('data' in source) {
+      if (source.type === 'text') parent.appendChild(document.createTextNode(source.data));
+      else if (source.type === 'comment') parent.appendChild(document.createComment(source.data));
+    } else {
+      source.children.forEach(child => copy(child, parent));
+    }
+  };
+  $.root().toArray().forEach(root => copy(root, document));
+  return document;
+}
+
+// Evaluates a project's extraction rules against a page, turning selectors,
+// regex post-processing and type coercion into typed fields on the document
+export class FieldExtractor {
+  private reported = new WeakSet<ExtractionRule>(); // rules of a crawl's config whose failure was logged
+
+  extract(html: string, url: string, rules: ExtractionRule[]): ExtractedFields {
+    if (rules.length === 0) return {};
+
+    const $ = cheerio.load(html);
+    // Only build a second DOM when some rule actually needs XPath
+    const xmlDocument = rules.some(rule => rule.selectorType === 'xpath') ? toXPathDocument($) : null;
+
+    const fields: ExtractedFields = {};
+    for (const rule of rules) {
+      try {
+        const nodes = rule.selectorType === 'xpath'
+          ? this.selectXPath(rule.selector, xmlDocument)
+          : this.selectCss($, rule.selector, $.root());
+
+        fields[rule.name] = rule.fields?.length
+          ? nodes.map(node => this.extractRecord($, node, rule.fields!, url))
+          : this.collect(nodes.map(node => this.value(node, rule, url)), rule.multiple);
+      } catch (error) {
+        // A broken selector or pattern only loses its own field. It fails on
+        // every page, so it is logged once per crawl.
+        if (!this.reported.has(rule)) {
+          this.reported.add(rule);
+          console.warn(`Extraction rule "${rule.name}" failed on ${url}, not logged again for this crawl:`, error instanceof Error ? error.message : error);
+        }
+        fields[rule.name] = rule.multiple || rule.fields?.length ? [] : null;
+      }
+    }
+    return fields;
+  }
+
+  // One object per matched row, with sub-fields selected relative to the row
+  private extractRecord(
+    $: cheerio.CheerioAPI,
+    row: MatchedNode,
+    fields: Omit<ExtractionField, 'selectorType'>[],
+    url: string
+  ): Record<string, FieldValue | FieldValue[]> {
+    const record: Record<string, FieldValue | FieldValue[]> = {};
+    for (const field of fields) {
+      const nodes = row.kind === 'css'
+        ? this.selectCss($, field.selector, row.node)
+        : row.kind === 'xpath' ? this.selectXPath(field.selector, row.node) : [];
+      record[field.name] = this.collect(nodes.map(node => this.value(node, field, url)), field.multiple);
+    }
+    return record;
+  }
+
+  private selectCss($: cheerio.CheerioAPI, selector: string, context: cheerio.Cheerio<AnyNode>): MatchedNode[] {
+    return context.find(selector).toArray().map(element => ({ kind: 'css' as const, node: $(element) }));
+  }
+
+  // XPath may also select attributes or compute a value, e.g. string(//h1)
+  private selectXPath(expression: string, context: Node | null): MatchedNode[] {
+    if (!context) return [];
+    const result = xpath.select(expression, context);
+    if (xpath.isArrayOfNodes(result)) return result.map(node => ({ kind: 'xpath' as const, node }));
+    if (xpath.isNodeLike(result)) return [{ kind: 'xpath', node: result }];
+
+    const value = result === null ? '' : String(result);
+    return value ? [{ kind: 'value', value }] : [];
+  }
+
+  private collect(values: FieldValue[], multiple: boolean): FieldValue | FieldValue[] {
+    const present = values.filter((value): value is Exclude<FieldValue, null> => value !== null);
+    return multiple ? present : present[0] ?? null;
+  }
+
+  private value(matched: MatchedNode, field: Omit<ExtractionField, 'selectorType'>, url: string): FieldValue {
+    let raw = this.read(matched, field.attribute);
+    if (raw === null) return null;
+
+    if (field.regex) {
+      const match = raw.match(new RegExp(field.regex));
+      if (!match) return null;
+      raw = match[1] ?? match[0];
+    }
+
+    return this.coerce(raw.trim(), field.type, url);
+  }
+
+  private read(matched: MatchedNode, attribute?: string): string | null {
+    if (matched.kind === 'css') {
+      if (attribute === 'html') return matched.node.html();
+      if (attribute) return matched.node.attr(attribute) ?? null;
+      return matched.node.text().replace(/\s+/g, ' ');
+    }
+
+    if (matched.kind === 'value') return matched.value;
+
+    const node = matched.node;
+    if (xpath.isAttribute(node)) return node.value; // attribute selected by the expression itself
+    if (attribute === 'html') return Array.from(node.childNodes).map(child => child.toString()).join('');
+    if (attribute) return xpath.isElement(node) && node.hasAttribute(attribute) ? node.getAttribute(attribute) : null;
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+
+  private coerce(raw: string, type: ExtractionField['type'], url: string): FieldValue {
+    if (!raw) return null;
+    switch (type) {
+      case 'string':
+        return raw;
+      case 'number':
+      case 'integer': {
+        // Tolerates currency symbols and thousands separators: "$1,299.00"
+        const cleaned = raw.replace(/[^\d.,-]/g, '');
+        const normalized = /,\d{1,2}$/.test(cleaned) && cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+          ? cleaned.replace(/\./g, '').replace(',', '.') // 1.299,00 style
+          : cleaned.replace(/,/g, '');
+        const number = parseFloat(normalized);
+        if (isNaN(number)) return null;
+        return type === 'integer' ? Math.trunc(number) : number;
+      }
+      case 'boolean':
+        return /^(true|yes|1|on|in stock|instock|available)$/i.test(raw)
+          || /schema\.org\/InStock$/i.test(raw);
+      case 'date': {
+        const time = Date.parse(raw);
+        return isNaN(time) ? null : new Date(time).toISOString();
+      }
+      case 'url':
+        try {
+          return new URL(raw, url).href;
+        } catch {
+          return null;
+        }
+    }
+  }
+}
+
+export const fieldExtractor = new FieldExtractor();
@@ -0,0 +1,156 @@
+import { Gazetteer, GazetteerEntry, gazetteerEntrySchema } from "@shared/schema";
+import { storage } from "../storage.js";
+import { AhoCorasick } from "./aho-corasick.js";
+
+export interface GazetteerMatch {
+  text: string; // the entry's term, whichever of its names was found
+  label: string;
+  start: number;
+  end: number;
+  externalId?: string;
+}
+
+export interface ParsedGazetteer {
+  entries: GazetteerEntry[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+// Header names accepted for each column
+const COLUMNS: Record<keyof GazetteerEntry, string[]> = {
+  term: ['term', 'name'],
+  type: ['type', 'label'],
+  aliases: ['aliases', 'alias', 'synonyms'],
+  canonicalId: ['canonical_id', 'canonicalid', 'canonical id', 'id'],
+};
+
+const ALIAS_SEPARATOR = /[|;]/;
+
+// Names of all the entries of a project's gazetteers, compiled into one automaton
+export class GazetteerMatcher {
+  private automaton: AhoCorasick;
+  private names: Array<{ entry: GazetteerEntry; name: string }> = [];
+
+  constructor(entries: GazetteerEntry[]) {
+    entries.forEach(entry => {
+      [entry.term, ...entry.aliases].forEach(name => this.names.push({ entry, name }));
+    });
+    this.automaton = new AhoCorasick(this.names.map(({ name }) => name));
+  }
+
+  get size(): number {
+    return this.names.length;
+  }
+
+  // Whole-word matches; where matches overlap the longest one wins
+  match(text: string): GazetteerMatch[] {
+    return this.automaton.searchWholeWords(text).map(({ pattern, start, end }) => {
+      const { entry } = this.names[pattern];
+      return { text: entry.term, label: entry.type, start, end, externalId: entry.canonicalId };
+    });
+  }
+}
+
+// Per-project dictionaries of terms that are always recognized as entities,
+// ahead of the language patterns
+export class GazetteerService {
+  private matchers = new Map<string, Promise<GazetteerMatcher>>(); // by project id
+
+  async create(projectId: string, name: string, entries: GazetteerEntry[]): Promise<Gazetteer> {
+    const gazetteer = await storage.createGazetteer({ projectId, name, entries });
+    this.matchers.delete(projectId);
+    return gazetteer;
+  }
+
+  async delete(gazetteer: Gazetteer): Promise<void> {
+    await storage.deleteGazetteer(gazetteer.id);
+    if (gazetteer.projectId) this.matchers.delete(gazetteer.projectId);
+  }
+
+  // Compiled once and reused until the project's gazetteers change
+  forProject(projectId: string): Promise<GazetteerMatcher> {
+    let matcher = this.matchers.get(projectId);
+    if (!matcher) {
+      matcher = storage.getGazetteersByProject(projectId)
+        .then(gazetteers => new GazetteerMatcher(gazetteers.flatMap(gazetteer => gazetteer.entries as GazetteerEntry[])));
+      matcher.catch(() => this.matchers.delete(projectId));
+      this.matchers.set(projectId, matcher);
+    }
+    return matcher;
+  }
+
+  // CSV with a header row naming the columns term, type, aliases and
+  // canonical_id; aliases are separated by | or ;
+  parse(content: string): ParsedGazetteer {
+    const [header, ...rows] = this.parseCsv(content.replace(/^\uFEFF/, ''));
+    const errors: ParsedGazetteer['errors'] = [];
+    if (!header) {
+      return { entries: [], errors: [{ line: 1, message: 'File is empty' }] };
+    }
+
+    const columns = header.map(column => column.trim().toLowerCase());
+    const indexOf = (field: keyof GazetteerEntry) => columns.findIndex(column => COLUMNS[field].includes(column));
+    const index = { term: indexOf('term'), type: indexOf('type'), aliases: indexOf('aliases'), canonicalId: indexOf('canonicalId') };
+    if (index.term === -1 || index.type === -1) {
+      return { entries: [], errors: [{ line: 1, message: 'Header needs at least the columns term and type' }] };
+    }
+
+    const entries: GazetteerEntry[] = [];
+    rows.forEach((row, i) => {
+      if (row.every(cell => !cell.trim())) return;
+      const parsed = gazetteerEntrySchema.safeParse({
+        term: row[index.term] ?? '',
+        type: row[index.type] ?? '',
+        aliases: index.aliases === -1 ? [] : (row[index.aliases] || '').split(ALIAS_SEPARATOR).map(alias => alias.trim()).filter(Boolean),
+        canonicalId: index.canonicalId === -1 ? undefined : row[index.canonicalId]?.trim() || undefined,
+      });
+      if (parsed.success) {
+        entries.push(parsed.data);
+      } else {
+        errors.push({ line: i + 2, message: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ') });
+      }
+    });
+    return { entries, errors };
+  }
+
+  // RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+  private parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+}
+
+export const gazetteerService = new GazetteerService();
@@ -1,4 +1,5 @@
 import { Entity, Relationship, Document } from "@shared/schema";
+import { entityResolutionService, EntityAlias } from "./entity-resolution.js";
 
 
 interface GraphNode {
@@ -47,6 +48,9 @@ export class GraphBuilderService {
     relationships: Relationship[],
     documents: Document[]
   ): Promise<GraphData> {
+    // Languages of the documents each entity and relationship came from
+    const documentLanguages = new Map(documents.map(doc => [doc.id, doc.language || 'unknown']));
+
     // Create nodes from entities
     const nodes: GraphNode[] = entities.map(entity => ({
       id: entity.name,
@@ -55,22 +59,29 @@ export class GraphBuilderService {
       properties: {
         frequency: entity.frequency || 1,
         documentCount: (entity.documentIds as string[])?.length || 0,
-        entityId: entity.id
+        entityId: entity.id,
+        aliases: ((entity.aliases as EntityAlias[] | null) || [])
+          .map(alias => alias.name)
+          .filter(name => name !== entity.name),
+        languages: Array.from(new Set(((entity.documentIds as string[]) || [])
+          .map(id => documentLanguages.get(id) || 'unknown')))
       },
       size: Math.max(10, Math.min(50, (entity.frequency || 1) * 2)),
       color: this.colorMap[entity.type as keyof typeof this.colorMap] || this.colorMap.default
     }));
 
-    // Create edges from relationships
+    // Create edges from relationships, which keep the name they were found under
+    const canonicalNames = entityResolutionService.canonicalNames(entities);
     const edges: GraphEdge[] = relationships.map((rel, index) => ({
       id: `edge_${index}`,
-      from: rel.sourceEntity,
-      to: rel.targetEntity,
+      from: canonicalNames.get(rel.sourceEntity) || rel.sourceEntity,
+      to: canonicalNames.get(rel.targetEntity) || rel.targetEntity,
       label: rel.relationshipType,
       type: rel.relationshipType,
       properties: {
         relationshipId: rel.id,
-        documentId: rel.documentId
+        documentId: rel.documentId,
+        language: (rel.documentId && documentLanguages.get(rel.documentId)) || 'unknown'
       }
     }));
 
@@ -153,6 +164,7 @@ export class GraphBuilderService {
       relationshipTypes?: string[];
       minFrequency?: number;
       searchQuery?: string;
+      languages?: string[]; // keeps what was found in documents of these languages
     }
   ): Promise<GraphData> {
     let filteredNodes = graphData.nodes;
@@ -165,6 +177,15 @@ export class GraphBuilderService {
       );
     }
 
+    // Filter by document language
+    if (filters.languages && filters.languages.length > 0) {
+      const languages = new Set(filters.languages);
+      filteredNodes = filteredNodes.filter(node =>
+        (node.properties.languages || []).some((language: string) => languages.has(language))
+      );
+      filteredEdges = filteredEdges.filter(edge => languages.has(edge.properties.language));
+    }
+
     // Filter by minimum frequency
     if (filters.minFrequency) {
       filteredNodes = filteredNodes.filter(node => 
@@ -0,0 +1,78 @@
+// Detects the language of a document from its most common function words.
+// Stopword profiles are short but distinctive enough for whole pages; the
+// language a page declares only decides when the text itself is inconclusive.
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'it', 'with', 'as', 'was', 'on', 'are', 'by',
+    'this', 'be', 'from', 'at', 'or', 'have', 'an', 'which', 'not', 'but', 'they', 'has', 'were', 'their',
+    'been', 'its', 'he', 'she', 'we', 'you', 'will', 'would', 'there', 'what', 'about', 'into', 'than', 'also'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'den', 'von', 'zu', 'sich', 'des', 'auf', 'für',
+    'ein', 'eine', 'einer', 'eines', 'dem', 'im', 'auch', 'als', 'wird', 'werden', 'bei', 'oder', 'nach',
+    'aus', 'wie', 'sie', 'er', 'wir', 'ich', 'sind', 'hat', 'haben', 'wurde', 'noch', 'über', 'nur', 'dass', 'zum', 'zur'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'du', 'et', 'est', 'un', 'une', 'en', 'que', 'qui', 'dans', 'pour',
+    'pas', 'sur', 'au', 'aux', 'avec', 'ce', 'cette', 'ces', 'il', 'elle', 'ils', 'nous', 'vous', 'sont',
+    'par', 'plus', 'mais', 'ou', 'son', 'sa', 'ses', 'leur', 'été', 'être', 'a', 'ont', 'comme', 'aussi'],
+  es: ['el', 'la', 'los', 'las', 'de', 'del', 'y', 'en', 'que', 'es', 'un', 'una', 'por', 'con', 'para',
+    'no', 'se', 'su', 'sus', 'al', 'lo', 'como', 'más', 'pero', 'fue', 'son', 'está', 'este', 'esta',
+    'ha', 'han', 'también', 'entre', 'cuando', 'muy', 'sin', 'sobre', 'ser', 'ya', 'hay', 'desde', 'donde'],
+  it: ['il', 'lo', 'la', 'gli', 'le', 'di', 'del', 'della', 'dei', 'delle', 'e', 'che', 'in', 'un', 'una',
+    'per', 'non', 'con', 'sono', 'è', 'da', 'al', 'alla', 'si', 'come', 'anche', 'più', 'ma', 'nel',
+    'nella', 'questo', 'questa', 'ha', 'hanno', 'essere', 'stato', 'sua', 'suo', 'loro', 'tra', 'dopo', 'molto'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'in', 'is', 'dat', 'op', 'te', 'zijn', 'met', 'voor', 'niet', 'die',
+    'aan', 'er', 'ook', 'als', 'bij', 'door', 'om', 'maar', 'naar', 'wordt', 'werd', 'heeft', 'hebben',
+    'was', 'uit', 'over', 'nog', 'kan', 'deze', 'dit', 'wij', 'ze', 'hij', 'zij', 'tot', 'worden', 'geen'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'do', 'da', 'dos', 'das', 'e', 'em', 'no', 'na', 'que', 'um', 'uma',
+    'para', 'com', 'não', 'por', 'se', 'é', 'mais', 'como', 'mas', 'foi', 'ao', 'seu', 'sua', 'são',
+    'está', 'também', 'pelo', 'pela', 'entre', 'quando', 'muito', 'já', 'ser', 'tem', 'nos', 'isso'],
+};
+
+const STOPWORD_SETS: Record<string, Set<string>> = {};
+Object.keys(STOPWORDS).forEach(language => {
+  STOPWORD_SETS[language] = new Set(STOPWORDS[language]);
+});
+
+const SAMPLE_WORDS = 2000; // enough for a stable guess, bounded for long documents
+const MIN_HITS = 5; // fewer stopwords than this is too little text to judge
+const MIN_MARGIN = 1.25; // the best language must beat the runner-up by this factor
+
+// Lowercase letters used by the supported languages; no regex u flag here
+const WORD = /[a-zß-öø-ÿœæ]+(?:['’][a-zß-öø-ÿœæ]+)?/g;
+
+export class LanguageService {
+  readonly supported = Object.keys(STOPWORDS);
+
+  // ISO 639-1 code, or null when the language cannot be told
+  detect(text: string, declared?: string | null): string | null {
+    const hint = this.normalize(declared);
+    const words = (text.toLowerCase().match(WORD) || []).slice(0, SAMPLE_WORDS);
+
+    const scores = this.supported
+      .map(language => ({
+        language,
+        hits: words.filter(word => STOPWORD_SETS[language].has(word)).length,
+      }))
+      .sort((a, b) => b.hits - a.hits);
+
+    const [best, runnerUp] = scores;
+    if (best.hits >= MIN_HITS && best.hits >= runnerUp.hits * MIN_MARGIN) {
+      return best.language;
+    }
+    // Too close to call: trust the page when it names one of the close candidates
+    if (hint && best.hits > 0 && scores.some(score => score.language === hint && score.hits >= best.hits / MIN_MARGIN)) {
+      return hint;
+    }
+    return best.hits === 0 ? hint : null;
+  }
+
+  stopwords(language?: string | null): Set<string> {
+    return STOPWORD_SETS[language || 'en'] || new Set();
+  }
+
+  // "de-DE", "fr_CH" and "EN" all become the bare language code
+  private normalize(language?: string | null): string | null {
+    const code = language?.trim().toLowerCase().split(/[-_]/)[0];
+    return code && /^[a-z]{2,3}$/.test(code) ? code : null;
+  }
+}
+
+export const languageService = new LanguageService();
@@ -0,0 +1,253 @@
+import * as cheerio from "cheerio";
+import type { AnyNode } from "domhandler";
+
+type Selection = cheerio.Cheerio<AnyNode>;
+
+// A schema.org item from microdata or RDFa, shaped like a JSON-LD node
+export interface StructuredItem {
+  "@type": string | string[];
+  [property: string]: unknown;
+}
+
+export interface StructuredEntity {
+  name: string;
+  type: 'PERSON' | 'ORG';
+  schemaType: string;
+  url?: string;
+  sameAs: string[];
+}
+
+export interface PageMetadata {
+  description?: string;
+  author?: string;
+  publishedAt?: string; // ISO 8601 when the page date could be parsed
+  modifiedAt?: string;
+  language?: string;
+  openGraph: Record<string, string>;
+  twitter: Record<string, string>;
+  jsonLd: unknown[];
+  microdata: StructuredItem[];
+  rdfa: StructuredItem[];
+  entities: StructuredEntity[]; // schema.org Person/Organization nodes found anywhere above
+}
+
+const PERSON_TYPES = new Set(['Person', 'Patient']);
+const ORG_TYPES = new Set([
+  'Organization', 'Corporation', 'LocalBusiness', 'NGO', 'Airline', 'Consortium',
+  'NewsMediaOrganization', 'EducationalOrganization', 'CollegeOrUniversity',
+  'GovernmentOrganization', 'MedicalOrganization', 'SportsOrganization',
+  'PerformingGroup', 'ResearchOrganization', 'OnlineBusiness', 'Project',
+]);
+
+// Caps how deep nested JSON-LD is searched for entities
+const MAX_NODE_DEPTH = 8;
+
+// Pulls the structured data sites publish for search engines and social
+// cards. Everything here is declared by the site itself, so it is more
+// reliable than what the NLP patterns infer from the text.
+export class MetadataExtractor {
+  extract($: cheerio.CheerioAPI): PageMetadata {
+    const openGraph = this.metaPrefixed($, ['og:', 'article:', 'profile:', 'book:']);
+    const twitter = this.metaPrefixed($, ['twitter:']);
+    const jsonLd = this.extractJsonLd($);
+    const microdata = this.extractMicrodata($);
+    const rdfa = this.extractRdfa($);
+
+    const nodes = [...jsonLd, ...microdata, ...rdfa];
+    const article = this.findNode(nodes, type => /Article|BlogPosting|NewsArticle|Report|WebPage/.test(type));
+
+    const metadata: PageMetadata = {
+      description: this.meta($, 'description') || openGraph['og:description'] || twitter['twitter:description']
+        || this.text(article?.description),
+      author: this.meta($, 'author') || openGraph['article:author'] || this.authorName(article?.author)
+        || $('[rel="author"]').first().text().trim() || undefined,
+      publishedAt: this.toDate(
+        openGraph['article:published_time'] || this.text(article?.datePublished) || this.meta($, 'date')
+        || $('meta[itemprop="datePublished"]').attr('content') || $('time[datetime]').first().attr('datetime')
+      ),
+      modifiedAt: this.toDate(openGraph['article:modified_time'] || this.text(article?.dateModified)),
+      language: this.language($, openGraph['og:locale']),
+      openGraph,
+      twitter,
+      jsonLd,
+      microdata,
+      rdfa,
+      entities: [],
+    };
+
+    metadata.entities = this.collectEntities(nodes);
+
+    // Drop empty fields so stored documents stay small
+    (Object.keys(metadata) as (keyof PageMetadata)[]).forEach(key => {
+      if (metadata[key] === undefined || metadata[key] === '') delete metadata[key];
+    });
+    return metadata;
+  }
+
+  private meta($: cheerio.CheerioAPI, name: string): string | undefined {
+    return $(`meta[name="${name}"]`).attr('content')?.trim() || undefined;
+  }
+
+  // OpenGraph uses property=, Twitter cards name=; sites mix them up freely
+  private metaPrefixed($: cheerio.CheerioAPI, prefixes: string[]): Record<string, string> {
+    const values: Record<string, string> = {};
+    $('meta[property], meta[name]').each((_, node) => {
+      const element = $(node);
+      const key = (element.attr('property') || element.attr('name') || '').toLowerCase();
+      const content = element.attr('content')?.trim();
+      if (content && prefixes.some(prefix => key.startsWith(prefix)) && !(key in values)) {
+        values[key] = content;
+      }
+    });
+    return values;
+  }
+
+  private language($: cheerio.CheerioAPI, locale?: string): string | undefined {
+    const declared = $('html').attr('lang')
+      || $('meta[http-equiv="content-language" i]').attr('content')
+      || locale;
+    return declared ? declared.trim().replace('_', '-').split(/[,\s]/)[0] || undefined : undefined;
+  }
+
+  private extractJsonLd($: cheerio.CheerioAPI): unknown[] {
+    const nodes: unknown[] = [];
+    $('script[type="application/ld+json"]').each((_, node) => {
+      const raw = $(node).contents().text().trim();
+      if (!raw) return;
+
+      try {
+        const parsed = JSON.parse(raw);
+        // A top-level array or @graph both hold several independent nodes
+        const items = Array.isArray(parsed) ? parsed : [parsed];
+        items.forEach(item => {
+          if (item && Array.isArray(item['@graph'])) nodes.push(...item['@graph']);
+          else if (item) nodes.push(item);
+        });
+      } catch {
+        // Hand-written JSON-LD is often invalid; skip the block rather than the page
+      }
+    });
+    return nodes;
+  }
+
+  private extractMicrodata($: cheerio.CheerioAPI): StructuredItem[] {
+    return $('[itemscope]').not('[itemprop]').toArray().map(node => this.readItem($, $(node), 'itemscope'));
+  }
+
+  private extractRdfa($: cheerio.CheerioAPI): StructuredItem[] {
+    return $('[typeof]').not('[property]').toArray().map(node => this.readItem($, $(node), 'typeof'));
+  }
+
+  // Reads the properties that belong to this item and not to an item nested inside it
+  private readItem($: cheerio.CheerioAPI, item: Selection, scope: 'itemscope' | 'typeof'): StructuredItem {
+    const isMicrodata = scope === 'itemscope';
+    const typeAttr = (isMicrodata ? item.attr('itemtype') : item.attr('typeof')) || '';
+    const types = typeAttr.split(/\s+/).filter(Boolean).map(type => type.replace(/^.*[/#:]/, ''));
+
+    const result: StructuredItem = { "@type": types.length === 1 ? types[0] : types };
+    const propertyAttr = isMicrodata ? 'itemprop' : 'property';
+
+    item.find(`[${propertyAttr}]`).each((_, node) => {
+      const element = $(node);
+      if (element.parent().closest(`[${scope}]`).get(0) !== item.get(0)) return;
+
+      const value = element.is(`[${scope}]`) ? this.readItem($, element, scope) : this.propertyValue(element);
+      (element.attr(propertyAttr) || '').split(/\s+/).filter(Boolean).forEach(rawName => {
+        const name = rawName.replace(/^.*[/#:]/, '');
+        const existing = result[name];
+        if (existing === undefined) result[name] = value;
+        else result[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      });
+    });
+
+    return result;
+  }
+
+  private propertyValue(element: Selection): string {
+    const explicit = element.attr('content') ?? element.attr('datetime') ?? element.attr('value');
+    if (explicit !== undefined) return explicit.trim();
+
+    if (element.is('a, link, area')) return element.attr('href') || '';
+    if (element.is('img, audio, video, source, embed, iframe')) return element.attr('src') || '';
+    if (element.is('object')) return element.attr('data') || '';
+    return element.text().replace(/\s+/g, ' ').trim();
+  }
+
+  private collectEntities(nodes: unknown[]): StructuredEntity[] {
+    const entities = new Map<string, StructuredEntity>();
+
+    const visit = (value: unknown, depth: number) => {
+      if (depth > MAX_NODE_DEPTH || !value || typeof value !== 'object') return;
+      if (Array.isArray(value)) {
+        value.forEach(item => visit(item, depth + 1));
+        return;
+      }
+
+      const node = value as Record<string, unknown>;
+      const entity = this.toEntity(node);
+      if (entity) {
+        const key = `${entity.type}:${entity.name.toLowerCase()}`;
+        const existing = entities.get(key);
+        if (existing) {
+          existing.url = existing.url || entity.url;
+          existing.sameAs = Array.from(new Set([...existing.sameAs, ...entity.sameAs]));
+        } else {
+          entities.set(key, entity);
+        }
+      }
+
+      Object.keys(node).forEach(key => {
+        if (!key.startsWith('@')) visit(node[key], depth + 1);
+      });
+    };
+
+    nodes.forEach(node => visit(node, 0));
+    return Array.from(entities.values());
+  }
+
+  private toEntity(node: Record<string, unknown>): StructuredEntity | null {
+    const types = ([] as unknown[]).concat(node['@type'] ?? []).map(type => String(type).replace(/^.*[/#:]/, ''));
+    const schemaType = types.find(type => PERSON_TYPES.has(type) || ORG_TYPES.has(type) || type.endsWith('Organization'));
+    const name = this.text(node.name) || this.text(node.legalName);
+    if (!schemaType || !name || name.length > 200) return null;
+
+    return {
+      name,
+      type: PERSON_TYPES.has(schemaType) ? 'PERSON' : 'ORG',
+      schemaType,
+      url: this.text(node.url) || undefined,
+      sameAs: ([] as unknown[]).concat(node.sameAs ?? []).map(url => this.text(url)).filter((url): url is string => !!url),
+    };
+  }
+
+  private findNode(nodes: unknown[], matches: (type: string) => boolean): Record<string, unknown> | undefined {
+    return nodes.find((node): node is Record<string, unknown> => {
+      if (!node || typeof node !== 'object') return false;
+      const types = ([] as unknown[]).concat((node as Record<string, unknown>)['@type'] ?? []);
+      return types.some(type => matches(String(type)));
+    });
+  }
+
+  private authorName(author: unknown): string | undefined {
+    const names = ([] as unknown[]).concat(author ?? [])
+      .map(item => typeof item === 'object' && item ? this.text((item as Record<string, unknown>).name) : this.text(item))
+      .filter(Boolean);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+
+  // JSON-LD values may be plain strings, {"@value": ...} objects or arrays of either
+  private text(value: unknown): string | undefined {
+    if (Array.isArray(value)) return this.text(value[0]);
+    if (value && typeof value === 'object' && '@value' in value) return this.text((value as { '@value': unknown })['@value']);
+    if (typeof value === 'string' || typeof value === 'number') return String(value).trim() || undefined;
+    return undefined;
+  }
+
+  private toDate(value?: string): string | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(value.trim());
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+}
+
+export const metadataExtractor = new MetadataExtractor();
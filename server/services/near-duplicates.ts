@@ -0,0 +1,271 @@
+import { Document } from "@shared/schema";
+import { storage } from "../storage.js";
+
+export interface DuplicateCluster {
+  canonical: { id: string; title: string; url: string };
+  duplicates: { id: string; title: string; url: string; similarity: number }[];
+}
+
+const SHINGLE_SIZE = 4; // words per shingle
+const MIN_SHINGLES = 8; // shorter texts are too small to judge
+const NUM_HASHES = 64; // MinHash signature length
+
+// Estimated Jaccard similarity of the shingle sets at which a document counts
+// as a copy; mirrors and print versions usually score well above this
+const MINHASH_THRESHOLD = 0.8;
+// SimHash fingerprints this close are the same text with minor edits
+const SIMHASH_MAX_DISTANCE = 3;
+
+// The LSH index buckets documents by parts of their fingerprints, so only
+// documents sharing a part are compared. Two signatures at the MinHash
+// threshold share one of 16 bands of 4 rows with a chance of over 99.9%.
+const BANDS = 16;
+const ROWS = NUM_HASHES / BANDS;
+// SimHash fingerprints at most 3 bits apart agree on one of 4 blocks of 16 bits
+const SIMHASH_BLOCKS = 4;
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+// Document ids by fingerprint part, for one project
+class FingerprintIndex {
+  private buckets = new Map<string, Set<string>>();
+  private keysOf = new Map<string, string[]>(); // by document id
+
+  add(id: string, keys: string[]): void {
+    this.remove(id);
+    keys.forEach(key => {
+      const bucket = this.buckets.get(key) || new Set<string>();
+      bucket.add(id);
+      this.buckets.set(key, bucket);
+    });
+    this.keysOf.set(id, keys);
+  }
+
+  remove(id: string): void {
+    (this.keysOf.get(id) || []).forEach(key => {
+      const bucket = this.buckets.get(key);
+      bucket?.delete(id);
+      if (bucket?.size === 0) this.buckets.delete(key);
+    });
+    this.keysOf.delete(id);
+  }
+
+  candidates(keys: string[]): string[] {
+    const found = new Set<string>();
+    keys.forEach(key => this.buckets.get(key)?.forEach(id => found.add(id)));
+    return Array.from(found);
+  }
+}
+
+// Detects mirrored, reprinted and paginated copies when a document is stored.
+// The first version seen stays canonical; later copies point at it and are
+// left out of entity extraction so they do not inflate frequencies.
+export class NearDuplicateService {
+  private indexes = new Map<string, Promise<FingerprintIndex>>(); // by project id
+
+  // Fingerprints the document and links it to its canonical version, if any
+  async check(projectId: string, document: Document): Promise<Document> {
+    const shingles = this.shingles(document.content);
+    const simhash = shingles.length >= MIN_SHINGLES ? this.simhash(shingles) : null;
+    const minhash = shingles.length >= MIN_SHINGLES ? this.minhash(shingles) : null;
+
+    let canonicalId: string | null = null;
+    let similarity: number | null = null;
+
+    const index = await this.forProject(projectId);
+    const keys = simhash && minhash ? this.indexKeys(document.contentHash, simhash, minhash) : [];
+    if (simhash && minhash) {
+      for (const id of index.candidates(keys)) {
+        if (id === document.id) continue;
+        // The index may still hold documents changed or deleted since
+        const candidate = await storage.getDocument(id);
+        if (!candidate || candidate.projectId !== projectId || candidate.canonicalId || !candidate.simhash) continue;
+
+        const score = this.similarity(document, simhash, minhash, candidate);
+        if (score !== null && (similarity === null || score > similarity)) {
+          canonicalId = candidate.id;
+          similarity = score;
+        }
+      }
+    }
+
+    // Only a document checked before can have copies pointing at it. They move
+    // to its new canonical version, so canonicals never form a chain.
+    if (canonicalId && !document.canonicalId && document.simhash) {
+      for (const copy of await storage.getDocumentsByProject(projectId)) {
+        if (copy.canonicalId === document.id) await storage.updateDocument(copy.id, { canonicalId });
+      }
+    }
+
+    if (keys.length > 0) index.add(document.id, keys);
+    else index.remove(document.id);
+
+    return (await storage.updateDocument(document.id, {
+      simhash,
+      minhash,
+      canonicalId,
+      duplicateSimilarity: similarity
+    })) || document;
+  }
+
+  async getClusters(projectId: string): Promise<DuplicateCluster[]> {
+    const documents = await storage.getDocumentsByProject(projectId);
+    const byId = new Map(documents.map(doc => [doc.id, doc]));
+    const clusters = new Map<string, DuplicateCluster>();
+
+    for (const doc of documents) {
+      let canonical = doc.canonicalId ? byId.get(doc.canonicalId) : undefined;
+      // Chains stored before canonicals were kept flat resolve to their root
+      const passed = new Set([doc.id]);
+      while (canonical?.canonicalId && byId.has(canonical.canonicalId) && !passed.has(canonical.id)) {
+        passed.add(canonical.id);
+        canonical = byId.get(canonical.canonicalId);
+      }
+      if (!canonical) continue;
+
+      if (!clusters.has(canonical.id)) {
+        clusters.set(canonical.id, {
+          canonical: { id: canonical.id, title: canonical.title, url: canonical.url },
+          duplicates: []
+        });
+      }
+      clusters.get(canonical.id)!.duplicates.push({
+        id: doc.id,
+        title: doc.title,
+        url: doc.url,
+        similarity: doc.duplicateSimilarity ?? 1
+      });
+    }
+
+    return Array.from(clusters.values()).sort((a, b) => b.duplicates.length - a.duplicates.length);
+  }
+
+  // Built from the stored fingerprints once, then kept up to date by check()
+  private forProject(projectId: string): Promise<FingerprintIndex> {
+    let index = this.indexes.get(projectId);
+    if (!index) {
+      index = storage.getDocumentsByProject(projectId).then(documents => {
+        const built = new FingerprintIndex();
+        documents.forEach(doc => {
+          if (doc.simhash && doc.minhash) {
+            built.add(doc.id, this.indexKeys(doc.contentHash, doc.simhash, doc.minhash as number[]));
+          }
+        });
+        return built;
+      });
+      index.catch(() => this.indexes.delete(projectId));
+      this.indexes.set(projectId, index);
+    }
+    return index;
+  }
+
+  // Identical content, one SimHash block or one MinHash band in common makes a candidate
+  private indexKeys(contentHash: string | null, simhash: string, minhash: number[]): string[] {
+    const keys = contentHash ? [`content:${contentHash}`] : [];
+    const blockLength = simhash.length / SIMHASH_BLOCKS;
+    for (let block = 0; block < SIMHASH_BLOCKS; block++) {
+      keys.push(`simhash${block}:${simhash.slice(block * blockLength, (block + 1) * blockLength)}`);
+    }
+    for (let band = 0; band < BANDS; band++) {
+      keys.push(`minhash${band}:${minhash.slice(band * ROWS, (band + 1) * ROWS).join(',')}`);
+    }
+    return keys;
+  }
+
+  // Returns null when the candidate is not a near duplicate
+  private similarity(document: Document, simhash: string, minhash: number[], candidate: Document): number | null {
+    if (document.contentHash && document.contentHash === candidate.contentHash) return 1;
+
+    const distance = this.hammingDistance(simhash, candidate.simhash!);
+    if (distance <= SIMHASH_MAX_DISTANCE) return 1 - distance / 64;
+
+    const other = candidate.minhash as number[] | null;
+    if (!other || other.length !== minhash.length) return null;
+
+    const matches = minhash.filter((value, i) => value === other[i]).length;
+    const estimate = matches / minhash.length;
+    return estimate >= MINHASH_THRESHOLD ? estimate : null;
+  }
+
+  private shingles(text: string): string[] {
+    const words = text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f\u0370-\uffff]+/).filter(Boolean);
+    const shingles = new Set<string>();
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+      shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return Array.from(shingles);
+  }
+
+  // One bucket per signature slot, each keeping the lowest hash under its seed
+  private minhash(shingles: string[]): number[] {
+    const signature: number[] = new Array(NUM_HASHES).fill(0xffffffff);
+    for (const shingle of shingles) {
+      const hash = hash32(shingle, 0);
+      for (let i = 0; i < NUM_HASHES; i++) {
+        const value = mix32(hash ^ SEEDS[i]);
+        if (value < signature[i]) signature[i] = value;
+      }
+    }
+    return signature;
+  }
+
+  // 64-bit fingerprint as 16 hex digits, built from two 32-bit halves
+  private simhash(shingles: string[]): string {
+    const weights = new Array(64).fill(0);
+    for (const shingle of shingles) {
+      const low = hash32(shingle, 0x1b873593);
+      const high = hash32(shingle, 0xcc9e2d51);
+      for (let bit = 0; bit < 32; bit++) {
+        weights[bit] += (low >>> bit) & 1 ? 1 : -1;
+        weights[bit + 32] += (high >>> bit) & 1 ? 1 : -1;
+      }
+    }
+
+    let low = 0;
+    let high = 0;
+    for (let bit = 0; bit < 32; bit++) {
+      if (weights[bit] > 0) low |= 1 << bit;
+      if (weights[bit + 32] > 0) high |= 1 << bit;
+    }
+    return (high >>> 0).toString(16).padStart(8, '0') + (low >>> 0).toString(16).padStart(8, '0');
+  }
+
+  private hammingDistance(a: string, b: string): number {
+    const high = parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16);
+    const low = parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16);
+    return popCount(high) + popCount(low);
+  }
+}
+
+// FNV-1a over UTF-16 code units, finished with mix32
+function hash32(text: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return mix32(hash);
+}
+
+// MurmurHash3 finalizer
+function mix32(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function popCount(value: number): number {
+  let count = 0;
+  let rest = value >>> 0;
+  while (rest) {
+    rest &= rest - 1;
+    count++;
+  }
+  return count;
+}
+
+export const nearDuplicateService = new NearDuplicateService();
@@ -0,0 +1,144 @@
+// Entity and relationship patterns per document language. Character classes
+// spell out the accented letters since the regex u flag is not available.
+const UPPER = 'A-ZÀ-ÖØ-ÞŒ';
+const LOWER = 'a-zß-öø-ÿœ';
+const NAME = `[${UPPER}][${LOWER}]+`;
+const NAMES = `${NAME}(?:[ -]${NAME})*`;
+
+export interface RelationshipPattern {
+  pattern: RegExp;
+  type: string;
+}
+
+export interface LanguageRules {
+  entityPatterns: Record<string, RegExp[]>;
+  relationshipPatterns: RelationshipPattern[];
+  birthplace?: RegExp; // "born in X" next to the page title
+  // Capitalized words that never start or end a name, e.g. sentence-initial articles
+  nameStopwords: Set<string>;
+}
+
+const pattern = (source: string, flags = 'g') => new RegExp(source, flags);
+
+const relationship = (phrases: string, type: string): RelationshipPattern => ({
+  pattern: pattern(`(.+?) (?:${phrases}) (.+?)(?:\\.|,|;|$)`, 'gi'),
+  type,
+});
+
+const words = (list: string) => new Set(list.split(' '));
+
+const en: LanguageRules = {
+  entityPatterns: {
+    PERSON: [
+      /\b([A-Z][a-z]+ [A-Z][a-z]+)\b/g, // John Smith pattern
+      /\b(Dr\.|Prof\.|Mr\.|Mrs\.|Ms\.) ([A-Z][a-z]+ [A-Z][a-z]+)\b/g, // Title + Name
+    ],
+    ORG: [
+      /\b([A-Z][a-z]+ (?:University|College|Institute|Corporation|Company|Inc\.|LLC|Ltd\.))\b/g,
+      /\b([A-Z][A-Z]+ [A-Z][a-z]+)\b/g, // Acronym + word
+    ],
+    GPE: [
+      /\b([A-Z][a-z]+ (?:City|State|Country|Province|County))\b/g,
+      /\b(United States|United Kingdom|New York|California|London|Paris|Tokyo)\b/g,
+    ],
+    DATE: [
+      /\b(\d{1,2}\/\d{1,2}\/\d{4})\b/g,
+      /\b(January|February|March|April|May|June|July|August|September|October|November|December) \d{1,2}, \d{4}\b/g,
+    ],
+  },
+  relationshipPatterns: [
+    relationship('works for|employed by|works at', 'WORKS_FOR'),
+    relationship('founded|established|created', 'FOUNDED'),
+    relationship('located in|based in|situated in', 'LOCATED_IN'),
+    relationship('collaborated with|worked with|partnered with', 'COLLABORATED_WITH'),
+    relationship('graduated from|studied at|attended', 'EDUCATED_AT'),
+  ],
+  birthplace: /(?:born in|from) ([A-Z][a-z]+(?: [A-Z][a-z]+)*)/,
+  nameStopwords: words('the a an this that these those in on at for from with by of and or but if when while after before our your their his her its my we you they it'),
+};
+
+// Every German noun is capitalized, so two capitalized words in a row say
+// nothing; people are only recognized next to a title
+const de: LanguageRules = {
+  entityPatterns: {
+    PERSON: [
+      pattern(`(?:Herr|Frau|Dr\\.|Prof\\.) (${NAME} ${NAME})`),
+    ],
+    ORG: [
+      pattern(`(${NAMES} (?:GmbH(?: & Co\\. KG)?|AG|KG|SE|e\\.V\\.|Stiftung|Verein|Gruppe))(?![${LOWER}])`),
+      pattern(`((?:Universität|Hochschule|Institut|Bundesamt|Ministerium) (?:für |der |des )?${NAME})`),
+    ],
+    GPE: [
+      /\b(Deutschland|Österreich|Schweiz|Berlin|München|Hamburg|Köln|Frankfurt am Main|Frankfurt|Stuttgart|Wien|Zürich|Bern)(?![a-zß-öø-ÿ])/g,
+    ],
+    DATE: [
+      /\b(\d{1,2}\.\d{1,2}\.\d{4})\b/g,
+      /\b(\d{1,2}\. (?:Januar|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember) \d{4})\b/g,
+    ],
+  },
+  relationshipPatterns: [
+    relationship('arbeitet bei|arbeitet für|ist angestellt bei|ist beschäftigt bei', 'WORKS_FOR'),
+    relationship('gründete|hat gegründet|rief ins Leben', 'FOUNDED'),
+    relationship('mit Sitz in|ansässig in|befindet sich in|hat seinen Sitz in', 'LOCATED_IN'),
+    relationship('arbeitete zusammen mit|kooperiert mit|in Partnerschaft mit', 'COLLABORATED_WITH'),
+    relationship('studierte an|absolvierte|promovierte an', 'EDUCATED_AT'),
+  ],
+  birthplace: pattern(`(?:geboren in|stammt aus) (${NAMES})`, ''),
+  nameStopwords: words('der die das den dem des ein eine einer eines einem und oder aber in im am an auf aus bei mit nach von vor zu zum zur für über unter durch wir sie er es ihr unser unsere dieser diese dieses'),
+};
+
+const fr: LanguageRules = {
+  entityPatterns: {
+    PERSON: [
+      pattern(`(${NAME} ${NAME})(?![${LOWER}])`),
+      pattern(`(?:M\\.|Mme|Mlle|Dr|Pr) (${NAME} ${NAME})`),
+    ],
+    ORG: [
+      pattern(`(${NAMES} (?:SA|SAS|SARL|S\\.A\\.|SE))(?![${LOWER}${UPPER}])`),
+      pattern(`((?:Université|Institut|Société|Groupe|Fondation|Ministère) (?:de la |de l'|du |des |de |d')?${NAME})`),
+    ],
+    GPE: [
+      /(France|Paris|Lyon|Marseille|Toulouse|Bordeaux|Lille|Bruxelles|Belgique|Genève|Suisse|Québec|Montréal)(?![a-zß-öø-ÿ])/g,
+    ],
+    DATE: [
+      /\b(\d{1,2}\/\d{1,2}\/\d{4})\b/g,
+      /\b(\d{1,2}(?:er)? (?:janvier|février|mars|avril|mai|juin|juillet|août|septembre|octobre|novembre|décembre) \d{4})\b/g,
+    ],
+  },
+  relationshipPatterns: [
+    relationship('travaille pour|travaille chez|est employé par|est employée par', 'WORKS_FOR'),
+    relationship('a fondé|fonda|a créé|a établi', 'FOUNDED'),
+    relationship('situé à|située à|basé à|basée à|installé à|installée à|dont le siège est à', 'LOCATED_IN'),
+    relationship('a collaboré avec|en partenariat avec|a travaillé avec', 'COLLABORATED_WITH'),
+    relationship('a étudié à|diplômé de|diplômée de', 'EDUCATED_AT'),
+  ],
+  birthplace: pattern(`(?:né à|née à|originaire de) (${NAMES})`, ''),
+  nameStopwords: words('le la les un une des du de et ou mais dans sur pour par avec ce cette ces il elle ils elles nous vous notre votre leur son sa ses en au aux'),
+};
+
+// Languages without their own rules: capitalized names and numeric dates
+// only, with no phrase-based relationships
+const generic: LanguageRules = {
+  entityPatterns: {
+    PERSON: [
+      pattern(`(${NAME} ${NAME})(?![${LOWER}])`),
+    ],
+    DATE: [
+      /\b(\d{1,2}[./]\d{1,2}[./]\d{4})\b/g,
+      /\b(\d{4}-\d{2}-\d{2})\b/g,
+    ],
+  },
+  relationshipPatterns: [],
+  nameStopwords: new Set(),
+};
+
+const RULES: Record<string, LanguageRules> = { en, de, fr };
+
+// Documents from before language detection, or whose language could not be
+// told, keep the English rules they were always processed with
+export function getLanguageRules(language?: string | null): LanguageRules {
+  if (!language) return en;
+  return RULES[language] || generic;
+}
+
+export const UPPERCASE_START = new RegExp(`^[${UPPER}]`);
@@ -0,0 +1,165 @@
+import { Document, NlpPipelineConfig } from "@shared/schema";
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+
+export type StageKind = 'tokenizer' | 'sentences' | 'ner' | 'relations' | 'postprocess';
+
+// Stages of an earlier kind run first; later stages can rely on their output
+export const STAGE_KINDS: StageKind[] = ['tokenizer', 'sentences', 'ner', 'relations', 'postprocess'];
+
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface EntityExtraction {
+  text: string;
+  label: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  stage?: string; // name@version of the stage that found it
+  externalId?: string; // canonical ID of a gazetteer entry
+}
+
+export interface RelationshipExtraction {
+  source: string;
+  target: string;
+  relationship: string;
+  confidence?: number;
+  stage?: string;
+}
+
+// What stages read and write. Stages add to or replace the arrays in place.
+export interface NlpContext {
+  readonly document: Document;
+  readonly text: string;
+  readonly title: string;
+  readonly language: string | null;
+  tokens: TextSpan[];
+  sentences: TextSpan[];
+  entities: EntityExtraction[];
+  relationships: RelationshipExtraction[];
+}
+
+export interface NlpStage {
+  name: string;
+  kind: StageKind;
+  version: string; // bump when output changes, so documents show what produced them
+  description?: string;
+  run(context: NlpContext, options: Record<string, unknown>): void | Promise<void>;
+}
+
+// Recorded on every processed document
+export interface StageRun {
+  stage: string;
+  kind: StageKind;
+  version: string;
+  error?: string; // the stage failed; the others still ran
+}
+
+export interface PipelineResult {
+  entities: EntityExtraction[];
+  relationships: RelationshipExtraction[];
+  stages: StageRun[];
+}
+
+// Registry and runner of NLP stages. Built-in stages are registered by the
+// NLP service; others come from plugin modules listed in NLP_PLUGINS.
+export class NlpPipeline {
+  private stages = new Map<string, NlpStage>();
+
+  register(stage: NlpStage): void {
+    if (!this.isStage(stage)) {
+      throw new Error(`Invalid NLP stage ${JSON.stringify((stage as { name?: unknown })?.name)}: needs name, kind, version and run()`);
+    }
+    this.stages.set(stage.name, stage);
+  }
+
+  get(name: string): NlpStage | undefined {
+    return this.stages.get(name);
+  }
+
+  list(): NlpStage[] {
+    return Array.from(this.stages.values())
+      .sort((a, b) => STAGE_KINDS.indexOf(a.kind) - STAGE_KINDS.indexOf(b.kind) || a.name.localeCompare(b.name));
+  }
+
+  // Null for a runnable pipeline, otherwise what is wrong with it
+  validate(config: NlpPipelineConfig): string | null {
+    let previous = 0;
+    for (const { stage: name } of config) {
+      const stage = this.stages.get(name);
+      if (!stage) {
+        return `Unknown NLP stage "${name}"`;
+      }
+      const order = STAGE_KINDS.indexOf(stage.kind);
+      if (order < previous) {
+        return `Stage "${name}" (${stage.kind}) must come before ${STAGE_KINDS[previous]} stages`;
+      }
+      previous = order;
+    }
+    return null;
+  }
+
+  async run(document: Document, config: NlpPipelineConfig): Promise<PipelineResult> {
+    const context: NlpContext = {
+      document,
+      text: document.content,
+      title: document.title,
+      language: document.language,
+      tokens: [],
+      sentences: [],
+      entities: [],
+      relationships: [],
+    };
+    const runs: StageRun[] = [];
+
+    for (const { stage: name, options } of config) {
+      const stage = this.stages.get(name);
+      if (!stage) {
+        // The stage was configured when its plugin was still loaded
+        runs.push({ stage: name, kind: 'postprocess', version: 'missing', error: 'Stage is not registered' });
+        continue;
+      }
+
+      const run: StageRun = { stage: stage.name, kind: stage.kind, version: stage.version };
+      try {
+        await stage.run(context, options || {});
+      } catch (error) {
+        run.error = error instanceof Error ? error.message : String(error);
+        console.error(`NLP stage ${stage.name}@${stage.version} failed on ${document.url}:`, error);
+      }
+      runs.push(run);
+
+      const source = `${stage.name}@${stage.version}`;
+      context.entities.forEach(entity => { entity.stage = entity.stage || source; });
+      context.relationships.forEach(relationship => { relationship.stage = relationship.stage || source; });
+    }
+
+    return { entities: context.entities, relationships: context.relationships, stages: runs };
+  }
+
+  // Each module exports `stages`, or a stage or list of stages as default
+  async loadModules(paths: string[]): Promise<NlpStage[]> {
+    const loaded: NlpStage[] = [];
+    for (const path of paths) {
+      const module = await import(pathToFileURL(resolve(path)).href);
+      const exported = module.stages ?? module.default;
+      const stages: NlpStage[] = Array.isArray(exported) ? exported : [exported];
+      stages.forEach(stage => this.register(stage));
+      loaded.push(...stages);
+    }
+    return loaded;
+  }
+
+  private isStage(stage: unknown): stage is NlpStage {
+    const candidate = stage as Partial<NlpStage> | null;
+    return !!candidate
+      && typeof candidate.name === 'string' && candidate.name.length > 0
+      && typeof candidate.version === 'string' && candidate.version.length > 0
+      && STAGE_KINDS.includes(candidate.kind as StageKind)
+      && typeof candidate.run === 'function';
+  }
+}
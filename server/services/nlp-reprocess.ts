@@ -0,0 +1,293 @@
+import { Document, Entity, InsertEntity, InsertRelationship, NlpRun, Project, Relationship } from "@shared/schema";
+import { storage } from "../storage.js";
+import { nlpService } from "./nlp.js";
+import { PipelineResult } from "./nlp-pipeline.js";
+import { entityResolutionService } from "./entity-resolution.js";
+
+type Broadcast = (message: any) => void;
+
+// What a run replaced, kept on the latest run for comparison
+export interface PreviousExtractions {
+  entities: Entity[];
+  relationships: Relationship[];
+}
+
+export interface ReprocessSummary {
+  documents: number;
+  entities: { before: number; after: number };
+  relationships: { before: number; after: number };
+}
+
+export interface EntityChange {
+  name: string;
+  type: string;
+  before: number; // frequency, 0 when the entity is new
+  after: number; // 0 when the entity is gone
+}
+
+export interface RelationshipChange {
+  source: string;
+  target: string;
+  relationship: string;
+  count: number;
+}
+
+export interface ReprocessComparison {
+  runId: string;
+  entities: { added: EntityChange[]; removed: EntityChange[]; changed: EntityChange[] };
+  relationships: { added: RelationshipChange[]; removed: RelationshipChange[] };
+}
+
+const CATCH_UP_PASSES = 3; // rounds for documents stored while the run was going
+const COMPARISON_LIMIT = 200; // changes listed per group
+
+// Runs NLP again over every stored document of a project, e.g. after its
+// pipeline changed. The new extractions are collected aside and swapped in
+// at once, so the graph shows the old set until the new one is complete.
+export class NlpReprocessService {
+  private broadcast: Broadcast = () => {};
+  private running = new Set<string>(); // project ids
+
+  setBroadcast(broadcast: Broadcast): void {
+    this.broadcast = broadcast;
+  }
+
+  isRunning(projectId: string): boolean {
+    return this.running.has(projectId);
+  }
+
+  // Undefined when the project is already being reprocessed
+  async start(project: Project): Promise<NlpRun | undefined> {
+    if (this.isRunning(project.id)) return undefined;
+    this.running.add(project.id);
+
+    let run: NlpRun;
+    try {
+      const pipeline = nlpService.getPipelineConfig(project);
+      run = await storage.createNlpRun({
+        projectId: project.id,
+        status: 'running',
+        pipeline,
+        total: (await storage.getDocumentsByProject(project.id)).filter(doc => !doc.canonicalId).length,
+      });
+    } catch (error) {
+      // No run was started, so the project must not stay marked as reprocessing
+      this.running.delete(project.id);
+      throw error;
+    }
+
+    // run() records its own failures; this catches one while recording them
+    this.run(run, project)
+      .catch(error => console.error('NLP reprocessing error:', error))
+      .finally(() => this.running.delete(project.id));
+    return run;
+  }
+
+  // A run cut off by a restart cannot go on, and had not swapped anything in yet
+  async failInterrupted(): Promise<void> {
+    for (const run of await storage.getNlpRunsByStatus('running')) {
+      await storage.updateNlpRun(run.id, {
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+        finishedAt: new Date(),
+      });
+    }
+  }
+
+  async compare(run: NlpRun): Promise<ReprocessComparison | undefined> {
+    const previous = run.previous as PreviousExtractions | null;
+    if (!previous || !run.projectId) return undefined;
+
+    const entityKey = (entity: { name: string; type: string }) => `${entity.type}\u0000${entity.name}`;
+    const before = new Map(previous.entities.map(entity => [entityKey(entity), entity]));
+    const after = new Map((await storage.getEntitiesByProject(run.projectId)).map(entity => [entityKey(entity), entity]));
+
+    const entities: ReprocessComparison['entities'] = { added: [], removed: [], changed: [] };
+    Array.from(after.entries()).forEach(([key, entity]) => {
+      const old = before.get(key);
+      const change = { name: entity.name, type: entity.type, before: old?.frequency || 0, after: entity.frequency || 0 };
+      if (!old) entities.added.push(change);
+      else if (change.before !== change.after) entities.changed.push(change);
+    });
+    Array.from(before.entries()).forEach(([key, entity]) => {
+      if (!after.has(key)) entities.removed.push({ name: entity.name, type: entity.type, before: entity.frequency || 0, after: 0 });
+    });
+
+    const relationshipCounts = (relationships: Relationship[]) => {
+      const counts = new Map<string, RelationshipChange>();
+      relationships.forEach(rel => {
+        const key = [rel.sourceEntity, rel.relationshipType, rel.targetEntity].join('\u0000');
+        const entry = counts.get(key) || { source: rel.sourceEntity, target: rel.targetEntity, relationship: rel.relationshipType, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      });
+      return counts;
+    };
+    const oldRelationships = relationshipCounts(previous.relationships);
+    const newRelationships = relationshipCounts(await storage.getRelationshipsByProject(run.projectId));
+    const missingFrom = (from: Map<string, RelationshipChange>, other: Map<string, RelationshipChange>) =>
+      Array.from(from.entries()).filter(([key]) => !other.has(key)).map(([, change]) => change);
+
+    const byFrequency = (a: EntityChange, b: EntityChange) => Math.max(b.before, b.after) - Math.max(a.before, a.after);
+    return {
+      runId: run.id,
+      entities: {
+        added: entities.added.sort(byFrequency).slice(0, COMPARISON_LIMIT),
+        removed: entities.removed.sort(byFrequency).slice(0, COMPARISON_LIMIT),
+        changed: entities.changed
+          .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before))
+          .slice(0, COMPARISON_LIMIT),
+      },
+      relationships: {
+        added: missingFrom(newRelationships, oldRelationships).slice(0, COMPARISON_LIMIT),
+        removed: missingFrom(oldRelationships, newRelationships).slice(0, COMPARISON_LIMIT),
+      },
+    };
+  }
+
+  private async run(run: NlpRun, project: Project): Promise<void> {
+    const projectId = project.id;
+    const pipeline = nlpService.getPipelineConfig(project);
+    const results = new Map<string, { document: Document; result: PipelineResult }>();
+    let processed = 0;
+
+    // Documents stored or updated by a crawl meanwhile are picked up in the next
+    // pass, so the swap does not drop what they added
+    const pending = async () => (await storage.getDocumentsByProject(projectId))
+      .filter(doc => !doc.canonicalId)
+      .filter(doc => {
+        const done = results.get(doc.id)?.document;
+        return !done || new Date(done.updatedAt || 0).getTime() !== new Date(doc.updatedAt || 0).getTime();
+      });
+
+    try {
+      for (let pass = 0; pass < CATCH_UP_PASSES; pass++) {
+        const documents = await pending();
+        if (documents.length === 0) break;
+
+        for (const document of documents) {
+          results.set(document.id, { document, result: await nlpService.processDocument(document, pipeline) });
+          processed++;
+
+          this.broadcast({
+            type: 'reprocess_progress',
+            projectId,
+            runId: run.id,
+            processed,
+            total: Math.max(run.total || 0, processed),
+            url: document.url
+          });
+          if (processed % 10 === 0) {
+            await storage.updateNlpRun(run.id, { processed });
+          }
+        }
+      }
+
+      // Documents deleted while the run was going have nothing to contribute
+      const current = new Set((await storage.getDocumentsByProject(projectId)).filter(doc => !doc.canonicalId).map(doc => doc.id));
+      const kept = Array.from(results.values()).filter(({ document }) => current.has(document.id));
+
+      const entities = new Map<string, InsertEntity>();
+      const relationships: InsertRelationship[] = [];
+      kept.forEach(({ document, result }) => {
+        result.entities.forEach(extraction => {
+          const key = `${extraction.label}\u0000${extraction.text}`;
+          const entity = entities.get(key);
+          if (entity) {
+            entity.frequency = (entity.frequency || 1) + 1;
+            entity.confidence = Math.max(entity.confidence || 0, extraction.confidence || 0);
+            entity.documentIds = [...(entity.documentIds as string[]), document.id];
+            entity.externalId = entity.externalId ?? extraction.externalId;
+          } else {
+            entities.set(key, {
+              projectId,
+              name: extraction.text,
+              type: extraction.label,
+              frequency: 1,
+              confidence: extraction.confidence,
+              documentIds: [document.id],
+              externalId: extraction.externalId
+            });
+          }
+        });
+        result.relationships.forEach(extraction => {
+          relationships.push({
+            projectId,
+            sourceEntity: extraction.source,
+            targetEntity: extraction.target,
+            relationshipType: extraction.relationship,
+            documentId: document.id
+          });
+        });
+      });
+
+      const previous: PreviousExtractions = {
+        entities: await storage.getEntitiesByProject(projectId),
+        relationships: await storage.getRelationshipsByProject(projectId),
+      };
+
+      // Merges made by hand or by resolution carry over to the new set
+      const resolved = entityResolutionService.resolvePending(
+        entityResolutionService.reapplyMerges(Array.from(entities.values()), previous.entities),
+        relationships,
+        await storage.getEntityRejections(projectId)
+      );
+      await storage.replaceExtractions(projectId, {
+        entities: resolved,
+        relationships,
+        documents: kept.map(({ document, result }) => ({
+          id: document.id,
+          entities: result.entities,
+          relationships: result.relationships,
+          pipeline: result.stages
+        })),
+      });
+
+      const summary: ReprocessSummary = {
+        documents: kept.length,
+        entities: { before: previous.entities.length, after: resolved.length },
+        relationships: { before: previous.relationships.length, after: relationships.length },
+      };
+
+      // Only the latest run keeps the set it replaced
+      for (const older of await storage.getNlpRunsByProject(projectId)) {
+        if (older.id !== run.id && older.previous) {
+          await storage.updateNlpRun(older.id, { previous: null });
+        }
+      }
+      await storage.updateNlpRun(run.id, {
+        status: 'completed',
+        processed,
+        previous,
+        summary,
+        finishedAt: new Date(),
+      });
+
+      this.broadcast({
+        type: 'reprocess_completed',
+        projectId,
+        runId: run.id,
+        summary
+      });
+    } catch (error) {
+      console.error('NLP reprocessing error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await storage.updateNlpRun(run.id, {
+        status: 'failed',
+        processed,
+        error: message,
+        finishedAt: new Date(),
+      });
+
+      // Nothing was swapped, the project keeps its previous extractions
+      this.broadcast({
+        type: 'reprocess_error',
+        projectId,
+        runId: run.id,
+        error: message
+      });
+    }
+  }
+}
+
+export const nlpReprocessService = new NlpReprocessService();
@@ -1,82 +1,180 @@
-import { Document } from "@shared/schema";
-
-interface EntityExtraction {
-  text: string;
-  label: string;
-  start: number;
-  end: number;
-  confidence?: number;
-}
+import { Document, NlpPipelineConfig, Project } from "@shared/schema";
+import { PageMetadata } from "./metadata.js";
+import { languageService } from "./language.js";
+import { getLanguageRules, UPPERCASE_START } from "./nlp-languages.js";
+import { EntityExtraction, NlpPipeline, PipelineResult, RelationshipExtraction, TextSpan } from "./nlp-pipeline.js";
+import { gazetteerService, GazetteerMatcher } from "./gazetteers.js";
+import { relationPatternService } from "./relation-patterns.js";
+import { log } from "../vite.js";
+import { isAbsolute, relative, resolve } from "path";
 
+// Entities a site declares in its structured data beat anything the patterns guess
+const STRUCTURED_CONFIDENCE = 0.95;
+// Terms from the project's own gazetteers are certain, and beat both
+const GAZETTEER_CONFIDENCE = 0.98;
 
-interface RelationshipExtraction {
-  source: string;
-  target: string;
-  relationship: string;
-  confidence?: number;
-}
+// Plugins run with the server's privileges, so only modules the operator put
+// in this directory can be loaded
+const NLP_PLUGIN_DIR = resolve(process.env.NLP_PLUGIN_DIR || 'plugins/nlp');
+
+// Used by projects that have not configured their own pipeline
+export const DEFAULT_PIPELINE: NlpPipelineConfig = [
+  { stage: 'word-tokenizer', options: {} },
+  { stage: 'sentence-splitter', options: {} },
+  { stage: 'pattern-ner', options: {} },
+  { stage: 'structured-data-ner', options: {} },
+  { stage: 'pattern-relations', options: {} },
+  { stage: 'dedupe', options: {} },
+];
+
+const spans = (text: string, pattern: RegExp): TextSpan[] => {
+  const found: TextSpan[] = [];
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const trimmed = match[0].trim();
+    if (!trimmed) continue;
+    const start = match.index + match[0].indexOf(trimmed);
+    found.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return found;
+};
 
 export class NLPService {
-  // Simple entity extraction using regex patterns
-  // In a real implementation, you would use spaCy or similar NLP library
-  private entityPatterns = {
-    PERSON: [
-      /\b([A-Z][a-z]+ [A-Z][a-z]+)\b/g, // John Smith pattern
-      /\b(Dr\.|Prof\.|Mr\.|Mrs\.|Ms\.) ([A-Z][a-z]+ [A-Z][a-z]+)\b/g, // Title + Name
-    ],
-    ORG: [
-      /\b([A-Z][a-z]+ (?:University|College|Institute|Corporation|Company|Inc\.|LLC|Ltd\.))\b/g,
-      /\b([A-Z][A-Z]+ [A-Z][a-z]+)\b/g, // Acronym + word
-    ],
-    GPE: [
-      /\b([A-Z][a-z]+ (?:City|State|Country|Province|County))\b/g,
-      /\b(United States|United Kingdom|New York|California|London|Paris|Tokyo)\b/g,
-    ],
-    DATE: [
-      /\b(\d{1,2}\/\d{1,2}\/\d{4})\b/g,
-      /\b(January|February|March|April|May|June|July|August|September|October|November|December) \d{1,2}, \d{4}\b/g,
-    ]
-  };
-
-  private relationshipPatterns = [
-    {
-      pattern: /(.+?) (?:works for|employed by|works at) (.+?)(?:\.|,|;|$)/gi,
-      type: 'WORKS_FOR'
-    },
-    {
-      pattern: /(.+?) (?:founded|established|created) (.+?)(?:\.|,|;|$)/gi,
-      type: 'FOUNDED'
-    },
-    {
-      pattern: /(.+?) (?:located in|based in|situated in) (.+?)(?:\.|,|;|$)/gi,
-      type: 'LOCATED_IN'
-    },
-    {
-      pattern: /(.+?) (?:collaborated with|worked with|partnered with) (.+?)(?:\.|,|;|$)/gi,
-      type: 'COLLABORATED_WITH'
-    },
-    {
-      pattern: /(.+?) (?:graduated from|studied at|attended) (.+?)(?:\.|,|;|$)/gi,
-      type: 'EDUCATED_AT'
+  readonly pipeline = new NlpPipeline();
+
+  constructor() {
+    this.pipeline.register({
+      name: 'word-tokenizer',
+      kind: 'tokenizer',
+      version: '1.0.0',
+      description: 'Words and numbers with their offsets, accented letters included',
+      run: context => {
+        context.tokens = spans(context.text, /[\wÀ-ÖØ-öø-ÿœŒ]+(?:['’-][\wÀ-ÖØ-öø-ÿœŒ]+)*/g);
+      },
+    });
+    this.pipeline.register({
+      name: 'sentence-splitter',
+      kind: 'sentences',
+      version: '1.0.0',
+      description: 'Splits on ., ! and ?',
+      run: context => {
+        context.sentences = spans(context.text, /[^.!?]+[.!?]*/g);
+      },
+    });
+    this.pipeline.register({
+      name: 'pattern-ner',
+      kind: 'ner',
+      version: '1.1.0',
+      description: 'Project gazetteer terms, then regex patterns for people, organizations, places and dates in the document language',
+      run: async context => {
+        const projectId = context.document.projectId;
+        const dictionary = projectId ? await gazetteerService.forProject(projectId) : undefined;
+        context.entities.push(...await this.extractEntities(context.text, context.title, context.language, dictionary));
+      },
+    });
+    this.pipeline.register({
+      name: 'structured-data-ner',
+      kind: 'ner',
+      version: '1.1.0',
+      description: 'schema.org people and organizations from the page metadata, replacing pattern matches but not gazetteer terms',
+      run: context => {
+        context.entities = this.mergeStructuredEntities(context.entities, context.document);
+      },
+    });
+    this.pipeline.register({
+      name: 'pattern-relations',
+      kind: 'relations',
+      version: '1.1.0',
+      description: 'Phrase patterns such as "works for" in the document language, then the project\'s own relation patterns between recognized entities',
+      run: async context => {
+        context.relationships.push(...await this.extractRelationships(context.text, context.title, context.language));
+        const projectId = context.document.projectId;
+        if (projectId) {
+          const matches = await relationPatternService.extract(projectId, context.text, context.entities, context.sentences);
+          context.relationships.push(...matches.map(({ sentence, trigger, ...relationship }) => relationship));
+        }
+      },
+    });
+    this.pipeline.register({
+      name: 'dedupe',
+      kind: 'postprocess',
+      version: '1.0.0',
+      description: 'One entity per name keeping the most confident; options: minConfidence',
+      run: (context, options) => {
+        const minConfidence = typeof options.minConfidence === 'number' ? options.minConfidence : 0;
+        const best = new Map<string, EntityExtraction>();
+        context.entities.forEach(entity => {
+          const key = entity.text.toLowerCase();
+          const current = best.get(key);
+          if (!current || (entity.confidence || 0) > (current.confidence || 0)) best.set(key, entity);
+        });
+        context.entities = Array.from(best.values())
+          .filter(entity => (entity.confidence || 0) >= minConfidence)
+          .sort((a, b) => (b.confidence || 0) - (a.confidence || 0));
+        context.relationships = context.relationships.filter((rel, index, self) =>
+          (rel.confidence || 0) >= minConfidence && index === self.findIndex(r =>
+            r.source === rel.source && r.target === rel.target && r.relationship === rel.relationship
+          )
+        );
+      },
+    });
+  }
+
+  // Stage modules listed in NLP_PLUGINS, comma separated paths within the plugin directory
+  async loadPlugins(): Promise<void> {
+    const paths = (process.env.NLP_PLUGINS || '').split(',').map(path => path.trim()).filter(Boolean);
+    for (const path of paths) {
+      const file = resolve(NLP_PLUGIN_DIR, path);
+      const inside = relative(NLP_PLUGIN_DIR, file);
+      if (!inside || inside.startsWith('..') || isAbsolute(inside)) {
+        console.error(`Skipped NLP plugin ${path}: not inside the plugin directory ${NLP_PLUGIN_DIR}`);
+        continue;
+      }
+      try {
+        const stages = await this.pipeline.loadModules([file]);
+        log(`Loaded NLP stages from ${path}: ${stages.map(stage => `${stage.name}@${stage.version}`).join(', ')}`, 'nlp');
+      } catch (error) {
+        console.error(`Failed to load NLP plugin ${path}:`, error);
+      }
     }
-  ];
+  }
+
+  getPipelineConfig(project?: Project): NlpPipelineConfig {
+    const configured = (project?.nlpOptions as { pipeline?: NlpPipelineConfig } | null)?.pipeline;
+    return configured && configured.length > 0 ? configured : DEFAULT_PIPELINE;
+  }
 
-  async extractEntities(text: string, title: string): Promise<EntityExtraction[]> {
+  // Simple entity extraction using regex patterns, chosen by document language
+  // In a real implementation, you would use spaCy or similar NLP library
+  async extractEntities(text: string, title: string, language?: string | null, dictionary?: GazetteerMatcher): Promise<EntityExtraction[]> {
     const entities: EntityExtraction[] = [];
     const processedText = text.substring(0, 10000); // Limit text length for performance
+    const rules = getLanguageRules(language);
+    const stopwords = new Set([...Array.from(rules.nameStopwords), ...Array.from(languageService.stopwords(language))]);
+
+    // Gazetteer terms come first, over the whole text since matching is linear
+    const dictionaryHits = dictionary && dictionary.size > 0 ? dictionary.match(text) : [];
+    dictionaryHits.forEach(hit => {
+      entities.push({ ...hit, confidence: GAZETTEER_CONFIDENCE });
+    });
+    const inDictionaryHit = (start: number, end: number) =>
+      dictionaryHits.some(hit => start < hit.end && end > hit.start);
 
     // Extract entities using patterns
-    Object.entries(this.entityPatterns).forEach(([label, patterns]) => {
+    Object.entries(rules.entityPatterns).forEach(([label, patterns]) => {
       patterns.forEach(pattern => {
         let match;
         while ((match = pattern.exec(processedText)) !== null) {
-          const entityText = match[1] || match[0];
+          const entityText = this.trimStopwords(match[1] || match[0], label, stopwords);
           if (entityText && entityText.length > 2 && entityText.length < 100) {
+            const start = processedText.indexOf(entityText, match.index);
+            // A pattern never overrides what a gazetteer recognized there
+            if (inDictionaryHit(start, start + entityText.length)) continue;
             entities.push({
-              text: entityText.trim(),
+              text: entityText,
               label,
-              start: match.index,
-              end: match.index + entityText.length,
+              start,
+              end: start + entityText.length,
               confidence: 0.8
             });
           }
@@ -85,7 +183,7 @@ export class NLPService {
     });
 
     // Add title as an entity if it looks like a proper noun
-    if (title && /^[A-Z]/.test(title)) {
+    if (title && UPPERCASE_START.test(title)) {
       entities.push({
         text: title,
         label: 'TOPIC',
@@ -95,19 +193,35 @@ export class NLPService {
       });
     }
 
-    // Remove duplicates and sort by confidence
-    const uniqueEntities = Array.from(
-      new Map(entities.map(e => [e.text.toLowerCase(), e])).values()
-    );
+    // Remove duplicates, keeping the most confident, and sort by confidence
+    const best = new Map<string, EntityExtraction>();
+    entities.forEach(entity => {
+      const current = best.get(entity.text.toLowerCase());
+      if (!current || (entity.confidence || 0) > (current.confidence || 0)) best.set(entity.text.toLowerCase(), entity);
+    });
+    const uniqueEntities = Array.from(best.values());
 
     return uniqueEntities.sort((a, b) => (b.confidence || 0) - (a.confidence || 0));
   }
 
-  async extractRelationships(text: string, pageTitle: string): Promise<RelationshipExtraction[]> {
+  // Sentence-initial articles and the like are not part of a name. A person
+  // match that starts or ends with one is dropped, other names are trimmed.
+  private trimStopwords(text: string, label: string, stopwords: Set<string>): string | null {
+    const words = text.trim().split(/\s+/);
+    let first = 0;
+    let last = words.length;
+    while (first < last && stopwords.has(words[first].toLowerCase())) first++;
+    while (last > first && stopwords.has(words[last - 1].toLowerCase())) last--;
+    if (label === 'PERSON' && (first > 0 || last < words.length)) return null;
+    return words.slice(first, last).join(' ') || null;
+  }
+
+  async extractRelationships(text: string, pageTitle: string, language?: string | null): Promise<RelationshipExtraction[]> {
     const relationships: RelationshipExtraction[] = [];
     const processedText = text.substring(0, 5000); // Limit for performance
+    const rules = getLanguageRules(language);
 
-    this.relationshipPatterns.forEach(({ pattern, type }) => {
+    rules.relationshipPatterns.forEach(({ pattern, type }) => {
       let match;
       while ((match = pattern.exec(processedText)) !== null) {
         const source = match[1]?.trim();
@@ -125,7 +239,8 @@ export class NLPService {
     });
 
     // Add relationships involving the page title
-    if (pageTitle) {
+    if (pageTitle && rules.birthplace) {
+      const birthplace = rules.birthplace;
       const sentences = processedText.split(/[.!?]+/);
       sentences.forEach(sentence => {
         const lowerSentence = sentence.toLowerCase();
@@ -133,16 +248,14 @@ export class NLPService {
         
         if (lowerSentence.includes(lowerTitle)) {
           // Look for simple patterns
-          if (lowerSentence.includes('born in') || lowerSentence.includes('from')) {
-            const locationMatch = sentence.match(/(?:born in|from) ([A-Z][a-z]+(?: [A-Z][a-z]+)*)/);
-            if (locationMatch) {
-              relationships.push({
-                source: pageTitle,
-                target: locationMatch[1],
-                relationship: 'BORN_IN',
-                confidence: 0.8
-              });
-            }
+          const locationMatch = sentence.match(birthplace);
+          if (locationMatch) {
+            relationships.push({
+              source: pageTitle,
+              target: locationMatch[1],
+              relationship: 'BORN_IN',
+              confidence: 0.8
+            });
           }
         }
       });
@@ -155,21 +268,34 @@ export class NLPService {
     );
   }
 
-  async processDocument(document: Document): Promise<{
-    entities: EntityExtraction[];
-    relationships: RelationshipExtraction[];
-  }> {
-    try {
-      const [entities, relationships] = await Promise.all([
-        this.extractEntities(document.content, document.title),
-        this.extractRelationships(document.content, document.title)
-      ]);
-
-      return { entities, relationships };
-    } catch (error) {
-      console.error('Error processing document:', error);
-      return { entities: [], relationships: [] };
-    }
+  // A failing stage is recorded in the result and the rest still run
+  async processDocument(document: Document, config: NlpPipelineConfig = DEFAULT_PIPELINE): Promise<PipelineResult> {
+    return this.pipeline.run(document, config);
+  }
+
+  // Adds the schema.org Person/Organization nodes found in the page metadata,
+  // replacing any pattern match with the same name
+  private mergeStructuredEntities(entities: EntityExtraction[], document: Document): EntityExtraction[] {
+    const structured = ((document.metadata as Partial<PageMetadata> | null)?.entities || [])
+      .map(entity => {
+        const start = document.content.indexOf(entity.name);
+        return {
+          text: entity.name,
+          label: entity.type,
+          start,
+          end: start === -1 ? -1 : start + entity.name.length,
+          confidence: STRUCTURED_CONFIDENCE
+        };
+      });
+    if (structured.length === 0) return entities;
+
+    // Gazetteer terms stay as the project defined them
+    const certain = new Set(entities
+      .filter(entity => (entity.confidence || 0) > STRUCTURED_CONFIDENCE)
+      .map(entity => entity.text.toLowerCase()));
+    const added = structured.filter(entity => !certain.has(entity.text.toLowerCase()));
+    const names = new Set(added.map(entity => entity.text.toLowerCase()));
+    return [...added, ...entities.filter(entity => !names.has(entity.text.toLowerCase()))];
   }
 
   async performSentimentAnalysis(text: string): Promise<{
@@ -211,11 +337,14 @@ export class NLPService {
     documentCount: number;
   }>> {
     // Simple topic modeling using keyword frequency
-    const allText = documents.map(doc => doc.content).join(' ');
-    const words = allText.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 3);
+    // Each document drops the stopwords of its own language; accented letters are kept
+    const words = documents.flatMap(doc => {
+      const stopwords = languageService.stopwords(doc.language);
+      return doc.content.toLowerCase()
+        .replace(/[^\wß-öø-ÿœ\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 3 && !stopwords.has(word));
+    });
 
     const wordFreq = new Map<string, number>();
     words.forEach(word => {
@@ -1,5 +1,6 @@
 import { QAQuery, Document, Entity, Relationship } from "@shared/schema";
 import { graphBuilderService } from "./graph-builder.js";
+import { EntityAlias } from "./entity-resolution.js";
 
 interface ChatMessage {
   role: 'user' | 'assistant';
@@ -57,14 +58,15 @@ export class QAEngineService {
   ): Promise<string> {
     const queryWords = query.query.toLowerCase().split(/\s+/);
     
-    // Find relevant entities
-    const relevantEntities = entities.filter(entity =>
-      queryWords.some(word => entity.name.toLowerCase().includes(word)) ||
-      queryWords.some(word => word.includes(entity.name.toLowerCase()))
-    ).slice(0, 10);
+    // Find relevant entities, under any of their names
+    const namesOf = (entity: Entity) => [entity.name, ...((entity.aliases as EntityAlias[] | null) || []).map(alias => alias.name)];
+    const relevantEntities = entities.filter(entity => namesOf(entity).some(name =>
+      queryWords.some(word => name.toLowerCase().includes(word)) ||
+      queryWords.some(word => word.includes(name.toLowerCase()))
+    )).slice(0, 10);
 
     // Find relevant relationships
-    const entityNames = new Set(relevantEntities.map(e => e.name));
+    const entityNames = new Set(relevantEntities.flatMap(namesOf));
     const relevantRelationships = relationships.filter(rel =>
       entityNames.has(rel.sourceEntity) || entityNames.has(rel.targetEntity)
     ).slice(0, 20);
@@ -0,0 +1,286 @@
+import { RelationPattern, RelationPatternConfig } from "@shared/schema";
+import { storage } from "../storage.js";
+import { AhoCorasick } from "./aho-corasick.js";
+import { gazetteerService } from "./gazetteers.js";
+import { EntityExtraction, RelationshipExtraction, TextSpan } from "./nlp-pipeline.js";
+
+export interface RelationMatch extends RelationshipExtraction {
+  sentence: string; // where the relation was found
+  trigger: string;
+}
+
+export interface RelationPreview {
+  scanned: number; // documents the pattern was tried on
+  matchCount: number;
+  documents: Array<{ id: string; title: string; url: string; matches: RelationMatch[] }>;
+}
+
+type TokenTest = (word: string) => boolean;
+
+interface CompiledPattern {
+  type: string;
+  triggers: Array<{ trigger: string; tests: TokenTest[] }>;
+  sourceTypes: Set<string>; // empty for any type
+  targetTypes: Set<string>;
+  direction: RelationPatternConfig['direction'];
+  keywords: string[]; // literal words and prefixes of the triggers
+}
+
+interface Mention {
+  entity: EntityExtraction;
+  start: number;
+  end: number;
+}
+
+const CONFIDENCE = 0.75;
+const MAX_GAP_WORDS = 10; // words between the two entities, trigger included
+const PREVIEW_DOCUMENTS = 25;
+const PREVIEW_MATCHES = 100;
+
+const WORDS = /[\wÀ-ÖØ-öø-ÿœŒ]+(?:['’-][\wÀ-ÖØ-öø-ÿœŒ]+)*/g;
+const ALTERNATIVE = /^[\wÀ-ÖØ-öø-ÿœŒ'’-]+\*?$/;
+
+const wordsOf = (text: string) => (text.match(WORDS) || []).map(word => word.toLowerCase());
+
+// One test per word of the trigger: a word, alternatives such as buys|bought,
+// prefixes such as suppl*, or * for any word
+function compileTrigger(trigger: string): { tests: TokenTest[]; keywords: string[] } {
+  const tokens = trigger.trim().toLowerCase().split(/\s+/);
+  const keywords: string[] = [];
+  const tests = tokens.map<TokenTest>(token => {
+    if (token === '*') return () => true;
+    const alternatives = token.split('|');
+    if (!alternatives.every(alternative => ALTERNATIVE.test(alternative))) {
+      throw new Error(`"${token}" in trigger "${trigger}" is not a word, a prefix ending in * or words separated by |`);
+    }
+    keywords.push(...alternatives.map(alternative => alternative.replace(/\*$/, '')));
+    return word => alternatives.some(alternative =>
+      alternative.endsWith('*') ? word.startsWith(alternative.slice(0, -1)) : word === alternative
+    );
+  });
+  if (keywords.length === 0) {
+    throw new Error(`Trigger "${trigger}" needs at least one word besides *`);
+  }
+  return { tests, keywords };
+}
+
+// The trigger's words appear in a row somewhere in the gap
+const contains = (words: string[], tests: TokenTest[]) => {
+  for (let i = 0; i + tests.length <= words.length; i++) {
+    if (tests.every((test, offset) => test(words[i + offset]))) return true;
+  }
+  return false;
+};
+
+const sentencesOf = (text: string): TextSpan[] => {
+  const found: TextSpan[] = [];
+  const pattern = /[^.!?]+[.!?]*/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    found.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return found;
+};
+
+// Finds a project's relation types between entities already recognized in a
+// sentence, when one of the triggers appears between them
+export class RelationPatternMatcher {
+  private patterns: CompiledPattern[];
+
+  constructor(configs: RelationPatternConfig[]) {
+    this.patterns = configs.map(config => {
+      const triggers = config.triggers.map(trigger => ({ trigger, ...compileTrigger(trigger) }));
+      return {
+        type: config.type,
+        triggers,
+        sourceTypes: new Set(config.sourceTypes.map(type => type.toUpperCase())),
+        targetTypes: new Set(config.targetTypes.map(type => type.toUpperCase())),
+        direction: config.direction,
+        keywords: triggers.flatMap(({ keywords }) => keywords),
+      };
+    });
+  }
+
+  get size(): number {
+    return this.patterns.length;
+  }
+
+  // Cheap check whether a text can match at all, used to pick preview documents
+  mentionsTrigger(text: string): boolean {
+    const lower = text.toLowerCase();
+    return this.patterns.some(pattern => pattern.keywords.some(keyword => lower.includes(keyword)));
+  }
+
+  // Entities are looked for by name wherever they occur; known spans, such as
+  // gazetteer aliases, are taken as they are
+  match(text: string, entities: EntityExtraction[], sentences: TextSpan[] = [], known: EntityExtraction[] = []): RelationMatch[] {
+    if (this.patterns.length === 0) return [];
+    const mentions = this.mentions(text, entities, known);
+    const matches: RelationMatch[] = [];
+
+    let first = 0;
+    (sentences.length > 0 ? sentences : sentencesOf(text)).forEach(sentence => {
+      while (first < mentions.length && mentions[first].start < sentence.start) first++;
+      let last = first;
+      while (last < mentions.length && mentions[last].end <= sentence.end) last++;
+
+      for (let i = first; i < last; i++) {
+        for (let j = i + 1; j < last; j++) {
+          const [left, right] = [mentions[i].entity, mentions[j].entity];
+          const gap = wordsOf(text.slice(mentions[i].end, mentions[j].start));
+          if (gap.length > MAX_GAP_WORDS) break;
+          if (left.text.toLowerCase() === right.text.toLowerCase()) continue;
+
+          this.patterns.forEach(pattern => {
+            const ends = this.orient(pattern, left, right);
+            const trigger = ends && pattern.triggers.find(({ tests }) => contains(gap, tests));
+            if (!ends || !trigger) return;
+            matches.push({
+              source: ends[0].text,
+              target: ends[1].text,
+              relationship: pattern.type,
+              confidence: CONFIDENCE,
+              sentence: sentence.text.trim(),
+              trigger: trigger.trigger,
+            });
+          });
+        }
+      }
+      first = last;
+    });
+    return matches;
+  }
+
+  private mentions(text: string, entities: EntityExtraction[], known: EntityExtraction[]): Mention[] {
+    const mentions: Mention[] = known
+      .filter(span => span.start >= 0 && span.end <= text.length)
+      .map(span => ({ entity: span, start: span.start, end: span.end }));
+    const overlapsKnown = (start: number, end: number) => mentions.some(mention => start < mention.end && end > mention.start);
+
+    const byName = new Map<string, EntityExtraction>();
+    entities.forEach(entity => {
+      const key = entity.text.toLowerCase();
+      if (entity.text.trim() && !byName.has(key)) byName.set(key, entity);
+    });
+    const named = Array.from(byName.values());
+    if (named.length > 0) {
+      new AhoCorasick(named.map(entity => entity.text)).searchWholeWords(text).forEach(({ pattern, start, end }) => {
+        if (!overlapsKnown(start, end)) mentions.push({ entity: named[pattern], start, end });
+      });
+    }
+    return mentions.sort((a, b) => a.start - b.start);
+  }
+
+  // Source and target for the pattern's direction and entity types, if they fit
+  private orient(pattern: CompiledPattern, left: EntityExtraction, right: EntityExtraction): [EntityExtraction, EntityExtraction] | null {
+    const fits = (types: Set<string>, entity: EntityExtraction) => types.size === 0 || types.has(entity.label.toUpperCase());
+    const forward = fits(pattern.sourceTypes, left) && fits(pattern.targetTypes, right);
+    const reverse = fits(pattern.sourceTypes, right) && fits(pattern.targetTypes, left);
+
+    switch (pattern.direction) {
+      case 'forward':
+        return forward ? [left, right] : null;
+      case 'reverse':
+        return reverse ? [right, left] : null;
+      default:
+        // Either order means the same, so it is stored one way only
+        if (!forward && !reverse) return null;
+        return left.text.localeCompare(right.text) <= 0 ? [left, right] : [right, left];
+    }
+  }
+}
+
+// Per-project relation types beyond the built-in patterns, e.g. SUPPLIES or
+// ACQUIRED for a supply chain project
+export class RelationPatternService {
+  private matchers = new Map<string, Promise<RelationPatternMatcher>>(); // by project id
+
+  // Null for a usable pattern, otherwise what is wrong with it
+  validate(config: RelationPatternConfig): string | null {
+    try {
+      new RelationPatternMatcher([config]);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid trigger';
+    }
+  }
+
+  configOf(pattern: RelationPattern): RelationPatternConfig {
+    return {
+      type: pattern.type,
+      triggers: pattern.triggers as string[],
+      sourceTypes: pattern.sourceTypes as string[],
+      targetTypes: pattern.targetTypes as string[],
+      direction: pattern.direction as RelationPatternConfig['direction'],
+      enabled: pattern.enabled,
+    };
+  }
+
+  async create(projectId: string, config: RelationPatternConfig): Promise<RelationPattern> {
+    const pattern = await storage.createRelationPattern({ projectId, ...config });
+    this.matchers.delete(projectId);
+    return pattern;
+  }
+
+  async update(pattern: RelationPattern, config: RelationPatternConfig): Promise<RelationPattern | undefined> {
+    const updated = await storage.updateRelationPattern(pattern.id, config);
+    if (pattern.projectId) this.matchers.delete(pattern.projectId);
+    return updated;
+  }
+
+  async delete(pattern: RelationPattern): Promise<void> {
+    await storage.deleteRelationPattern(pattern.id);
+    if (pattern.projectId) this.matchers.delete(pattern.projectId);
+  }
+
+  // Compiled once and reused until the project's patterns change
+  forProject(projectId: string): Promise<RelationPatternMatcher> {
+    let matcher = this.matchers.get(projectId);
+    if (!matcher) {
+      matcher = storage.getRelationPatternsByProject(projectId)
+        .then(patterns => new RelationPatternMatcher(patterns.filter(pattern => pattern.enabled).map(pattern => this.configOf(pattern))));
+      matcher.catch(() => this.matchers.delete(projectId));
+      this.matchers.set(projectId, matcher);
+    }
+    return matcher;
+  }
+
+  // Relations of the project's enabled patterns in one document
+  async extract(projectId: string, text: string, entities: EntityExtraction[], sentences: TextSpan[] = []): Promise<RelationMatch[]> {
+    const matcher = await this.forProject(projectId);
+    if (matcher.size === 0) return [];
+    return this.find(matcher, projectId, text, entities, sentences);
+  }
+
+  // What a pattern being edited finds in stored documents, using the entities
+  // they were last processed with
+  async preview(projectId: string, config: RelationPatternConfig, documentIds?: string[]): Promise<RelationPreview> {
+    const matcher = new RelationPatternMatcher([config]);
+    const wanted = documentIds ? new Set(documentIds) : null;
+    const documents = (await storage.getDocumentsByProject(projectId))
+      .filter(doc => !doc.canonicalId)
+      .filter(doc => wanted ? wanted.has(doc.id) : matcher.mentionsTrigger(doc.content))
+      .slice(0, PREVIEW_DOCUMENTS);
+
+    const preview: RelationPreview = { scanned: documents.length, matchCount: 0, documents: [] };
+    for (const document of documents) {
+      const entities = (document.entities as EntityExtraction[] | null) || [];
+      const matches = await this.find(matcher, projectId, document.content, entities);
+      if (matches.length === 0) continue;
+      preview.matchCount += matches.length;
+      if (preview.documents.reduce((count, doc) => count + doc.matches.length, 0) < PREVIEW_MATCHES) {
+        preview.documents.push({ id: document.id, title: document.title, url: document.url, matches });
+      }
+    }
+    return preview;
+  }
+
+  private async find(matcher: RelationPatternMatcher, projectId: string, text: string, entities: EntityExtraction[], sentences: TextSpan[] = []): Promise<RelationMatch[]> {
+    // Gazetteer entries are also recognized by their aliases
+    const dictionary = await gazetteerService.forProject(projectId);
+    const known = dictionary.size > 0 ? dictionary.match(text) : [];
+    return matcher.match(text, entities, sentences, known);
+  }
+}
+
+export const relationPatternService = new RelationPatternService();
@@ -0,0 +1,113 @@
+export type FailureKind = 'dns' | 'timeout' | 'network' | 'http_4xx' | 'http_5xx' | 'parse';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number; // ms before the first retry, doubled on every attempt
+  maxDelay: number;
+}
+
+const RETRYABLE_STATUS = new Set([408, 425, 429]);
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'UND_ERR_SOCKET']);
+
+export class ScrapeError extends Error {
+  readonly kind: FailureKind;
+  readonly statusCode?: number;
+  readonly retryable: boolean;
+  readonly retryAfter?: number; // ms requested by the server via Retry-After
+  attempts = 1;
+
+  constructor(kind: FailureKind, message: string, options: {
+    statusCode?: number;
+    retryable?: boolean;
+    retryAfter?: number;
+  } = {}) {
+    super(message);
+    this.name = 'ScrapeError';
+    this.kind = kind;
+    this.statusCode = options.statusCode;
+    this.retryable = options.retryable ?? false;
+    this.retryAfter = options.retryAfter;
+  }
+
+  static fromResponse(response: Response): ScrapeError {
+    const status = response.status;
+    return new ScrapeError(
+      status >= 500 ? 'http_5xx' : 'http_4xx',
+      `HTTP ${status}: ${response.statusText}`,
+      {
+        statusCode: status,
+        retryable: status >= 500 || RETRYABLE_STATUS.has(status),
+        retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+      }
+    );
+  }
+
+  static fromFetchError(error: unknown): ScrapeError {
+    if (error instanceof ScrapeError) return error;
+
+    const name = (error as { name?: string })?.name;
+    if (name === 'TimeoutError' || name === 'AbortError') {
+      return new ScrapeError('timeout', 'Request timed out', { retryable: true });
+    }
+
+    // Node's fetch wraps the socket error in `cause`
+    const cause = (error as { cause?: { code?: string; message?: string } })?.cause;
+    const code = cause?.code;
+    const message = cause?.message || (error instanceof Error ? error.message : 'Unknown error');
+
+    if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+      // EAI_AGAIN is a resolver hiccup, ENOTFOUND means the name does not exist
+      return new ScrapeError('dns', message, { retryable: code === 'EAI_AGAIN' });
+    }
+    if (code === 'UND_ERR_CONNECT_TIMEOUT' || code === 'UND_ERR_HEADERS_TIMEOUT' || code === 'UND_ERR_BODY_TIMEOUT') {
+      return new ScrapeError('timeout', message, { retryable: true });
+    }
+    return new ScrapeError('network', message, {
+      retryable: !!code && TRANSIENT_NETWORK_CODES.has(code),
+    });
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter, overridden by Retry-After when the
+// server asks for a longer wait
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error: ScrapeError): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  const jittered = Math.random() * exponential;
+  return error.retryAfter !== undefined
+    ? Math.max(jittered, Math.min(error.retryAfter, policy.maxDelay))
+    : jittered;
+}
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: ScrapeError, attempt: number, delay: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (caught) {
+      const error = ScrapeError.fromFetchError(caught);
+      error.attempts = attempt;
+
+      if (!error.retryable || attempt > policy.maxRetries) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt, error);
+      onRetry?.(error, attempt, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
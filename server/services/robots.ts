@@ -0,0 +1,244 @@
+// Product token robots.txt groups name this crawler by, and the User-Agent
+// every request sends, so sites can apply the rules they wrote for it
+export const BOT_TOKEN = 'AnalyticsPlatformBot';
+export const BOT_USER_AGENT = `${BOT_TOKEN}/1.0` + (process.env.BOT_CONTACT_URL ? ` (+${process.env.BOT_CONTACT_URL})` : '');
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  matcher: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+// Parsed robots.txt for a single origin. Kept free of any network access so it
+// can be built directly from fixture text.
+export class RobotsTxt {
+  readonly sitemaps: string[];
+  private groups: RobotsGroup[];
+
+  constructor(groups: RobotsGroup[], sitemaps: string[]) {
+    this.groups = groups;
+    this.sitemaps = sitemaps;
+  }
+
+  static parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    content.split(/\r\n|\r|\n/).forEach(rawLine => {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) return;
+
+      const field = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          // Consecutive user-agent lines share one group
+          if (!current || !lastWasAgent) {
+            current = { userAgents: [], rules: [] };
+            groups.push(current);
+          }
+          current.userAgents.push(value.toLowerCase());
+          lastWasAgent = true;
+          return;
+        case 'allow':
+        case 'disallow':
+          // An empty Disallow means "allow everything" and adds no rule
+          if (current && value) {
+            current.rules.push({
+              allow: field === 'allow',
+              path: value,
+              matcher: RobotsTxt.compilePattern(value),
+            });
+          }
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay) && delay >= 0) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+        case 'sitemap':
+          // Sitemap lines are global and not tied to any group
+          if (value) sitemaps.push(value);
+          break;
+      }
+      lastWasAgent = false;
+    });
+
+    return new RobotsTxt(groups, sitemaps);
+  }
+
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], []);
+  }
+
+  static disallowAll(): RobotsTxt {
+    return new RobotsTxt([{
+      userAgents: ['*'],
+      rules: [{ allow: false, path: '/', matcher: RobotsTxt.compilePattern('/') }],
+    }], []);
+  }
+
+  isAllowed(url: string, userAgent: string): boolean {
+    let path: string;
+    try {
+      const parsed = new URL(url);
+      path = parsed.pathname + parsed.search;
+    } catch {
+      return false;
+    }
+
+    // robots.txt itself is always allowed
+    if (path === '/robots.txt') return true;
+
+    const rules = this.getGroups(userAgent).flatMap(group => group.rules);
+    let best: RobotsRule | null = null;
+
+    for (const rule of rules) {
+      if (!rule.matcher.test(path)) continue;
+      // Longest pattern wins; on a tie Allow beats Disallow
+      if (!best ||
+          rule.path.length > best.path.length ||
+          (rule.path.length === best.path.length && rule.allow && !best.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  getCrawlDelay(userAgent: string): number | undefined {
+    const delays = this.getGroups(userAgent)
+      .map(group => group.crawlDelay)
+      .filter((delay): delay is number => delay !== undefined);
+
+    return delays.length > 0 ? Math.max(...delays) : undefined;
+  }
+
+  private getGroups(userAgent: string): RobotsGroup[] {
+    const agent = userAgent.toLowerCase();
+
+    // Pick the groups whose user-agent token is the most specific match,
+    // falling back to the wildcard groups
+    let bestLength = 0;
+    let matched: RobotsGroup[] = [];
+    this.groups.forEach(group => {
+      group.userAgents.forEach(token => {
+        if (token === '*' || !agent.includes(token)) return;
+        if (token.length > bestLength) {
+          bestLength = token.length;
+          matched = [group];
+        } else if (token.length === bestLength && !matched.includes(group)) {
+          matched.push(group);
+        }
+      });
+    });
+
+    if (matched.length > 0) return matched;
+    return this.groups.filter(group => group.userAgents.includes('*'));
+  }
+
+  private static compilePattern(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const source = body
+      .split('*')
+      .map(part => RobotsTxt.normalizePath(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${source}${anchored ? '$' : ''}`);
+  }
+
+  private static normalizePath(path: string): string {
+    // Compare percent-encoded forms so "/caf%C3%A9" and "/café" are equivalent
+    try {
+      return encodeURI(decodeURI(path));
+    } catch {
+      return path;
+    }
+  }
+}
+
+export class RobotsService {
+  readonly USER_AGENT = BOT_TOKEN;
+  private readonly CACHE_TTL = 24 * 60 * 60 * 1000; // Re-fetch robots.txt daily
+  // A failed fetch disallows the site only briefly, so one network error or
+  // 5xx does not keep it off limits for a day
+  private readonly FAILURE_TTL = 5 * 60 * 1000;
+  private cache: Map<string, { robots: Promise<RobotsTxt>; expiresAt: number }> = new Map();
+
+  async getRobots(url: string, headers: Record<string, string> = {}): Promise<RobotsTxt> {
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return RobotsTxt.disallowAll();
+    }
+
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.robots;
+    }
+
+    // Concurrent lookups share the pending fetch
+    const robots: Promise<RobotsTxt> = this.fetchRobots(origin, headers).then(result => {
+      if (result.failed) {
+        this.cache.set(origin, { robots, expiresAt: Date.now() + this.FAILURE_TTL });
+      }
+      return result.robots;
+    });
+    this.cache.set(origin, { robots, expiresAt: Date.now() + this.CACHE_TTL });
+    return robots;
+  }
+
+  async isAllowed(url: string, headers: Record<string, string> = {}): Promise<boolean> {
+    const robots = await this.getRobots(url, headers);
+    return robots.isAllowed(url, this.USER_AGENT);
+  }
+
+  async getCrawlDelay(url: string, headers: Record<string, string> = {}): Promise<number | undefined> {
+    const robots = await this.getRobots(url, headers);
+    return robots.getCrawlDelay(this.USER_AGENT);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async fetchRobots(origin: string, headers: Record<string, string>): Promise<{ robots: RobotsTxt; failed: boolean }> {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers,
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (response.ok) {
+        return { robots: RobotsTxt.parse(await response.text()), failed: false };
+      }
+
+      // A missing robots.txt means no restrictions, while a server error means
+      // we cannot tell what is allowed and must stay off the site
+      if (response.status >= 400 && response.status < 500) {
+        return { robots: RobotsTxt.allowAll(), failed: false };
+      }
+      console.error(`robots.txt for ${origin} returned HTTP ${response.status}, treating site as disallowed`);
+      return { robots: RobotsTxt.disallowAll(), failed: true };
+    } catch (error) {
+      console.error(`Failed to fetch robots.txt for ${origin}:`, error);
+      return { robots: RobotsTxt.disallowAll(), failed: true };
+    }
+  }
+}
+
+export const robotsService = new RobotsService();
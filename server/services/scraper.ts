@@ -1,7 +1,21 @@
 import { ScrapingConfig } from "@shared/schema";
 import * as cheerio from "cheerio";
+import { createHash } from "crypto";
+import { BOT_USER_AGENT, robotsService } from "./robots.js";
+import { sitemapService } from "./sitemap.js";
+import { CrawlFrontier, CrawlQueueItem, HostRateLimiter } from "./crawl-scheduler.js";
+import { FailureKind, RetryPolicy, ScrapeError, withRetry } from "./retry.js";
+import { UrlFilter } from "./url-filter.js";
+import { contentExtractor } from "./content-extractor.js";
+import { metadataExtractor, PageMetadata } from "./metadata.js";
+import { documentParserService, DocumentFormat, FileMetadata, MAX_DOCUMENT_BYTES } from "./document-parser.js";
+import { CrawlSession } from "./crawl-session.js";
+import { fieldExtractor, ExtractedFields } from "./field-extractor.js";
+import { ExtractionRule } from "@shared/schema";
+import { BudgetUsage, CrawlBudget, CrawlStop } from "./crawl-budget.js";
+import { BrowserFetcher, HttpFetcher, PageFetcher } from "./fetchers.js";
 
-interface ScrapedPage {
+export interface ScrapedPage {
   url: string;
   title: string;
   content: string;
@@ -10,67 +24,243 @@ interface ScrapedPage {
   category: string;
   links: string[];
   images: string[];
+  metadata?: PageMetadata | FileMetadata; // Not set for pages that were not refetched
+  fields?: ExtractedFields; // Values of the project's extraction rules, HTML pages only
+  contentHash: string;
+  etag?: string;
+  lastModified?: string;
+  unchanged?: boolean; // Same content as the previous crawl, nothing to reprocess
+  renderingSuggested?: boolean; // Looks like a client-rendered shell, the browser fetcher would see more
 }
 
+// What an earlier crawl stored for a URL, used for conditional requests
+export interface KnownPage {
+  depth: number;
+  links: string[];
+  contentHash?: string | null;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+// A response as it came off the wire, kept for the WARC archive
+export interface FetchedResponse {
+  url: string;
+  statusCode: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: Buffer;
+}
+
+interface ScrapePageOptions {
+  urlFilter?: UrlFilter;
+  known?: KnownPage;
+  contentSelectors?: string[]; // Tried before the content scoring heuristics
+  session?: CrawlSession; // Cookies and credentials for sites behind a login
+  fetcher?: string; // Registered fetcher name, 'http' when not set
+  extractionRules?: ExtractionRule[];
+  onResponse?: (response: FetchedResponse) => Promise<void>; // Called with every full response
+}
+
+export interface ScrapeProgress {
+  url: string;
+  status: 'success' | 'error' | 'blocked' | 'retrying';
+  totalProcessed: number;
+  message?: string;
+  failure?: {
+    kind: FailureKind;
+    statusCode?: number;
+    attempts: number;
+  };
+}
+
+// Snapshot of a crawl that is enough to pick it up again later
+export interface CrawlCheckpoint {
+  queue: CrawlQueueItem[];
+  seen: string[];
+  processed: number;
+  budget?: BudgetUsage;
+}
+
+export interface CrawlControl {
+  resumeFrom?: CrawlCheckpoint;
+  knownPages?: Map<string, KnownPage>; // Recrawl: previously stored pages, keyed by URL
+  signal?: AbortSignal; // Stops the crawl once in-flight pages have been yielded
+  session?: CrawlSession;
+  onResponse?: (response: FetchedResponse, item: CrawlQueueItem) => Promise<void>;
+  onCheckpoint?: (checkpoint: CrawlCheckpoint) => Promise<void>;
+  onStop?: (stop: CrawlStop) => void; // A stop condition ended the crawl early
+}
 
 export class ScraperService {
-  private readonly HEADERS = {
-    "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
+  readonly HEADERS = {
+    "User-Agent": BOT_USER_AGENT
   };
+  private readonly MAX_RETRY_DELAY = 60000;
+  // Below this many words a page with scripts is probably rendered in the browser
+  private readonly RENDERING_WORD_THRESHOLD = 20;
+  private fetchers = new Map<string, PageFetcher>();
+
+  constructor() {
+    this.registerFetcher(new HttpFetcher());
+    this.registerFetcher(new BrowserFetcher());
+  }
+
+  registerFetcher(fetcher: PageFetcher): void {
+    this.fetchers.set(fetcher.name, fetcher);
+  }
+
+  hasFetcher(name: string): boolean {
+    return this.fetchers.has(name);
+  }
+
+  getFetcherNames(): string[] {
+    return Array.from(this.fetchers.keys());
+  }
+
+  private getFetcher(name = 'http'): PageFetcher {
+    const fetcher = this.fetchers.get(name);
+    if (!fetcher) {
+      throw new ScrapeError('network', `Unknown fetcher "${name}"`);
+    }
+    return fetcher;
+  }
+
+  // Throws a classified ScrapeError so callers can tell transient failures from permanent ones
+  async scrapePage(
+    url: string,
+    depth: number,
+    domain: string,
+    category: string,
+    options: ScrapePageOptions = {}
+  ): Promise<ScrapedPage> {
+    const urlFilter = options.urlFilter || new UrlFilter(domain);
+    const known = options.known;
+
+    // Let the server skip the body when the page has not changed
+    const headers: Record<string, string> = { ...this.HEADERS };
+    if (known?.etag) headers['If-None-Match'] = known.etag;
+    if (known?.lastModified) headers['If-Modified-Since'] = known.lastModified;
 
-  async scrapePage(url: string, depth: number, domain: string, category: string): Promise<ScrapedPage | null> {
+    let fetched: FetchedResponse;
+    let format: DocumentFormat;
     try {
-      const response = await fetch(url, {
-        headers: this.HEADERS,
-        signal: AbortSignal.timeout(10000),
-      });
+      const fetcher = this.getFetcher(options.fetcher);
+      const response = await fetcher.fetch(url, { headers, timeout: fetcher.timeout, session: options.session });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (response.status === 304 && known) {
+        return {
+          url,
+          title: '',
+          content: '',
+          wordCount: 0,
+          depth,
+          category,
+          links: known.links,
+          images: [],
+          contentHash: known.contentHash || '',
+          etag: known.etag || undefined,
+          lastModified: known.lastModified || undefined,
+          unchanged: true,
+        };
       }
 
-      const html = await response.text();
-      const $ = cheerio.load(html);
+      if (!response.ok) {
+        throw ScrapeError.fromResponse(response);
+      }
 
-      // Remove unwanted elements
-      $('script, style, footer, nav, .advertisement, .ads').remove();
-
-      // Extract main content
-      const contentSelectors = [
-        '#page-content',
-        '.content',
-        '.main-content',
-        'main',
-        'article',
-        '.article-body',
-        '.post-content'
-      ];
-
-      let contentElement = $('body');
-      for (const selector of contentSelectors) {
-        const element = $(selector);
-        if (element.length > 0) {
-          contentElement = element;
-          break;
-        }
+      const contentType = response.headers.get('content-type');
+      const detected = documentParserService.detectFormat(contentType, url);
+      if (!detected) {
+        throw new ScrapeError('parse', `Unsupported content type: ${contentType}`);
+      }
+      if (Number(response.headers.get('content-length')) > MAX_DOCUMENT_BYTES) {
+        throw new ScrapeError('parse', `File is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
       }
 
-      const title = $('title').text().trim() || url;
-      const content = contentElement.text().replace(/\s+/g, ' ').trim();
+      format = detected;
+      const headerList: Array<[string, string]> = [];
+      response.headers.forEach((value, name) => {
+        if (name !== 'set-cookie') headerList.push([name, value]);
+      });
+      response.headers.getSetCookie().forEach(value => headerList.push(['set-cookie', value]));
+
+      fetched = {
+        url,
+        statusCode: response.status,
+        statusText: response.statusText,
+        headers: headerList,
+        body: Buffer.from(await response.arrayBuffer()),
+      };
+    } catch (error) {
+      throw ScrapeError.fromFetchError(error);
+    }
+
+    await options.onResponse?.(fetched);
+    return this.parseResponse(fetched, format, depth, category, urlFilter, options);
+  }
+
+  // Runs a response from the WARC archive through the same extraction as a
+  // fresh fetch, without touching the site
+  async scrapeArchived(
+    fetched: FetchedResponse,
+    depth: number,
+    domain: string,
+    category: string,
+    options: ScrapePageOptions = {}
+  ): Promise<ScrapedPage> {
+    const contentType = fetched.headers.find(([name]) => name === 'content-type')?.[1] || null;
+    const format = documentParserService.detectFormat(contentType, fetched.url);
+    if (!format) {
+      throw new ScrapeError('parse', `Unsupported content type: ${contentType}`);
+    }
+    return this.parseResponse(fetched, format, depth, category, options.urlFilter || new UrlFilter(domain), options);
+  }
+
+  private async parseResponse(
+    fetched: FetchedResponse,
+    format: DocumentFormat,
+    depth: number,
+    category: string,
+    urlFilter: UrlFilter,
+    options: ScrapePageOptions
+  ): Promise<ScrapedPage> {
+    const url = fetched.url;
+    const header = (name: string) => fetched.headers.find(([key]) => key === name)?.[1] || undefined;
+    const etag = header('etag');
+    const lastModified = header('last-modified');
+
+    if (format !== 'html') {
+      return this.scrapeFile(url, depth, category, fetched.body, format, urlFilter, { etag, lastModified });
+    }
+
+    try {
+      // Same decoding as Response.text(): UTF-8, byte order mark dropped
+      const html = new TextDecoder().decode(fetched.body);
+      const $ = cheerio.load(html);
+
+      const metadata = metadataExtractor.extract($);
+      const title = $('title').text().trim() || metadata.openGraph['og:title'] || url;
+      const content = contentExtractor.extract(html, options.contentSelectors);
+      const fields = fieldExtractor.extract(html, url, options.extractionRules || []);
       const wordCount = content.split(' ').length;
+      const renderingSuggested = options.fetcher !== 'browser' && this.needsRendering($, wordCount);
 
-      // Extract links
+      // Extract links, normalized so URL variants collapse into one entry
       const links: string[] = [];
       $('a[href]').each((_, element) => {
         const href = $(element).attr('href');
         if (href) {
-          const fullUrl = new URL(href, url).href;
-          if (fullUrl.includes(domain)) {
+          const fullUrl = urlFilter.normalize(href, url);
+          if (fullUrl && urlFilter.isSameSite(fullUrl)) {
             links.push(fullUrl);
           }
         }
       });
 
+      // Store the page under its canonical URL when it declares a same-site one
+      const canonicalHref = $('link[rel="canonical"]').attr('href');
+      const canonicalUrl = canonicalHref ? urlFilter.normalize(canonicalHref, url) : null;
+
       // Extract images
       const images: string[] = [];
       $('img[src]').each((_, element) => {
@@ -82,27 +272,78 @@ export class ScraperService {
       });
 
       return {
-        url,
+        url: canonicalUrl && urlFilter.isSameSite(canonicalUrl) ? canonicalUrl : url,
         title,
         content,
         wordCount,
         depth,
         category,
-        links: [...new Set(links)],
-        images: [...new Set(images)],
+        links: Array.from(new Set(links)),
+        images: Array.from(new Set(images)),
+        metadata,
+        fields,
+        contentHash: createHash('sha256').update(content).digest('hex'),
+        etag,
+        lastModified,
+        ...(renderingSuggested ? { renderingSuggested } : {}),
+      };
+    } catch (error) {
+      throw new ScrapeError('parse', error instanceof Error ? error.message : 'Failed to parse page');
+    }
+  }
+
+  // Almost no text but scripts that would fill the page in, such as the empty
+  // shell a single-page app serves before its bundle runs
+  private needsRendering($: cheerio.CheerioAPI, wordCount: number): boolean {
+    if (wordCount >= this.RENDERING_WORD_THRESHOLD) return false;
+    // JSON-LD and other data blocks do not render anything
+    return $('script[src], script:not([type]), script[type="module"], script[type="text/javascript"]').length > 0;
+  }
+
+  // PDF, DOCX and text files linked from crawled pages
+  private async scrapeFile(
+    url: string,
+    depth: number,
+    category: string,
+    buffer: Buffer,
+    format: Exclude<DocumentFormat, 'html'>,
+    urlFilter: UrlFilter,
+    validators: { etag?: string; lastModified?: string }
+  ): Promise<ScrapedPage> {
+    try {
+      const parsed = await documentParserService.parse(buffer, format, url);
+      const links = parsed.links
+        .map(link => urlFilter.normalize(link, url))
+        .filter((link): link is string => !!link && urlFilter.isSameSite(link));
+
+      return {
+        url,
+        title: parsed.title,
+        content: parsed.content,
+        wordCount: parsed.content.split(' ').length,
+        depth,
+        category,
+        links: Array.from(new Set(links)),
+        images: [],
+        metadata: parsed.metadata,
+        contentHash: createHash('sha256').update(parsed.content).digest('hex'),
+        ...validators,
       };
     } catch (error) {
-      console.error(`Error scraping ${url}:`, error);
-      return null;
+      throw new ScrapeError('parse', error instanceof Error ? error.message : `Failed to parse ${format} file`);
     }
   }
 
-  async extractCategories(baseUrl: string, domain: string): Promise<Record<string, string>> {
+  async extractCategories(
+    baseUrl: string,
+    domain: string,
+    urlFilter: UrlFilter = new UrlFilter(domain),
+    session?: CrawlSession,
+    fetcherName?: string
+  ): Promise<Record<string, string>> {
     try {
-      const response = await fetch(baseUrl, {
-        headers: this.HEADERS,
-        signal: AbortSignal.timeout(10000),
-      });
+      const fetcher = this.getFetcher(fetcherName);
+      const response = await fetcher.fetch(baseUrl, { headers: this.HEADERS, timeout: fetcher.timeout, session });
 
       const html = await response.text();
       const $ = cheerio.load(html);
@@ -115,8 +356,8 @@ export class ScraperService {
         const text = $(element).text().trim();
         
         if (href && text && !text.toLowerCase().startsWith('edit')) {
-          const fullUrl = new URL(href, baseUrl).href;
-          if (fullUrl.includes(domain)) {
+          const fullUrl = urlFilter.normalize(href, baseUrl);
+          if (fullUrl && urlFilter.isAllowed(fullUrl)) {
             allLinks.add([text, fullUrl]);
           }
         }
@@ -146,91 +387,208 @@ export class ScraperService {
     }
   }
 
-  async *scrapeWebsite(config: ScrapingConfig, onProgress?: (progress: {
-    url: string;
-    status: 'success' | 'error';
-    totalProcessed: number;
-    message?: string;
-  }) => void): AsyncGenerator<ScrapedPage> {
+  async *scrapeWebsite(
+    config: ScrapingConfig,
+    onProgress?: (progress: ScrapeProgress) => void,
+    control: CrawlControl = {}
+  ): AsyncGenerator<ScrapedPage> {
     const domain = this.getDomain(config.targetUrl);
-    const seen = new Set<string>();
-    const queue: Array<{ url: string; depth: number; category: string }> = [];
-    
-    // Extract categories first
-    const categories = await this.extractCategories(config.targetUrl, domain);
-    
-    // Add initial URLs to queue
-    Object.entries(categories).forEach(([category, url]) => {
-      if (!seen.has(url)) {
-        seen.add(url);
-        queue.push({ url, depth: 0, category });
-      }
-    });
-
-    let processed = 0;
-    
-    while (queue.length > 0) {
-      const batch = queue.splice(0, config.maxWorkers);
-      
-      const promises = batch.map(async ({ url, depth, category }) => {
-        try {
-          // Add delay between requests
-          if (config.delay > 0) {
-            await new Promise(resolve => setTimeout(resolve, config.delay));
-          }
+    const seen = new Set<string>(control.resumeFrom?.seen);
+    const queue = new CrawlFrontier(config.queueOrder, control.resumeFrom?.queue);
+    const rateLimiter = new HostRateLimiter();
+    const urlFilter = new UrlFilter(domain, config);
+    const budget = new CrawlBudget(config, control.resumeFrom?.budget, control.resumeFrom?.seen);
+    const retryPolicy: RetryPolicy = {
+      maxRetries: config.maxRetries,
+      baseDelay: config.retryBaseDelay,
+      maxDelay: this.MAX_RETRY_DELAY,
+    };
 
-          const result = await this.scrapePage(url, depth, domain, category);
-          
-          if (result) {
-            processed++;
-            onProgress?.({
-              url,
-              status: 'success',
-              totalProcessed: processed,
-              message: `Found ${result.links.length} links, ${result.wordCount} words`,
-            });
-
-            // Add new links to queue if within depth limit
-            if (depth < config.maxDepth) {
-              result.links.forEach(link => {
-                if (!seen.has(link)) {
-                  seen.add(link);
-                  queue.push({ url: link, depth: depth + 1, category });
-                }
-              });
-            }
+    // Never touch a site whose robots.txt keeps us off the start page
+    if (!await robotsService.isAllowed(config.targetUrl, this.HEADERS)) {
+      onProgress?.({
+        url: config.targetUrl,
+        status: 'blocked',
+        totalProcessed: 0,
+        message: 'Disallowed by robots.txt',
+      });
+      return;
+    }
 
-            return result;
-          } else {
-            processed++;
-            onProgress?.({
-              url,
-              status: 'error',
-              totalProcessed: processed,
-              message: 'Failed to scrape page',
-            });
-            return null;
-          }
-        } catch (error) {
-          processed++;
+    // Seed from the sitemap when requested, already ordered by priority and lastmod
+    if (!control.resumeFrom && config.seedMode === 'sitemap') {
+      const entries = await sitemapService.discover(config.targetUrl, domain, this.HEADERS);
+      entries.forEach(({ url: entryUrl, priority }) => {
+        const url = urlFilter.normalize(entryUrl);
+        if (url && urlFilter.isAllowed(url) && !seen.has(url) && budget.claimQuota(url)) {
+          seen.add(url);
+          queue.push({ url, depth: 0, category: 'sitemap', priority });
+        }
+      });
+    }
+
+    // A recrawl revisits every page stored last time, including orphans
+    if (!control.resumeFrom && control.knownPages) {
+      control.knownPages.forEach((page, url) => {
+        if (!seen.has(url) && budget.claimQuota(url)) {
+          seen.add(url);
+          queue.push({ url, depth: page.depth, category: 'recrawl' });
+        }
+      });
+    }
+
+    // Fall back to home page categories when there is no usable sitemap
+    if (!control.resumeFrom && queue.size === 0) {
+      const categories = await this.extractCategories(config.targetUrl, domain, urlFilter, control.session, config.fetcher);
+
+      // Add initial URLs to queue
+      Object.entries(categories).forEach(([category, url]) => {
+        if (!seen.has(url) && budget.claimQuota(url)) {
+          seen.add(url);
+          queue.push({ url, depth: 0, category });
+        }
+      });
+    }
+
+    let processed = control.resumeFrom?.processed || 0;
+    let completedSinceCheckpoint = 0;
+    const inFlight = new Map<Promise<void>, CrawlQueueItem>();
+    const finished: Array<ScrapedPage | null> = [];
+
+    const crawl = async (item: CrawlQueueItem): Promise<ScrapedPage | null> => {
+      const { url, depth, category } = item;
+      try {
+        if (!await robotsService.isAllowed(url, this.HEADERS)) {
           onProgress?.({
             url,
-            status: 'error',
+            status: 'blocked',
             totalProcessed: processed,
-            message: error instanceof Error ? error.message : 'Unknown error',
+            message: 'Disallowed by robots.txt',
           });
           return null;
         }
+
+        // Space out requests per host, honoring Crawl-delay when it is stricter
+        const crawlDelay = await robotsService.getCrawlDelay(url, this.HEADERS);
+        const interval = Math.max(config.delay, (crawlDelay ?? 0) * 1000);
+
+        const result = await withRetry(async () => {
+          await rateLimiter.acquire(this.getDomain(url), interval);
+          return this.scrapePage(url, depth, domain, category, {
+            urlFilter,
+            known: control.knownPages?.get(url),
+            contentSelectors: config.contentSelectors,
+            session: control.session,
+            fetcher: config.fetcher,
+            extractionRules: config.extractionRules,
+            onResponse: async response => {
+              budget.recordBytes(response.body.length);
+              await control.onResponse?.(response, item);
+            },
+          });
+        }, retryPolicy, (error, attempt, retryDelay) => {
+          onProgress?.({
+            url,
+            status: 'retrying',
+            totalProcessed: processed,
+            message: `${error.message}, retrying in ${Math.round(retryDelay / 1000)}s (attempt ${attempt + 1} of ${retryPolicy.maxRetries + 1})`,
+            failure: { kind: error.kind, statusCode: error.statusCode, attempts: attempt },
+          });
+        });
+
+        // A full response can still carry the same content as last time
+        const previous = control.knownPages?.get(result.url);
+        if (previous?.contentHash && previous.contentHash === result.contentHash) {
+          result.unchanged = true;
+        }
+
+        processed++;
+        budget.recordPage();
+        onProgress?.({
+          url,
+          status: 'success',
+          totalProcessed: processed,
+          message: result.unchanged
+            ? 'Unchanged since last crawl'
+            : `Found ${result.links.length} links, ${result.wordCount} words`,
+        });
+
+        // A canonical URL counts as visited so it is not fetched again
+        seen.add(result.url);
+
+        // Add new links to queue if within depth limit
+        if (depth < config.maxDepth) {
+          result.links.forEach(link => {
+            if (!seen.has(link) && urlFilter.isAllowed(link) && budget.claimQuota(link)) {
+              seen.add(link);
+              queue.push({ url: link, depth: depth + 1, category, priority: item.priority });
+            }
+          });
+        }
+
+        return result;
+      } catch (caught) {
+        const error = ScrapeError.fromFetchError(caught);
+        processed++;
+        budget.recordError();
+        onProgress?.({
+          url,
+          status: 'error',
+          totalProcessed: processed,
+          message: error.message,
+          failure: { kind: error.kind, statusCode: error.statusCode, attempts: error.attempts },
+        });
+        return null;
+      }
+    };
+
+    // In-flight URLs go back to the front of the saved queue so a resumed
+    // crawl fetches them again
+    const checkpoint = async () => {
+      completedSinceCheckpoint = 0;
+      await control.onCheckpoint?.({
+        queue: [...Array.from(inFlight.values()), ...queue.toArray()],
+        seen: Array.from(seen),
+        processed,
+        budget: budget.usage(),
       });
+    };
 
-      const results = await Promise.all(promises);
-      
-      for (const result of results) {
+    // Keep maxWorkers requests in flight; a slow page only holds up its own worker.
+    // Once a stop condition is reached no new pages start.
+    let stop: CrawlStop | null = null;
+    while (true) {
+      stop = stop || budget.exhausted();
+      while (!control.signal?.aborted && !stop && inFlight.size < config.maxWorkers && queue.size > 0 && budget.canDispatch(inFlight.size)) {
+        const item = queue.pop()!;
+        const task: Promise<void> = crawl(item).then(result => {
+          inFlight.delete(task);
+          finished.push(result);
+        });
+        inFlight.set(task, item);
+      }
+
+      if (inFlight.size === 0 && finished.length === 0) break;
+      if (finished.length === 0) {
+        await Promise.race(Array.from(inFlight.keys()));
+      }
+
+      while (finished.length > 0) {
+        const result = finished.shift();
+        completedSinceCheckpoint++;
         if (result) {
           yield result;
         }
       }
+
+      // The consumer has handled every finished page by now
+      if (completedSinceCheckpoint >= config.maxWorkers) {
+        await checkpoint();
+      }
     }
+
+    await checkpoint();
+    if (stop) control.onStop?.(stop);
   }
 }
 
@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+// Encrypts secrets at rest with AES-256-GCM. The key is derived from
+// CREDENTIALS_SECRET; without it a random per-process key is used, so stored
+// secrets cannot be read after a restart.
+export class SecretBox {
+  private readonly key: Buffer;
+
+  constructor(secret = process.env.CREDENTIALS_SECRET) {
+    if (secret) {
+      this.key = scryptSync(secret, 'crawl-credentials', 32);
+    } else {
+      console.warn('CREDENTIALS_SECRET is not set; stored crawl credentials will not survive a restart');
+      this.key = randomBytes(32);
+    }
+  }
+
+  // Returns "v1.<iv>.<tag>.<ciphertext>", each part base64url encoded
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [VERSION, iv, cipher.getAuthTag(), data].map(part =>
+      typeof part === 'string' ? part : part.toString('base64url')
+    ).join('.');
+  }
+
+  decrypt(sealed: string): string {
+    const [version, iv, tag, data] = sealed.split('.');
+    if (version !== VERSION || !iv || !tag || data === undefined) {
+      throw new Error('Unrecognized secret format');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+  }
+}
+
+export const secretBox = new SecretBox();
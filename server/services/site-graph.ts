@@ -0,0 +1,222 @@
+import { CrawlFailure, Document, Project } from "@shared/schema";
+
+export interface PageNode {
+  id: string; // page URL
+  label: string;
+  type: 'PAGE';
+  properties: {
+    url: string;
+    depth: number;
+    inbound: number;
+    outbound: number;
+    pageRank: number;
+    orphan: boolean;
+    deadEnd: boolean;
+  };
+  size: number;
+  color: string;
+}
+
+export interface LinkEdge {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+  type: 'LINK';
+  properties: Record<string, never>;
+}
+
+export interface BrokenLink {
+  url: string;
+  statusCode: number | null;
+  kind: string;
+  message: string | null;
+  sources: string[]; // pages that link to the broken URL
+}
+
+// Same nodes/edges/statistics shape as the entity graph, so the graph page can
+// render either one, plus the site structure reports
+export interface SiteGraph {
+  nodes: PageNode[];
+  edges: LinkEdge[];
+  statistics: {
+    nodeCount: number;
+    edgeCount: number;
+    connectedComponents: number;
+    averageDegree: number;
+    density: number;
+    orphanCount: number;
+    deadEndCount: number;
+    brokenLinkCount: number;
+  };
+  topPages: { url: string; title: string; pageRank: number; inbound: number }[];
+  orphans: string[];
+  deadEnds: string[];
+  brokenLinks: BrokenLink[];
+}
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-8;
+const TOP_PAGES = 20;
+
+const COLORS = {
+  page: '#3498db',
+  orphan: '#e67e22',
+  deadEnd: '#95a5a6',
+};
+
+// Builds the page-to-page link graph of a crawled site from the links stored
+// on each document, with PageRank and the usual site audit findings
+export class SiteGraphService {
+  build(project: Project, documents: Document[], failures: CrawlFailure[]): SiteGraph {
+    // Uploads and feed items without a page URL are not part of the site
+    const pages = documents.filter(doc => /^https?:/.test(doc.url));
+    const byUrl = new Map(pages.map(doc => [doc.url, doc]));
+
+    const outLinks = new Map<string, string[]>();
+    const inbound = new Map<string, number>();
+    pages.forEach(doc => inbound.set(doc.url, 0));
+
+    const edges: LinkEdge[] = [];
+    for (const doc of pages) {
+      const targets = Array.from(new Set((doc.links as string[]) || []))
+        .filter(link => link !== doc.url && byUrl.has(link));
+      outLinks.set(doc.url, targets);
+      targets.forEach(target => {
+        inbound.set(target, (inbound.get(target) || 0) + 1);
+        edges.push({ id: `link_${edges.length}`, from: doc.url, to: target, label: 'links to', type: 'LINK', properties: {} });
+      });
+    }
+
+    const pageRank = this.pageRank(pages.map(doc => doc.url), outLinks);
+
+    // The start page itself is not stored, so pages seeded from its links
+    // (depth 0, other than sitemap entries) count as linked
+    const linkedFromStart = (doc: Document) => doc.url === project.baseUrl || (doc.depth === 0 && doc.category !== 'sitemap');
+    const orphans = pages
+      .filter(doc => !linkedFromStart(doc) && inbound.get(doc.url) === 0)
+      .map(doc => doc.url);
+    const deadEnds = pages
+      .filter(doc => ((doc.links as string[]) || []).length === 0)
+      .map(doc => doc.url);
+    const orphanSet = new Set(orphans);
+    const deadEndSet = new Set(deadEnds);
+
+    const maxRank = Array.from(pageRank.values()).reduce((max, rank) => Math.max(max, rank), 0);
+    const nodes: PageNode[] = pages.map(doc => {
+      const rank = pageRank.get(doc.url) || 0;
+      return {
+        id: doc.url,
+        label: doc.title || doc.url,
+        type: 'PAGE',
+        properties: {
+          url: doc.url,
+          depth: doc.depth || 0,
+          inbound: inbound.get(doc.url) || 0,
+          outbound: outLinks.get(doc.url)?.length || 0,
+          pageRank: Math.round(rank * 1e6) / 1e6,
+          orphan: orphanSet.has(doc.url),
+          deadEnd: deadEndSet.has(doc.url),
+        },
+        size: maxRank > 0 ? Math.round(10 + 40 * rank / maxRank) : 10,
+        color: orphanSet.has(doc.url) ? COLORS.orphan : deadEndSet.has(doc.url) ? COLORS.deadEnd : COLORS.page,
+      };
+    });
+
+    const brokenLinks = this.findBrokenLinks(pages, failures);
+    const nodeCount = nodes.length;
+    const edgeCount = edges.length;
+
+    return {
+      nodes,
+      edges,
+      statistics: {
+        nodeCount,
+        edgeCount,
+        connectedComponents: this.countComponents(nodes.map(node => node.id), edges),
+        averageDegree: nodeCount > 0 ? Math.round(2 * edgeCount / nodeCount * 100) / 100 : 0,
+        // Directed graph, so every ordered pair of pages is a possible link
+        density: nodeCount > 1 ? Math.round(edgeCount / (nodeCount * (nodeCount - 1)) * 100) / 100 : 0,
+        orphanCount: orphans.length,
+        deadEndCount: deadEnds.length,
+        brokenLinkCount: brokenLinks.length,
+      },
+      topPages: nodes
+        .slice()
+        .sort((a, b) => b.properties.pageRank - a.properties.pageRank)
+        .slice(0, TOP_PAGES)
+        .map(node => ({
+          url: node.id,
+          title: node.label,
+          pageRank: node.properties.pageRank,
+          inbound: node.properties.inbound,
+        })),
+      orphans,
+      deadEnds,
+      brokenLinks,
+    };
+  }
+
+  // Power iteration; pages without outgoing links spread their rank evenly
+  private pageRank(urls: string[], outLinks: Map<string, string[]>): Map<string, number> {
+    const count = urls.length;
+    let ranks = new Map(urls.map(url => [url, 1 / count]));
+    if (count === 0) return ranks;
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const danglingRank = urls
+        .filter(url => (outLinks.get(url) || []).length === 0)
+        .reduce((sum, url) => sum + ranks.get(url)!, 0);
+      const base = (1 - DAMPING) / count + DAMPING * danglingRank / count;
+
+      const next = new Map(urls.map(url => [url, base]));
+      for (const url of urls) {
+        const targets = outLinks.get(url) || [];
+        const share = DAMPING * ranks.get(url)! / (targets.length || 1);
+        targets.forEach(target => next.set(target, next.get(target)! + share));
+      }
+
+      const delta = urls.reduce((sum, url) => sum + Math.abs(next.get(url)! - ranks.get(url)!), 0);
+      ranks = next;
+      if (delta < TOLERANCE) break;
+    }
+    return ranks;
+  }
+
+  // Weakly connected components, via union-find
+  private countComponents(ids: string[], edges: LinkEdge[]): number {
+    const parent = new Map(ids.map(id => [id, id]));
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+    edges.forEach(edge => parent.set(find(edge.from), find(edge.to)));
+    return new Set(ids.map(find)).size;
+  }
+
+  // Failed crawl URLs together with the pages that link to them; the latest
+  // failure per URL wins, and URLs fetched fine since then are not broken
+  private findBrokenLinks(pages: Document[], failures: CrawlFailure[]): BrokenLink[] {
+    const stored = new Set(pages.map(doc => doc.url));
+    const latest = new Map<string, CrawlFailure>();
+    failures
+      .filter(failure => !stored.has(failure.url))
+      .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime())
+      .forEach(failure => latest.set(failure.url, failure));
+
+    return Array.from(latest.values())
+      .map(failure => ({
+        url: failure.url,
+        statusCode: failure.statusCode,
+        kind: failure.kind,
+        message: failure.message,
+        sources: pages.filter(doc => ((doc.links as string[]) || []).includes(failure.url)).map(doc => doc.url),
+      }))
+      .sort((a, b) => b.sources.length - a.sources.length);
+  }
+}
+
+export const siteGraphService = new SiteGraphService();
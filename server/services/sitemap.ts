@@ -0,0 +1,126 @@
+import * as cheerio from "cheerio";
+import { gunzipSync } from "zlib";
+import { robotsService } from "./robots.js";
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+  priority: number;
+}
+
+// The protocol's own limit for one sitemap file, applied after decompression
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export class SitemapService {
+  private readonly MAX_SITEMAPS = 50; // Upper bound on sitemap files fetched per crawl
+  private readonly DEFAULT_PRIORITY = 0.5;
+
+  async discover(baseUrl: string, domain: string, headers: Record<string, string> = {}): Promise<SitemapEntry[]> {
+    const robots = await robotsService.getRobots(baseUrl, headers);
+    const candidates = robots.sitemaps.length > 0
+      ? robots.sitemaps
+      : [new URL('/sitemap.xml', baseUrl).href];
+
+    const visited = new Set<string>();
+    const pending = [...candidates];
+    const entries = new Map<string, SitemapEntry>();
+
+    while (pending.length > 0 && visited.size < this.MAX_SITEMAPS) {
+      const sitemapUrl = pending.shift()!;
+      if (visited.has(sitemapUrl)) continue;
+      visited.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl, headers);
+      if (!xml) continue;
+
+      // Child sitemaps on other hosts would only list pages that are dropped anyway
+      const parsed = this.parse(xml);
+      pending.push(...parsed.sitemaps.filter(url => this.getHostname(url) === domain));
+      parsed.entries.forEach(entry => {
+        if (this.getHostname(entry.url) === domain && !entries.has(entry.url)) {
+          entries.set(entry.url, entry);
+        }
+      });
+    }
+
+    return this.sortEntries(Array.from(entries.values()));
+  }
+
+  parse(xml: string): { entries: SitemapEntry[]; sitemaps: string[] } {
+    const $ = cheerio.load(xml, { xmlMode: true });
+
+    // A sitemap index only points at other sitemaps
+    const sitemaps: string[] = [];
+    $('sitemapindex > sitemap > loc').each((_, element) => {
+      const loc = $(element).text().trim();
+      if (loc) sitemaps.push(loc);
+    });
+
+    const entries: SitemapEntry[] = [];
+    $('urlset > url').each((_, element) => {
+      const loc = $(element).children('loc').text().trim();
+      if (!loc) return;
+
+      const lastmodText = $(element).children('lastmod').text().trim();
+      const lastmod = lastmodText ? new Date(lastmodText) : undefined;
+      const priority = parseFloat($(element).children('priority').text().trim());
+
+      entries.push({
+        url: loc,
+        lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : undefined,
+        priority: !isNaN(priority) ? Math.min(1, Math.max(0, priority)) : this.DEFAULT_PRIORITY,
+      });
+    });
+
+    return { entries, sitemaps };
+  }
+
+  // Highest priority first, then most recently modified
+  sortEntries(entries: SitemapEntry[]): SitemapEntry[] {
+    return [...entries].sort((a, b) =>
+      b.priority - a.priority ||
+      (b.lastmod?.getTime() || 0) - (a.lastmod?.getTime() || 0)
+    );
+  }
+
+  private async fetchSitemap(url: string, headers: Record<string, string>): Promise<string | null> {
+    try {
+      const response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      if (Number(response.headers.get('content-length')) > MAX_SITEMAP_BYTES) {
+        throw new Error(`Sitemap is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB`);
+      }
+      const body = Buffer.from(await response.arrayBuffer());
+      if (body.length > MAX_SITEMAP_BYTES) {
+        throw new Error(`Sitemap is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB`);
+      }
+
+      // Gzipped sitemaps are served as raw .gz files, not with Content-Encoding.
+      // Decompression stops at the same cap, so a small gzip bomb cannot fill memory.
+      if (body.length > 1 && body[0] === 0x1f && body[1] === 0x8b) {
+        return gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf8');
+      }
+      return body.toString('utf8');
+    } catch (error) {
+      console.error(`Failed to fetch sitemap ${url}:`, error);
+      return null;
+    }
+  }
+
+  private getHostname(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  }
+}
+
+export const sitemapService = new SitemapService();
@@ -0,0 +1,106 @@
+export interface UrlRules {
+  includePatterns: string[];
+  excludePatterns: string[];
+  allowedQueryParams: string[];
+  ignoredQueryParams: string[];
+}
+
+export interface UrlPattern {
+  regex: RegExp;
+  matchPath: boolean; // match against path + query instead of the full URL
+}
+
+// Click-tracking parameters never change the page content
+const TRACKING_PARAMS = [/^utm_/i, /^fbclid$/i, /^gclid$/i, /^msclkid$/i, /^mc_(cid|eid)$/i, /^_ga$/i, /^ref$/i];
+
+// Normalizes discovered URLs and decides which ones a crawl may follow.
+// Patterns prefixed with "re:" are case-insensitive regular expressions tested
+// against the full URL; anything else is a glob where `*` stops at "/" and
+// `**` does not. Globs starting with "/" are matched against the path and
+// query, others against the full URL.
+export class UrlFilter {
+  private domain: string;
+  private include: UrlPattern[];
+  private exclude: UrlPattern[];
+  private allowedParams: Set<string>;
+  private ignoredParams: Set<string>;
+
+  constructor(domain: string, rules: Partial<UrlRules> = {}) {
+    this.domain = domain.toLowerCase();
+    this.include = (rules.includePatterns || []).map(pattern => UrlFilter.compilePattern(pattern));
+    this.exclude = (rules.excludePatterns || []).map(pattern => UrlFilter.compilePattern(pattern));
+    this.allowedParams = new Set((rules.allowedQueryParams || []).map(param => param.toLowerCase()));
+    this.ignoredParams = new Set((rules.ignoredQueryParams || []).map(param => param.toLowerCase()));
+  }
+
+  // Returns null for anything that is not an http(s) URL
+  normalize(href: string, base?: string): string | null {
+    let url: URL;
+    try {
+      url = new URL(href.trim(), base);
+    } catch {
+      return null;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+    // URL already lowercases the scheme and host and drops default ports
+    url.hash = '';
+    url.username = '';
+    url.password = '';
+
+    const params = Array.from(url.searchParams.entries())
+      .filter(([name]) => this.keepParam(name))
+      .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+    url.search = new URLSearchParams(params).toString();
+
+    return url.href;
+  }
+
+  isSameSite(url: string): boolean {
+    try {
+      const hostname = new URL(url).hostname.toLowerCase();
+      return hostname === this.domain || hostname.endsWith(`.${this.domain}`);
+    } catch {
+      return false;
+    }
+  }
+
+  isAllowed(url: string): boolean {
+    if (!this.isSameSite(url)) return false;
+
+    const matches = (pattern: UrlPattern) => UrlFilter.matches(pattern, url);
+    if (this.exclude.some(matches)) return false;
+    return this.include.length === 0 || this.include.some(matches);
+  }
+
+  private keepParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    if (TRACKING_PARAMS.some(pattern => pattern.test(lower))) return false;
+    if (this.allowedParams.size > 0) return this.allowedParams.has(lower);
+    return !this.ignoredParams.has(lower);
+  }
+
+  static matches(pattern: UrlPattern, url: string): boolean {
+    if (!pattern.matchPath) return pattern.regex.test(url);
+    const parsed = new URL(url);
+    return pattern.regex.test(parsed.pathname + parsed.search);
+  }
+
+  static compilePattern(pattern: string): UrlPattern {
+    if (pattern.startsWith('re:')) {
+      return { regex: new RegExp(pattern.substring(3), 'i'), matchPath: false };
+    }
+
+    // "?" is left literal because it is the query separator in URLs
+    const source = pattern
+      .split('**')
+      .map(part => part
+        .split('*')
+        .map(literal => literal.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+        .join('[^/]*'))
+      .join('.*');
+
+    return { regex: new RegExp(`^${source}$`, 'i'), matchPath: pattern.startsWith('/') };
+  }
+}
@@ -0,0 +1,273 @@
+import { ArchiveRecord, CrawlJob, ScrapingConfig } from "@shared/schema";
+import { promises as fs, createReadStream, ReadStream } from "fs";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { gzipSync, gunzipSync } from "zlib";
+import { storage } from "../storage.js";
+import { scraperService, CrawlControl, FetchedResponse, ScrapedPage, ScrapeProgress } from "./scraper.js";
+import { CrawlQueueItem } from "./crawl-scheduler.js";
+import { UrlFilter } from "./url-filter.js";
+
+export interface ArchiveFile {
+  crawlJobId: string | null;
+  warcFile: string;
+  records: number;
+  bytes: number;
+  createdAt: Date | null;
+}
+
+const ARCHIVE_DIR = process.env.WARC_DIR || path.resolve('data', 'warc');
+const CRLF = '\r\n';
+
+// fetch() has already decoded the body, so these no longer describe it. They
+// are kept under a prefixed name, as other crawlers do, and Content-Length is
+// rewritten for the stored body.
+const DECODED_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+const RENAMED_PREFIX = 'x-crawler-';
+
+// How often a replay saves its progress, in records
+const REPLAY_CHECKPOINT_INTERVAL = 20;
+
+// Writes raw HTTP responses into one gzipped WARC 1.1 file per crawl job and
+// reads them back, so pages can be reprocessed without fetching them again
+export class WarcArchiveService {
+  private appending: Map<string, Promise<unknown>> = new Map(); // keyed by WARC file
+
+  // Each record is its own gzip member, so it can be read on its own from the
+  // offset stored in the index
+  async write(job: CrawlJob, item: CrawlQueueItem, response: FetchedResponse): Promise<ArchiveRecord> {
+    const warcFile = this.fileName(job);
+
+    return this.serialize(warcFile, async () => {
+      const absolute = path.join(ARCHIVE_DIR, warcFile);
+      await fs.mkdir(path.dirname(absolute), { recursive: true });
+
+      let offset = await fs.stat(absolute).then(stats => stats.size, () => -1);
+      if (offset < 0) {
+        const info = gzipSync(this.warcinfoRecord(job));
+        await fs.writeFile(absolute, info);
+        offset = info.length;
+      }
+
+      const payloadDigest = `sha256:${createHash('sha256').update(response.body).digest('hex')}`;
+      const record = gzipSync(this.responseRecord(response, payloadDigest));
+      await fs.appendFile(absolute, record);
+
+      return storage.createArchiveRecord({
+        projectId: job.projectId,
+        crawlJobId: job.id,
+        url: response.url,
+        depth: item.depth,
+        category: item.category,
+        warcFile,
+        offset,
+        length: record.length,
+        statusCode: response.statusCode,
+        contentType: response.headers.find(([name]) => name === 'content-type')?.[1] ?? null,
+        payloadDigest,
+      });
+    });
+  }
+
+  async read(record: ArchiveRecord): Promise<FetchedResponse> {
+    const handle = await fs.open(path.join(ARCHIVE_DIR, record.warcFile), 'r');
+    try {
+      const buffer = Buffer.alloc(record.length);
+      await handle.read(buffer, 0, record.length, record.offset);
+      return this.parseResponseRecord(gunzipSync(buffer));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async getFiles(projectId: string): Promise<ArchiveFile[]> {
+    const files = new Map<string, ArchiveFile>();
+    (await storage.getArchiveRecordsByProject(projectId)).forEach(record => {
+      const file = files.get(record.warcFile) || {
+        crawlJobId: record.crawlJobId,
+        warcFile: record.warcFile,
+        records: 0,
+        bytes: 0,
+        createdAt: record.createdAt,
+      };
+      file.records++;
+      file.bytes += record.length;
+      // Records come newest first; the file dates from its oldest one
+      file.createdAt = record.createdAt;
+      files.set(record.warcFile, file);
+    });
+    return Array.from(files.values());
+  }
+
+  // Undefined when the job archived nothing, e.g. with archiving turned off
+  async openFile(projectId: string, crawlJobId: string): Promise<ReadStream | undefined> {
+    const record = (await storage.getArchiveRecordsByProject(projectId))
+      .find(candidate => candidate.crawlJobId === crawlJobId);
+    if (!record) return undefined;
+    return createReadStream(path.join(ARCHIVE_DIR, record.warcFile));
+  }
+
+  // The newest archived response of every URL, run through extraction again.
+  // Progress and checkpoints work as in a crawl, with the URLs still to
+  // replay as the queue.
+  async *replay(
+    projectId: string,
+    config: ScrapingConfig,
+    onProgress?: (progress: ScrapeProgress) => void,
+    control: CrawlControl = {}
+  ): AsyncGenerator<ScrapedPage> {
+    const latest = new Map<string, ArchiveRecord>();
+    (await storage.getArchiveRecordsByProject(projectId)).forEach(record => {
+      if (!latest.has(record.url)) latest.set(record.url, record);
+    });
+
+    const pending = control.resumeFrom
+      ? new Set(control.resumeFrom.queue.map(item => item.url))
+      : new Set(Array.from(latest.keys()));
+    const records = Array.from(latest.values()).filter(record => pending.has(record.url));
+
+    const domain = scraperService.getDomain(config.targetUrl);
+    const urlFilter = new UrlFilter(domain, config);
+    let processed = control.resumeFrom?.processed || 0;
+
+    const checkpoint = (remaining: ArchiveRecord[]) => control.onCheckpoint?.({
+      queue: remaining.map(record => ({ url: record.url, depth: record.depth || 0, category: record.category || 'archive' })),
+      seen: Array.from(latest.keys()),
+      processed,
+    });
+
+    let index = 0;
+    for (; index < records.length; index++) {
+      if (control.signal?.aborted) break;
+      const record = records[index];
+
+      try {
+        const response = await this.read(record);
+        const page = await scraperService.scrapeArchived(response, record.depth || 0, domain, record.category || 'archive', {
+          urlFilter,
+          contentSelectors: config.contentSelectors,
+          fetcher: config.fetcher, // pages archived by the browser fetcher are already rendered
+          extractionRules: config.extractionRules,
+        });
+        processed++;
+        onProgress?.({
+          url: record.url,
+          status: 'success',
+          totalProcessed: processed,
+          message: `Reprocessed archived response from ${new Date(record.createdAt || 0).toISOString()}`,
+        });
+        yield page;
+      } catch (error) {
+        processed++;
+        onProgress?.({
+          url: record.url,
+          status: 'error',
+          totalProcessed: processed,
+          message: error instanceof Error ? error.message : 'Failed to read archived response',
+        });
+      }
+
+      if ((index + 1) % REPLAY_CHECKPOINT_INTERVAL === 0) {
+        await checkpoint(records.slice(index + 1));
+      }
+    }
+
+    // A paused replay picks up at the record it stopped before
+    await checkpoint(records.slice(index));
+  }
+
+  private fileName(job: CrawlJob): string {
+    return path.join(job.projectId || 'unassigned', `${job.id}.warc.gz`);
+  }
+
+  // Appends to a file happen one at a time so record offsets stay correct
+  private serialize<T>(warcFile: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.appending.get(warcFile) || Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => {});
+    this.appending.set(warcFile, settled);
+    settled.then(() => {
+      if (this.appending.get(warcFile) === settled) this.appending.delete(warcFile);
+    });
+    return next;
+  }
+
+  private warcinfoRecord(job: CrawlJob): Buffer {
+    const config = job.config as ScrapingConfig;
+    const fields = [
+      'software: web-scraper',
+      'format: WARC File Format 1.1',
+      `isPartOf: ${job.projectId}`,
+      `description: ${job.mode} of ${config.targetUrl}`,
+    ];
+    return this.record('warcinfo', { 'Content-Type': 'application/warc-fields' }, Buffer.from(fields.join(CRLF) + CRLF));
+  }
+
+  private responseRecord(response: FetchedResponse, payloadDigest: string): Buffer {
+    const headerLines = response.headers.map(([name, value]) =>
+      DECODED_HEADERS.includes(name) ? `${RENAMED_PREFIX}${name}: ${value}` : `${name}: ${value}`
+    );
+    const head = [
+      `HTTP/1.1 ${response.statusCode} ${response.statusText}`.trim(),
+      ...headerLines,
+      `content-length: ${response.body.length}`,
+    ].join(CRLF);
+
+    return this.record('response', {
+      'WARC-Target-URI': response.url,
+      'WARC-Payload-Digest': payloadDigest,
+      'Content-Type': 'application/http;msgtype=response',
+    }, Buffer.concat([Buffer.from(head + CRLF + CRLF), response.body]));
+  }
+
+  private record(type: string, headers: Record<string, string>, block: Buffer): Buffer {
+    const lines = [
+      'WARC/1.1',
+      `WARC-Type: ${type}`,
+      `WARC-Record-ID: <urn:uuid:${randomUUID()}>`,
+      `WARC-Date: ${new Date().toISOString()}`,
+      ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      `Content-Length: ${block.length}`,
+    ];
+    return Buffer.concat([Buffer.from(lines.join(CRLF) + CRLF + CRLF), block, Buffer.from(CRLF + CRLF)]);
+  }
+
+  private parseResponseRecord(raw: Buffer): FetchedResponse {
+    const warcHeaderEnd = raw.indexOf(CRLF + CRLF);
+    if (warcHeaderEnd < 0) throw new Error('Malformed WARC record');
+    const warcHeaders = this.parseHeaders(raw.subarray(0, warcHeaderEnd).toString('utf8').split(CRLF).slice(1));
+
+    const blockStart = warcHeaderEnd + 4;
+    const block = raw.subarray(blockStart, blockStart + Number(this.header(warcHeaders, 'content-length')));
+    const httpHeaderEnd = block.indexOf(CRLF + CRLF);
+    if (httpHeaderEnd < 0) throw new Error('Malformed HTTP response in WARC record');
+
+    const [statusLine, ...headerLines] = block.subarray(0, httpHeaderEnd).toString('utf8').split(CRLF);
+    const status = statusLine.match(/^HTTP\/\S+\s+(\d{3})\s*(.*)$/);
+    if (!status) throw new Error(`Malformed HTTP status line: ${statusLine}`);
+
+    return {
+      url: this.header(warcHeaders, 'warc-target-uri') || '',
+      statusCode: Number(status[1]),
+      statusText: status[2],
+      headers: this.parseHeaders(headerLines)
+        .filter(([name]) => !name.startsWith(RENAMED_PREFIX) && name !== 'content-length'),
+      body: block.subarray(httpHeaderEnd + 4),
+    };
+  }
+
+  private parseHeaders(lines: string[]): Array<[string, string]> {
+    return lines
+      .map(line => {
+        const separator = line.indexOf(':');
+        return [line.substring(0, separator).trim().toLowerCase(), line.substring(separator + 1).trim()] as [string, string];
+      })
+      .filter(([name]) => name.length > 0);
+  }
+
+  private header(headers: Array<[string, string]>, name: string): string | undefined {
+    return headers.find(([key]) => key === name)?.[1];
+  }
+}
+
+export const warcArchiveService = new WarcArchiveService();
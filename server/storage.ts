@@ -3,10 +3,22 @@ import {
   type Document, type InsertDocument,
   type Entity, type InsertEntity,
   type Relationship, type InsertRelationship,
+  type CrawlJob, type InsertCrawlJob,
+  type CrawlSchedule, type InsertCrawlSchedule,
+  type CrawlFailure, type InsertCrawlFailure,
+  type ArchiveRecord, type InsertArchiveRecord,
+  type NlpRun, type InsertNlpRun,
+  type EntityRejection, type InsertEntityRejection,
+  type Gazetteer, type InsertGazetteer,
+  type RelationPattern, type InsertRelationPattern,
+  type Feed, type InsertFeed,
+  type CrawlCredentials, type InsertCrawlCredentials,
   type Conversation, type InsertConversation,
   type Export, type InsertExport
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
 
 export interface IStorage {
   // Projects
@@ -19,6 +31,7 @@ export interface IStorage {
   // Documents
   getDocument(id: string): Promise<Document | undefined>;
   getDocumentsByProject(projectId: string): Promise<Document[]>;
+  getDocumentByUrl(projectId: string, url: string): Promise<Document | undefined>;
   searchDocuments(projectId: string, query: string): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined>;
@@ -30,12 +43,84 @@ export interface IStorage {
   getEntitiesByType(projectId: string, type: string): Promise<Entity[]>;
   createEntity(entity: InsertEntity): Promise<Entity>;
   updateEntity(id: string, updates: Partial<Entity>): Promise<Entity | undefined>;
+  deleteEntity(id: string): Promise<boolean>;
+
+  // Entity resolution decisions
+  getEntityRejections(projectId: string): Promise<EntityRejection[]>;
+  createEntityRejection(rejection: InsertEntityRejection): Promise<EntityRejection>;
+
+  // Gazetteers
+  getGazetteer(id: string): Promise<Gazetteer | undefined>;
+  getGazetteersByProject(projectId: string): Promise<Gazetteer[]>;
+  createGazetteer(gazetteer: InsertGazetteer): Promise<Gazetteer>;
+  deleteGazetteer(id: string): Promise<boolean>;
+
+  // Relation patterns
+  getRelationPattern(id: string): Promise<RelationPattern | undefined>;
+  getRelationPatternsByProject(projectId: string): Promise<RelationPattern[]>;
+  createRelationPattern(pattern: InsertRelationPattern): Promise<RelationPattern>;
+  updateRelationPattern(id: string, updates: Partial<RelationPattern>): Promise<RelationPattern | undefined>;
+  deleteRelationPattern(id: string): Promise<boolean>;
 
   // Relationships
   getRelationship(id: string): Promise<Relationship | undefined>;
   getRelationshipsByProject(projectId: string): Promise<Relationship[]>;
   getRelationshipsByEntity(entityName: string): Promise<Relationship[]>;
   createRelationship(relationship: InsertRelationship): Promise<Relationship>;
+  deleteRelationshipsByDocument(documentId: string): Promise<number>;
+
+  // Replaces a project's entities and relationships, and the extractions stored
+  // on its documents, in one step so readers never see a mix of old and new
+  replaceExtractions(projectId: string, extractions: {
+    entities: InsertEntity[];
+    relationships: InsertRelationship[];
+    documents: Array<{ id: string } & Partial<Document>>;
+  }): Promise<void>;
+
+  // Crawl jobs
+  getCrawlJob(id: string): Promise<CrawlJob | undefined>;
+  getLatestCrawlJob(projectId: string): Promise<CrawlJob | undefined>;
+  getCrawlJobsByStatus(status: string): Promise<CrawlJob[]>;
+  createCrawlJob(crawlJob: InsertCrawlJob): Promise<CrawlJob>;
+  updateCrawlJob(id: string, updates: Partial<CrawlJob>): Promise<CrawlJob | undefined>;
+  getCrawlJobsBySchedule(scheduleId: string): Promise<CrawlJob[]>;
+
+  // Crawl schedules
+  getCrawlSchedule(id: string): Promise<CrawlSchedule | undefined>;
+  getCrawlSchedulesByProject(projectId: string): Promise<CrawlSchedule[]>;
+  getEnabledCrawlSchedules(): Promise<CrawlSchedule[]>;
+  createCrawlSchedule(schedule: InsertCrawlSchedule): Promise<CrawlSchedule>;
+  updateCrawlSchedule(id: string, updates: Partial<CrawlSchedule>): Promise<CrawlSchedule | undefined>;
+  deleteCrawlSchedule(id: string): Promise<boolean>;
+
+  // Crawl failures
+  getCrawlFailuresByProject(projectId: string): Promise<CrawlFailure[]>;
+  createCrawlFailure(failure: InsertCrawlFailure): Promise<CrawlFailure>;
+
+  // WARC archive index
+  getArchiveRecordsByProject(projectId: string): Promise<ArchiveRecord[]>;
+  getArchiveRecordsByUrl(projectId: string, url: string): Promise<ArchiveRecord[]>;
+  createArchiveRecord(record: InsertArchiveRecord): Promise<ArchiveRecord>;
+
+  // NLP reprocessing runs
+  getNlpRun(id: string): Promise<NlpRun | undefined>;
+  getNlpRunsByProject(projectId: string): Promise<NlpRun[]>;
+  getNlpRunsByStatus(status: string): Promise<NlpRun[]>;
+  createNlpRun(run: InsertNlpRun): Promise<NlpRun>;
+  updateNlpRun(id: string, updates: Partial<NlpRun>): Promise<NlpRun | undefined>;
+
+  // Feeds
+  getFeed(id: string): Promise<Feed | undefined>;
+  getFeedsByProject(projectId: string): Promise<Feed[]>;
+  getFeedsByStatus(status: string): Promise<Feed[]>;
+  createFeed(feed: InsertFeed): Promise<Feed>;
+  updateFeed(id: string, updates: Partial<Feed>): Promise<Feed | undefined>;
+
+  // Crawl credentials
+  getCrawlCredentials(projectId: string): Promise<CrawlCredentials | undefined>;
+  createCrawlCredentials(credentials: InsertCrawlCredentials): Promise<CrawlCredentials>;
+  updateCrawlCredentials(id: string, updates: Partial<CrawlCredentials>): Promise<CrawlCredentials | undefined>;
+  deleteCrawlCredentials(projectId: string): Promise<boolean>;
 
   // Conversations
   getConversation(id: string): Promise<Conversation | undefined>;
@@ -52,20 +137,129 @@ export interface IStorage {
   // Statistics
   getProjectStats(projectId: string): Promise<{
     totalDocuments: number;
+    duplicateDocuments: number;
     totalEntities: number;
     totalRelationships: number;
     entityTypes: Record<string, number>;
     relationshipTypes: Record<string, number>;
+    failureTypes: Record<string, number>;
+    languages: Record<string, number>;
   }>;
 }
 
+// Where MemStorage keeps its tables between restarts
+const STORAGE_FILE = process.env.STORAGE_FILE || path.resolve('data', 'storage.json');
+const SAVE_DELAY = 5000; // ms; changes made meanwhile are saved together
+
+// JSON has no dates, so these fields are turned back into Date on load
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'finishedAt', 'nextRunAt', 'lastRunAt', 'lastPolledAt']);
+
+// A Map that reports every change, so the storage knows when to save
+class Table<T> extends Map<string, T> {
+  constructor(private onChange: () => void) {
+    super();
+  }
+
+  set(key: string, value: T): this {
+    super.set(key, value);
+    this.onChange();
+    return this;
+  }
+
+  delete(key: string): boolean {
+    const deleted = super.delete(key);
+    if (deleted) this.onChange();
+    return deleted;
+  }
+
+  clear(): void {
+    super.clear();
+    this.onChange();
+  }
+}
+
+// Keeps everything in memory and writes a snapshot of all tables to
+// STORAGE_FILE shortly after each change, so projects, documents and crawl
+// jobs with their frontier are still there after a restart or deploy
 export class MemStorage implements IStorage {
-  private projects: Map<string, Project> = new Map();
-  private documents: Map<string, Document> = new Map();
-  private entities: Map<string, Entity> = new Map();
-  private relationships: Map<string, Relationship> = new Map();
-  private conversations: Map<string, Conversation> = new Map();
-  private exports: Map<string, Export> = new Map();
+  private tables = new Map<string, Table<unknown>>();
+  private saveTimer?: NodeJS.Timeout;
+
+  private projects = this.table<Project>('projects');
+  private documents = this.table<Document>('documents');
+  private entities = this.table<Entity>('entities');
+  private relationships = this.table<Relationship>('relationships');
+  private crawlJobs = this.table<CrawlJob>('crawlJobs');
+  private crawlSchedules = this.table<CrawlSchedule>('crawlSchedules');
+  private crawlFailures = this.table<CrawlFailure>('crawlFailures');
+  private archiveRecords = this.table<ArchiveRecord>('archiveRecords');
+  private nlpRuns = this.table<NlpRun>('nlpRuns');
+  private entityRejections = this.table<EntityRejection>('entityRejections');
+  private gazetteers = this.table<Gazetteer>('gazetteers');
+  private relationPatterns = this.table<RelationPattern>('relationPatterns');
+  private feeds = this.table<Feed>('feeds');
+  private crawlCredentials = this.table<CrawlCredentials>('crawlCredentials');
+  private conversations = this.table<Conversation>('conversations');
+  private exports = this.table<Export>('exports');
+
+  constructor(private file = STORAGE_FILE) {
+    this.load();
+  }
+
+  // Writes the snapshot right away, e.g. before the process exits
+  flush(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+
+    const tables: Record<string, unknown[]> = {};
+    this.tables.forEach((table, name) => {
+      tables[name] = Array.from(table.values());
+    });
+    try {
+      // Written aside and renamed, so a crash mid-write keeps the previous snapshot
+      mkdirSync(path.dirname(this.file), { recursive: true });
+      writeFileSync(`${this.file}.tmp`, JSON.stringify({ tables }));
+      renameSync(`${this.file}.tmp`, this.file);
+    } catch (error) {
+      console.error(`Failed to save storage to ${this.file}:`, error);
+    }
+  }
+
+  private table<T>(name: string): Table<T> {
+    const table = new Table<T>(() => this.scheduleSave());
+    this.tables.set(name, table as Table<unknown>);
+    return table;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  // A missing file is a fresh start; an unreadable one stops the server
+  // rather than being overwritten with empty tables
+  private load(): void {
+    let text: string;
+    try {
+      text = readFileSync(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const snapshot: { tables?: Record<string, Array<{ id: string }>> } = JSON.parse(text, (key, value) =>
+      DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+    );
+    Object.entries(snapshot.tables || {}).forEach(([name, rows]) => {
+      const table = this.tables.get(name);
+      rows.forEach(row => table?.set(row.id, row));
+    });
+
+    // Loading is not a change
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+  }
 
   // Projects
   async getProject(id: string): Promise<Project | undefined> {
@@ -83,6 +277,7 @@ export class MemStorage implements IStorage {
     const project: Project = {
       ...insertProject,
       id,
+      sourceType: insertProject.sourceType || 'crawl',
       status: insertProject.status || 'pending',
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -119,6 +314,11 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
   }
 
+  async getDocumentByUrl(projectId: string, url: string): Promise<Document | undefined> {
+    return Array.from(this.documents.values())
+      .find(doc => doc.projectId === projectId && doc.url === url);
+  }
+
   async searchDocuments(projectId: string, query: string): Promise<Document[]> {
     const lowerQuery = query.toLowerCase();
     return Array.from(this.documents.values())
@@ -136,7 +336,17 @@ export class MemStorage implements IStorage {
       ...insertDocument,
       id,
       projectId: insertDocument.projectId || null,
+      language: insertDocument.language ?? null,
+      contentHash: insertDocument.contentHash ?? null,
+      etag: insertDocument.etag ?? null,
+      lastModified: insertDocument.lastModified ?? null,
+      simhash: insertDocument.simhash ?? null,
+      minhash: insertDocument.minhash ?? null,
+      canonicalId: insertDocument.canonicalId ?? null,
+      duplicateSimilarity: insertDocument.duplicateSimilarity ?? null,
+      pipeline: insertDocument.pipeline ?? null,
       createdAt: new Date(),
+      updatedAt: new Date(),
     };
     this.documents.set(id, document);
     return document;
@@ -146,7 +356,7 @@ export class MemStorage implements IStorage {
     const document = this.documents.get(id);
     if (!document) return undefined;
 
-    const updated = { ...document, ...updates };
+    const updated = { ...document, ...updates, updatedAt: new Date() };
     this.documents.set(id, updated);
     return updated;
   }
@@ -177,6 +387,9 @@ export class MemStorage implements IStorage {
       ...insertEntity,
       id,
       projectId: insertEntity.projectId || null,
+      confidence: insertEntity.confidence ?? null,
+      aliases: insertEntity.aliases ?? [],
+      externalId: insertEntity.externalId ?? null,
       createdAt: new Date(),
     };
     this.entities.set(id, entity);
@@ -192,6 +405,93 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async deleteEntity(id: string): Promise<boolean> {
+    return this.entities.delete(id);
+  }
+
+  // Entity resolution decisions
+  async getEntityRejections(projectId: string): Promise<EntityRejection[]> {
+    return Array.from(this.entityRejections.values()).filter(rejection => rejection.projectId === projectId);
+  }
+
+  async createEntityRejection(insertRejection: InsertEntityRejection): Promise<EntityRejection> {
+    const id = randomUUID();
+    const rejection: EntityRejection = {
+      ...insertRejection,
+      id,
+      projectId: insertRejection.projectId || null,
+      createdAt: new Date(),
+    };
+    this.entityRejections.set(id, rejection);
+    return rejection;
+  }
+
+  // Gazetteers
+  async getGazetteer(id: string): Promise<Gazetteer | undefined> {
+    return this.gazetteers.get(id);
+  }
+
+  async getGazetteersByProject(projectId: string): Promise<Gazetteer[]> {
+    return Array.from(this.gazetteers.values()).filter(gazetteer => gazetteer.projectId === projectId);
+  }
+
+  async createGazetteer(insertGazetteer: InsertGazetteer): Promise<Gazetteer> {
+    const id = randomUUID();
+    const gazetteer: Gazetteer = {
+      ...insertGazetteer,
+      id,
+      projectId: insertGazetteer.projectId || null,
+      entries: insertGazetteer.entries ?? [],
+      createdAt: new Date(),
+    };
+    this.gazetteers.set(id, gazetteer);
+    return gazetteer;
+  }
+
+  async deleteGazetteer(id: string): Promise<boolean> {
+    return this.gazetteers.delete(id);
+  }
+
+  // Relation patterns
+  async getRelationPattern(id: string): Promise<RelationPattern | undefined> {
+    return this.relationPatterns.get(id);
+  }
+
+  async getRelationPatternsByProject(projectId: string): Promise<RelationPattern[]> {
+    return Array.from(this.relationPatterns.values()).filter(pattern => pattern.projectId === projectId);
+  }
+
+  async createRelationPattern(insertPattern: InsertRelationPattern): Promise<RelationPattern> {
+    const id = randomUUID();
+    const pattern: RelationPattern = {
+      ...insertPattern,
+      id,
+      projectId: insertPattern.projectId || null,
+      triggers: insertPattern.triggers ?? [],
+      sourceTypes: insertPattern.sourceTypes ?? [],
+      targetTypes: insertPattern.targetTypes ?? [],
+      direction: insertPattern.direction ?? 'forward',
+      enabled: insertPattern.enabled ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.relationPatterns.set(id, pattern);
+    return pattern;
+  }
+
+  async updateRelationPattern(id: string, updates: Partial<RelationPattern>): Promise<RelationPattern | undefined> {
+    const pattern = this.relationPatterns.get(id);
+    if (!pattern) return undefined;
+
+    const updated = { ...pattern, ...updates, updatedAt: new Date() };
+    this.relationPatterns.set(id, updated);
+    return updated;
+  }
+
+  async deleteRelationPattern(id: string): Promise<boolean> {
+    return this.relationPatterns.delete(id);
+  }
+
   // Relationships
   async getRelationship(id: string): Promise<Relationship | undefined> {
     return this.relationships.get(id);
@@ -219,6 +519,333 @@ export class MemStorage implements IStorage {
     return relationship;
   }
 
+  async deleteRelationshipsByDocument(documentId: string): Promise<number> {
+    let deleted = 0;
+    Array.from(this.relationships.values()).forEach(rel => {
+      if (rel.documentId === documentId && this.relationships.delete(rel.id)) deleted++;
+    });
+    return deleted;
+  }
+
+  // Synchronous from start to finish, which makes it atomic here
+  async replaceExtractions(projectId: string, extractions: {
+    entities: InsertEntity[];
+    relationships: InsertRelationship[];
+    documents: Array<{ id: string } & Partial<Document>>;
+  }): Promise<void> {
+    Array.from(this.entities.values()).forEach(entity => {
+      if (entity.projectId === projectId) this.entities.delete(entity.id);
+    });
+    Array.from(this.relationships.values()).forEach(rel => {
+      if (rel.projectId === projectId) this.relationships.delete(rel.id);
+    });
+
+    const now = new Date();
+    extractions.entities.forEach(insertEntity => {
+      const id = randomUUID();
+      this.entities.set(id, {
+        ...insertEntity,
+        id,
+        projectId,
+        frequency: insertEntity.frequency ?? 1,
+        confidence: insertEntity.confidence ?? null,
+        documentIds: insertEntity.documentIds ?? [],
+        aliases: insertEntity.aliases ?? [],
+        externalId: insertEntity.externalId ?? null,
+        createdAt: now,
+      });
+    });
+    extractions.relationships.forEach(insertRelationship => {
+      const id = randomUUID();
+      this.relationships.set(id, {
+        ...insertRelationship,
+        id,
+        projectId,
+        documentId: insertRelationship.documentId ?? null,
+        createdAt: now,
+      });
+    });
+    extractions.documents.forEach(({ id, ...updates }) => {
+      const document = this.documents.get(id);
+      if (document) this.documents.set(id, { ...document, ...updates, updatedAt: now });
+    });
+  }
+
+  // Crawl jobs
+  async getCrawlJob(id: string): Promise<CrawlJob | undefined> {
+    return this.crawlJobs.get(id);
+  }
+
+  async getLatestCrawlJob(projectId: string): Promise<CrawlJob | undefined> {
+    return Array.from(this.crawlJobs.values())
+      .filter(job => job.projectId === projectId)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())[0];
+  }
+
+  async getCrawlJobsByStatus(status: string): Promise<CrawlJob[]> {
+    return Array.from(this.crawlJobs.values())
+      .filter(job => job.status === status);
+  }
+
+  async createCrawlJob(insertCrawlJob: InsertCrawlJob): Promise<CrawlJob> {
+    const id = randomUUID();
+    const crawlJob: CrawlJob = {
+      ...insertCrawlJob,
+      id,
+      projectId: insertCrawlJob.projectId || null,
+      status: insertCrawlJob.status || 'running',
+      mode: insertCrawlJob.mode || 'crawl',
+      summary: insertCrawlJob.summary || {},
+      frontier: insertCrawlJob.frontier || [],
+      visited: insertCrawlJob.visited || [],
+      processed: insertCrawlJob.processed || 0,
+      stats: insertCrawlJob.stats || {},
+      scheduleId: insertCrawlJob.scheduleId ?? null,
+      finishedAt: insertCrawlJob.finishedAt ?? null,
+      budget: insertCrawlJob.budget ?? null,
+      stopReason: insertCrawlJob.stopReason ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.crawlJobs.set(id, crawlJob);
+    return crawlJob;
+  }
+
+  async updateCrawlJob(id: string, updates: Partial<CrawlJob>): Promise<CrawlJob | undefined> {
+    const crawlJob = this.crawlJobs.get(id);
+    if (!crawlJob) return undefined;
+
+    const updated = { ...crawlJob, ...updates, updatedAt: new Date() };
+    this.crawlJobs.set(id, updated);
+    return updated;
+  }
+
+  async getCrawlJobsBySchedule(scheduleId: string): Promise<CrawlJob[]> {
+    return Array.from(this.crawlJobs.values())
+      .filter(job => job.scheduleId === scheduleId)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  }
+
+  // Crawl schedules
+  async getCrawlSchedule(id: string): Promise<CrawlSchedule | undefined> {
+    return this.crawlSchedules.get(id);
+  }
+
+  async getCrawlSchedulesByProject(projectId: string): Promise<CrawlSchedule[]> {
+    return Array.from(this.crawlSchedules.values())
+      .filter(schedule => schedule.projectId === projectId);
+  }
+
+  async getEnabledCrawlSchedules(): Promise<CrawlSchedule[]> {
+    return Array.from(this.crawlSchedules.values())
+      .filter(schedule => schedule.enabled);
+  }
+
+  async createCrawlSchedule(insertSchedule: InsertCrawlSchedule): Promise<CrawlSchedule> {
+    const id = randomUUID();
+    const schedule: CrawlSchedule = {
+      ...insertSchedule,
+      id,
+      projectId: insertSchedule.projectId || null,
+      enabled: insertSchedule.enabled ?? true,
+      nextRunAt: insertSchedule.nextRunAt ?? null,
+      lastRunAt: insertSchedule.lastRunAt ?? null,
+      lastResult: insertSchedule.lastResult ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.crawlSchedules.set(id, schedule);
+    return schedule;
+  }
+
+  async updateCrawlSchedule(id: string, updates: Partial<CrawlSchedule>): Promise<CrawlSchedule | undefined> {
+    const schedule = this.crawlSchedules.get(id);
+    if (!schedule) return undefined;
+
+    const updated = { ...schedule, ...updates, updatedAt: new Date() };
+    this.crawlSchedules.set(id, updated);
+    return updated;
+  }
+
+  async deleteCrawlSchedule(id: string): Promise<boolean> {
+    return this.crawlSchedules.delete(id);
+  }
+
+  // Crawl failures
+  async getCrawlFailuresByProject(projectId: string): Promise<CrawlFailure[]> {
+    return Array.from(this.crawlFailures.values())
+      .filter(failure => failure.projectId === projectId)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  }
+
+  async createCrawlFailure(insertFailure: InsertCrawlFailure): Promise<CrawlFailure> {
+    const id = randomUUID();
+    const failure: CrawlFailure = {
+      ...insertFailure,
+      id,
+      projectId: insertFailure.projectId || null,
+      statusCode: insertFailure.statusCode ?? null,
+      message: insertFailure.message ?? null,
+      attempts: insertFailure.attempts ?? 1,
+      createdAt: new Date(),
+    };
+    this.crawlFailures.set(id, failure);
+    return failure;
+  }
+
+  // WARC archive index
+  async getArchiveRecordsByProject(projectId: string): Promise<ArchiveRecord[]> {
+    return Array.from(this.archiveRecords.values())
+      .filter(record => record.projectId === projectId)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  }
+
+  async getArchiveRecordsByUrl(projectId: string, url: string): Promise<ArchiveRecord[]> {
+    return (await this.getArchiveRecordsByProject(projectId))
+      .filter(record => record.url === url);
+  }
+
+  async createArchiveRecord(insertRecord: InsertArchiveRecord): Promise<ArchiveRecord> {
+    const id = randomUUID();
+    const record: ArchiveRecord = {
+      ...insertRecord,
+      id,
+      projectId: insertRecord.projectId || null,
+      crawlJobId: insertRecord.crawlJobId || null,
+      depth: insertRecord.depth ?? 0,
+      category: insertRecord.category ?? null,
+      contentType: insertRecord.contentType ?? null,
+      createdAt: new Date(),
+    };
+    this.archiveRecords.set(id, record);
+    return record;
+  }
+
+  // NLP reprocessing runs
+  async getNlpRun(id: string): Promise<NlpRun | undefined> {
+    return this.nlpRuns.get(id);
+  }
+
+  async getNlpRunsByProject(projectId: string): Promise<NlpRun[]> {
+    return Array.from(this.nlpRuns.values())
+      .filter(run => run.projectId === projectId)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  }
+
+  async getNlpRunsByStatus(status: string): Promise<NlpRun[]> {
+    return Array.from(this.nlpRuns.values())
+      .filter(run => run.status === status);
+  }
+
+  async createNlpRun(insertRun: InsertNlpRun): Promise<NlpRun> {
+    const id = randomUUID();
+    const run: NlpRun = {
+      ...insertRun,
+      id,
+      projectId: insertRun.projectId || null,
+      status: insertRun.status || 'running',
+      pipeline: insertRun.pipeline ?? null,
+      total: insertRun.total ?? 0,
+      processed: insertRun.processed ?? 0,
+      previous: insertRun.previous ?? null,
+      summary: insertRun.summary ?? null,
+      error: insertRun.error ?? null,
+      finishedAt: insertRun.finishedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.nlpRuns.set(id, run);
+    return run;
+  }
+
+  async updateNlpRun(id: string, updates: Partial<NlpRun>): Promise<NlpRun | undefined> {
+    const run = this.nlpRuns.get(id);
+    if (!run) return undefined;
+
+    const updated = { ...run, ...updates };
+    this.nlpRuns.set(id, updated);
+    return updated;
+  }
+
+  // Feeds
+  async getFeed(id: string): Promise<Feed | undefined> {
+    return this.feeds.get(id);
+  }
+
+  async getFeedsByProject(projectId: string): Promise<Feed[]> {
+    return Array.from(this.feeds.values())
+      .filter(feed => feed.projectId === projectId);
+  }
+
+  async getFeedsByStatus(status: string): Promise<Feed[]> {
+    return Array.from(this.feeds.values())
+      .filter(feed => feed.status === status);
+  }
+
+  async createFeed(insertFeed: InsertFeed): Promise<Feed> {
+    const id = randomUUID();
+    const feed: Feed = {
+      ...insertFeed,
+      id,
+      projectId: insertFeed.projectId || null,
+      title: insertFeed.title ?? null,
+      status: insertFeed.status || 'active',
+      pollInterval: insertFeed.pollInterval ?? 30,
+      followLinks: insertFeed.followLinks ?? true,
+      etag: insertFeed.etag ?? null,
+      lastModified: insertFeed.lastModified ?? null,
+      seenItems: insertFeed.seenItems || [],
+      itemCount: insertFeed.itemCount ?? 0,
+      lastPolledAt: insertFeed.lastPolledAt ?? null,
+      lastError: insertFeed.lastError ?? null,
+      createdAt: new Date(),
+    };
+    this.feeds.set(id, feed);
+    return feed;
+  }
+
+  async updateFeed(id: string, updates: Partial<Feed>): Promise<Feed | undefined> {
+    const feed = this.feeds.get(id);
+    if (!feed) return undefined;
+
+    const updated = { ...feed, ...updates };
+    this.feeds.set(id, updated);
+    return updated;
+  }
+
+  // Crawl credentials
+  async getCrawlCredentials(projectId: string): Promise<CrawlCredentials | undefined> {
+    return Array.from(this.crawlCredentials.values())
+      .find(credentials => credentials.projectId === projectId);
+  }
+
+  async createCrawlCredentials(insertCredentials: InsertCrawlCredentials): Promise<CrawlCredentials> {
+    const id = randomUUID();
+    const credentials: CrawlCredentials = {
+      ...insertCredentials,
+      id,
+      projectId: insertCredentials.projectId || null,
+      cookies: insertCredentials.cookies ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.crawlCredentials.set(id, credentials);
+    return credentials;
+  }
+
+  async updateCrawlCredentials(id: string, updates: Partial<CrawlCredentials>): Promise<CrawlCredentials | undefined> {
+    const credentials = this.crawlCredentials.get(id);
+    if (!credentials) return undefined;
+
+    const updated = { ...credentials, ...updates, updatedAt: new Date() };
+    this.crawlCredentials.set(id, updated);
+    return updated;
+  }
+
+  async deleteCrawlCredentials(projectId: string): Promise<boolean> {
+    const credentials = await this.getCrawlCredentials(projectId);
+    return credentials ? this.crawlCredentials.delete(credentials.id) : false;
+  }
+
   // Conversations
   async getConversation(id: string): Promise<Conversation | undefined> {
     return this.conversations.get(id);
@@ -287,14 +914,18 @@ export class MemStorage implements IStorage {
   // Statistics
   async getProjectStats(projectId: string): Promise<{
     totalDocuments: number;
+    duplicateDocuments: number;
     totalEntities: number;
     totalRelationships: number;
     entityTypes: Record<string, number>;
     relationshipTypes: Record<string, number>;
+    failureTypes: Record<string, number>;
+    languages: Record<string, number>;
   }> {
     const projectDocuments = await this.getDocumentsByProject(projectId);
     const projectEntities = await this.getEntitiesByProject(projectId);
     const projectRelationships = await this.getRelationshipsByProject(projectId);
+    const projectFailures = await this.getCrawlFailuresByProject(projectId);
 
     const entityTypes: Record<string, number> = {};
     projectEntities.forEach(entity => {
@@ -306,12 +937,26 @@ export class MemStorage implements IStorage {
       relationshipTypes[rel.relationshipType] = (relationshipTypes[rel.relationshipType] || 0) + 1;
     });
 
+    const languages: Record<string, number> = {};
+    projectDocuments.forEach(doc => {
+      const language = doc.language || 'unknown';
+      languages[language] = (languages[language] || 0) + 1;
+    });
+
+    const failureTypes: Record<string, number> = {};
+    projectFailures.forEach(failure => {
+      failureTypes[failure.kind] = (failureTypes[failure.kind] || 0) + 1;
+    });
+
     return {
       totalDocuments: projectDocuments.length,
+      duplicateDocuments: projectDocuments.filter(doc => doc.canonicalId).length,
       totalEntities: projectEntities.length,
       totalRelationships: projectRelationships.length,
       entityTypes,
       relationshipTypes,
+      failureTypes,
+      languages,
     };
   }
 }
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,7 +12,8 @@ export const projects = pgTable("projects", {
   maxDepth: integer("max_depth").default(3),
   maxWorkers: integer("max_workers").default(20),
   delay: integer("delay").default(1000),
-  status: text("status").notNull().default("pending"), // pending, running, completed, failed
+  sourceType: text("source_type").notNull().default("crawl"), // crawl, feed
+  status: text("status").notNull().default("pending"), // pending, running, paused, cancelled, completed, failed, monitoring
   totalUrls: integer("total_urls").default(0),
   processedUrls: integer("processed_urls").default(0),
   successfulUrls: integer("successful_urls").default(0),
@@ -31,11 +32,23 @@ export const documents = pgTable("documents", {
   wordCount: integer("word_count").default(0),
   depth: integer("depth").default(0),
   category: text("category"),
+  language: text("language"), // ISO 639-1 code detected at ingest, null when it could not be told
   entities: jsonb("entities").default([]),
   relationships: jsonb("relationships").default([]),
   images: jsonb("images").default([]),
   links: jsonb("links").default([]),
+  metadata: jsonb("metadata").default({}), // JSON-LD, microdata, RDFa, OpenGraph, Twitter card and meta tags
+  contentHash: text("content_hash"), // sha256 of the extracted content, for change detection
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  fields: jsonb("fields").default({}), // values of the project's extraction rules
+  simhash: text("simhash"), // 64-bit SimHash of the content shingles, as hex
+  minhash: jsonb("minhash"), // MinHash signature of the same shingles
+  canonicalId: varchar("canonical_id"), // set when this is a near duplicate of another document
+  duplicateSimilarity: real("duplicate_similarity"),
+  pipeline: jsonb("pipeline"), // NLP stages and versions that produced entities and relationships
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const entities = pgTable("entities", {
@@ -44,7 +57,10 @@ export const entities = pgTable("entities", {
   name: text("name").notNull(),
   type: text("type").notNull(), // PERSON, ORG, GPE, NORP, etc.
   frequency: integer("frequency").default(1),
+  confidence: real("confidence"), // highest confidence seen; structured data ranks above NLP guesses
   documentIds: jsonb("document_ids").default([]),
+  aliases: jsonb("aliases").default([]), // names merged into this one, each with its own frequency and documents
+  externalId: text("external_id"), // canonical ID given by a project dictionary
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -58,6 +74,141 @@ export const relationships = pgTable("relationships", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const crawlJobs = pgTable("crawl_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  status: text("status").notNull().default("running"), // running, paused, cancelled, completed, failed
+  mode: text("mode").notNull().default("crawl"), // crawl, recrawl, replay (reprocess from the WARC archive)
+  config: jsonb("config").notNull(),
+  frontier: jsonb("frontier").default([]), // URLs still to crawl, in queue order
+  visited: jsonb("visited").default([]), // URLs already queued or crawled
+  processed: integer("processed").default(0),
+  summary: jsonb("summary").default({}), // recrawl changes: added, changed, unchanged and removed URLs
+  stats: jsonb("stats").default({}), // processed, successful, failed and blocked URLs of this run
+  budget: jsonb("budget"), // usage counted against the stop conditions, kept across pause and resume
+  stopReason: text("stop_reason"), // completed, max_pages, max_bytes, max_duration or max_errors
+  scheduleId: varchar("schedule_id"), // set when a schedule started the run
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Recurring recrawls of a project, run by the server-side scheduler
+export const crawlSchedules = pgTable("crawl_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  cron: text("cron").notNull(), // five-field cron expression or @daily style shortcut, in server time
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastResult: text("last_result"), // started, or why the run was skipped
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const crawlFailures = pgTable("crawl_failures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  url: text("url").notNull(),
+  kind: text("kind").notNull(), // dns, timeout, network, http_4xx, http_5xx, parse
+  statusCode: integer("status_code"),
+  message: text("message"),
+  attempts: integer("attempts").default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Where each raw response of a crawl sits in the project's WARC files
+export const archiveRecords = pgTable("archive_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  crawlJobId: varchar("crawl_job_id").references(() => crawlJobs.id),
+  url: text("url").notNull(),
+  depth: integer("depth").default(0),
+  category: text("category"),
+  warcFile: text("warc_file").notNull(), // relative to the archive directory
+  offset: integer("offset").notNull(), // byte offset of the gzipped record
+  length: integer("length").notNull(),
+  statusCode: integer("status_code").notNull(),
+  contentType: text("content_type"),
+  payloadDigest: text("payload_digest").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A project dictionary of terms that are always recognized as entities,
+// e.g. products, competitors or executives
+export const gazetteers = pgTable("gazetteers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  name: text("name").notNull(),
+  entries: jsonb("entries").notNull().default([]), // GazetteerEntry[]
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A project's own relation types, found between recognized entities by trigger phrases
+export const relationPatterns = pgTable("relation_patterns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  type: text("type").notNull(), // e.g. SUPPLIES
+  triggers: jsonb("triggers").notNull().default([]), // token patterns, e.g. "suppl* parts to"
+  sourceTypes: jsonb("source_types").notNull().default([]), // entity types allowed as source, empty for any
+  targetTypes: jsonb("target_types").notNull().default([]),
+  direction: text("direction").notNull().default("forward"), // forward, reverse, symmetric
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Entities a user declared distinct, so resolution never suggests merging
+// them again. Each group is one side; names in different groups stay apart.
+export const entityRejections = pgTable("entity_rejections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  groups: jsonb("groups").notNull(), // Array<Array<{ name, type }>>
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A re-run of NLP over a project's stored documents
+export const nlpRuns = pgTable("nlp_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  status: text("status").notNull().default("running"), // running, completed, failed
+  pipeline: jsonb("pipeline"), // stage configuration the run used
+  total: integer("total").default(0),
+  processed: integer("processed").default(0),
+  previous: jsonb("previous"), // entities and relationships this run replaced; only the latest run keeps them
+  summary: jsonb("summary"), // counts before and after
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const feeds = pgTable("feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  url: text("url").notNull(),
+  title: text("title"),
+  status: text("status").notNull().default("active"), // active, paused
+  pollInterval: integer("poll_interval").notNull().default(30), // minutes
+  followLinks: boolean("follow_links").default(true), // fetch the linked article when an item only has a summary
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  seenItems: jsonb("seen_items").default([]), // ids of items already ingested, newest first
+  itemCount: integer("item_count").default(0),
+  lastPolledAt: timestamp("last_polled_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Kept out of the crawl config so secrets never end up in plain JSON columns
+export const crawlCredentials = pgTable("crawl_credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id).unique(),
+  secrets: text("secrets").notNull(), // encrypted CrawlAuth
+  cookies: text("cookies"), // encrypted cookie jar from the last crawl
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").references(() => projects.id),
@@ -90,6 +241,7 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
 });
 
 export const insertEntitySchema = createInsertSchema(entities).omit({
@@ -102,6 +254,60 @@ export const insertRelationshipSchema = createInsertSchema(relationships).omit({
   createdAt: true,
 });
 
+export const insertCrawlJobSchema = createInsertSchema(crawlJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCrawlScheduleSchema = createInsertSchema(crawlSchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCrawlFailureSchema = createInsertSchema(crawlFailures).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertArchiveRecordSchema = createInsertSchema(archiveRecords).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGazetteerSchema = createInsertSchema(gazetteers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRelationPatternSchema = createInsertSchema(relationPatterns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertEntityRejectionSchema = createInsertSchema(entityRejections).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNlpRunSchema = createInsertSchema(nlpRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFeedSchema = createInsertSchema(feeds).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCrawlCredentialsSchema = createInsertSchema(crawlCredentials).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   createdAt: true,
@@ -121,23 +327,182 @@ export type Entity = typeof entities.$inferSelect;
 export type InsertEntity = z.infer<typeof insertEntitySchema>;
 export type Relationship = typeof relationships.$inferSelect;
 export type InsertRelationship = z.infer<typeof insertRelationshipSchema>;
+export type CrawlJob = typeof crawlJobs.$inferSelect;
+export type InsertCrawlJob = z.infer<typeof insertCrawlJobSchema>;
+export type CrawlSchedule = typeof crawlSchedules.$inferSelect;
+export type InsertCrawlSchedule = z.infer<typeof insertCrawlScheduleSchema>;
+export type CrawlFailure = typeof crawlFailures.$inferSelect;
+export type InsertCrawlFailure = z.infer<typeof insertCrawlFailureSchema>;
+export type ArchiveRecord = typeof archiveRecords.$inferSelect;
+export type InsertArchiveRecord = z.infer<typeof insertArchiveRecordSchema>;
+export type Gazetteer = typeof gazetteers.$inferSelect;
+export type InsertGazetteer = z.infer<typeof insertGazetteerSchema>;
+export type RelationPattern = typeof relationPatterns.$inferSelect;
+export type InsertRelationPattern = z.infer<typeof insertRelationPatternSchema>;
+export type EntityRejection = typeof entityRejections.$inferSelect;
+export type InsertEntityRejection = z.infer<typeof insertEntityRejectionSchema>;
+export type NlpRun = typeof nlpRuns.$inferSelect;
+export type InsertNlpRun = z.infer<typeof insertNlpRunSchema>;
+export type Feed = typeof feeds.$inferSelect;
+export type InsertFeed = z.infer<typeof insertFeedSchema>;
+export type CrawlCredentials = typeof crawlCredentials.$inferSelect;
+export type InsertCrawlCredentials = z.infer<typeof insertCrawlCredentialsSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Export = typeof exports.$inferSelect;
 export type InsertExport = z.infer<typeof insertExportSchema>;
 
 // Additional schemas for API requests
+
+// URL rule: a glob, or a regular expression when prefixed with "re:"
+const urlPatternSchema = z.string().min(1).refine(pattern => {
+  if (!pattern.startsWith("re:")) return true;
+  try {
+    new RegExp(pattern.substring(3));
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "Invalid regular expression" });
+
+const regexSchema = z.string().refine(pattern => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "Invalid regular expression" });
+
+export const extractionFieldSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][\w-]*$/, "Use letters, digits, - and _"),
+  selector: z.string().min(1),
+  selectorType: z.enum(["css", "xpath"]).default("css"),
+  attribute: z.string().optional(), // read this attribute instead of the text; "html" for the inner HTML
+  regex: regexSchema.optional(), // keeps the first capture group, or the whole match
+  type: z.enum(["string", "number", "integer", "boolean", "date", "url"]).default("string"),
+  multiple: z.boolean().default(false), // every match as a list instead of the first one
+});
+
+// A rule with sub-fields yields one record per match, e.g. per table row.
+// Sub-fields are selected relative to the match with the rule's selector type.
+export const extractionRuleSchema = extractionFieldSchema.extend({
+  fields: z.array(extractionFieldSchema.omit({ selectorType: true })).optional(),
+});
+
 export const scrapingConfigSchema = z.object({
   targetUrl: z.string().url(),
   maxDepth: z.number().min(1).max(5).default(3),
   maxWorkers: z.number().min(1).max(50).default(20),
   delay: z.number().min(0).max(10000).default(1000),
+  seedMode: z.enum(["links", "sitemap"]).default("links"), // links: home page anchors, sitemap: sitemap.xml entries
+  queueOrder: z.enum(["bfs", "priority"]).default("bfs"), // bfs: shallowest first, priority: sitemap priority first
+  fetcher: z.string().min(1).default("http"), // http: plain requests, browser: rendered in headless Chromium
+  maxRetries: z.number().min(0).max(10).default(3),
+  retryBaseDelay: z.number().min(100).max(60000).default(1000),
+  includePatterns: z.array(urlPatternSchema).default([]),
+  excludePatterns: z.array(urlPatternSchema).default(["re:/(log-?in|log-?out|sign-?in|sign-?out)\\b"]),
+  allowedQueryParams: z.array(z.string()).default([]), // when set, every other query parameter is dropped
+  ignoredQueryParams: z.array(z.string()).default(["sort", "order", "orderby", "sessionid", "sid"]),
+  contentSelectors: z.array(z.string()).default([]), // main content selectors tried before automatic extraction
+  extractionRules: z.array(extractionRuleSchema).default([]),
+  // Stop conditions; the crawl finishes the pages in flight and stops at the first one reached
+  maxPages: z.number().int().min(1).optional(),
+  maxBytes: z.number().int().min(1).optional(), // total size of downloaded response bodies
+  maxDuration: z.number().min(1).max(7 * 24 * 60).optional(), // minutes of crawling, not counting pauses
+  maxConsecutiveErrors: z.number().int().min(1).optional(),
+  // Caps how many URLs matching each pattern are crawled, e.g. /blog/** at most 100
+  pathQuotas: z.array(z.object({
+    pattern: urlPatternSchema,
+    maxPages: z.number().int().min(1),
+  })).default([]),
+  archiveResponses: z.boolean().default(true), // keep raw responses in WARC files for reprocessing
   extractEntities: z.boolean().default(true),
   buildRelationships: z.boolean().default(true),
   sentimentAnalysis: z.boolean().default(false),
   topicModeling: z.boolean().default(false),
 });
 
+// Credentials for sites behind a login. Headers and basic auth are only sent to
+// the crawled site, never to other hosts.
+export const crawlAuthSchema = z.object({
+  headers: z.record(z.string()).default({}), // e.g. Authorization: Bearer ...
+  cookies: z.string().optional(), // initial Cookie header, e.g. copied from a browser session
+  basic: z.object({
+    username: z.string().min(1),
+    password: z.string(),
+  }).optional(),
+  login: z.object({
+    url: z.string().url(), // page with the login form
+    formSelector: z.string().optional(), // defaults to the form with a password input
+    fields: z.record(z.string()).default({}), // input name -> value, e.g. username and password
+    successText: z.string().optional(), // must appear on the page after logging in
+  }).optional(),
+});
+
+export const crawlScheduleConfigSchema = z.object({
+  cron: z.string().min(1), // e.g. "0 2 * * *" nightly at 2:00, "0 6 * * mon" Mondays at 6:00
+  enabled: z.boolean().default(true),
+});
+
+// NLP stages run in order, by registered name. Stages of one kind run together:
+// tokenizer, sentences, ner, relations, postprocess.
+export const nlpPipelineSchema = z.array(z.object({
+  stage: z.string().min(1),
+  options: z.record(z.unknown()).default({}), // passed to the stage as is
+})).min(1);
+
+export const entityMergeSchema = z.object({
+  entityIds: z.array(z.string()).min(2),
+  name: z.string().min(1).optional(), // defaults to the most frequent name
+  type: z.string().min(1).optional(), // defaults to the most frequent type
+});
+
+export const entityRejectSchema = z.object({
+  entityIds: z.array(z.string()).min(2),
+});
+
+export const entitySplitSchema = z.object({
+  aliases: z.array(z.object({ name: z.string(), type: z.string() })).min(1),
+});
+
+// One row of a gazetteer CSV: term, type, aliases, canonical_id
+export const gazetteerEntrySchema = z.object({
+  term: z.string().trim().min(1),
+  type: z.string().trim().min(1).transform(type => type.toUpperCase()),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+  canonicalId: z.string().trim().min(1).optional(),
+});
+
+const entityTypes = z.array(z.string().trim().min(1).transform(type => type.toUpperCase())).default([]);
+
+// Triggers are words matched between the two entities: * stands for any one
+// word, a trailing * for any ending (suppl*), and | separates alternatives
+export const relationPatternConfigSchema = z.object({
+  type: z.string().trim().regex(/^[A-Za-z][A-Za-z0-9_]*$/).transform(type => type.toUpperCase()),
+  triggers: z.array(z.string().trim().min(1)).min(1).max(50),
+  sourceTypes: entityTypes,
+  targetTypes: entityTypes,
+  // forward: the entity before the trigger is the source ("X supplies Y"),
+  // reverse: the one after it ("X was acquired by Y"), symmetric: either
+  direction: z.enum(["forward", "reverse", "symmetric"]).default("forward"),
+  enabled: z.boolean().default(true),
+});
+
+export const relationPatternPreviewSchema = z.object({
+  pattern: relationPatternConfigSchema,
+  documentIds: z.array(z.string()).max(50).optional(), // defaults to documents containing a trigger word
+});
+
+export const feedConfigSchema = z.object({
+  feedUrls: z.array(z.string().url()).min(1).max(50), // RSS, Atom or JSON Feed
+  name: z.string().min(1).optional(),
+  pollInterval: z.number().min(5).max(1440).default(30), // minutes
+  followLinks: z.boolean().default(true),
+  extractEntities: z.boolean().default(true),
+  buildRelationships: z.boolean().default(true),
+});
+
 export const qaQuerySchema = z.object({
   projectId: z.string(),
   query: z.string().min(1),
@@ -158,5 +523,14 @@ export const exportRequestSchema = z.object({
 });
 
 export type ScrapingConfig = z.infer<typeof scrapingConfigSchema>;
+export type ExtractionField = z.infer<typeof extractionFieldSchema>;
+export type ExtractionRule = z.infer<typeof extractionRuleSchema>;
+export type CrawlAuth = z.infer<typeof crawlAuthSchema>;
+export type CrawlScheduleConfig = z.infer<typeof crawlScheduleConfigSchema>;
+export type FeedConfig = z.infer<typeof feedConfigSchema>;
+export type NlpPipelineConfig = z.infer<typeof nlpPipelineSchema>;
+export type EntityMerge = z.infer<typeof entityMergeSchema>;
+export type GazetteerEntry = z.infer<typeof gazetteerEntrySchema>;
+export type RelationPatternConfig = z.infer<typeof relationPatternConfigSchema>;
 export type QAQuery = z.infer<typeof qaQuerySchema>;
 export type ExportRequest = z.infer<typeof exportRequestSchema>;